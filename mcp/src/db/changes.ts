@@ -0,0 +1,110 @@
+import { EventEmitter } from 'node:events';
+
+import type { Repository, Row, Storage, TableName } from './repository.js';
+
+export type ChangeAction = 'insert' | 'update' | 'remove';
+
+export type ChangeEvent = {
+  table: TableName;
+  action: ChangeAction;
+  id: string;
+  /** The row after the change; null for removals */
+  row: Record<string, unknown> | null;
+  /** The row before an update or removal; only read while someone is listening */
+  previous: Record<string, unknown> | null;
+  at: string;
+};
+
+export type ChangeListener = (event: ChangeEvent) => void;
+
+const emitter = new EventEmitter();
+// One listener per connected session
+emitter.setMaxListeners(0);
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+/** Calls `listener` after every write through the storage layer; returns an unsubscribe function */
+export function onChange(listener: ChangeListener): () => void {
+  const safe: ChangeListener = (event) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Change listener failed:', error);
+    }
+  };
+  emitter.on('change', safe);
+  return () => emitter.off('change', safe);
+}
+
+function listening(): boolean {
+  return emitter.listenerCount('change') > 0;
+}
+
+function emitChange(table: TableName, action: ChangeAction, id: string, row: unknown, previous: unknown = null): void {
+  const event: ChangeEvent = {
+    table,
+    action,
+    id,
+    row: row as Record<string, unknown> | null,
+    previous: previous as Record<string, unknown> | null,
+    at: new Date().toISOString(),
+  };
+  emitter.emit('change', event);
+}
+
+// ============================================
+// OBSERVED STORAGE
+// ============================================
+function observeRepository<T extends TableName>(table: T, repository: Repository<T>): Repository<T> {
+  return {
+    get: (id) => repository.get(id),
+    list: (query) => repository.list(query),
+    
+    async insert(insert) {
+      const row = await repository.insert(insert);
+      emitChange(table, 'insert', (row as Row<T> & { id: string }).id, row);
+      return row;
+    },
+    
+    async update(id, patch) {
+      const previous = listening() ? await repository.get(id) : null;
+      const row = await repository.update(id, patch);
+      emitChange(table, 'update', id, row, previous);
+      return row;
+    },
+    
+    async updateIf(id, where, patch) {
+      const previous = listening() ? await repository.get(id) : null;
+      const row = await repository.updateIf(id, where, patch);
+      if (row) emitChange(table, 'update', id, row, previous);
+      return row;
+    },
+    
+    async remove(id) {
+      const previous = listening() ? await repository.get(id) : null;
+      await repository.remove(id);
+      emitChange(table, 'remove', id, null, previous);
+    },
+  };
+}
+
+/** Wraps every repository of `storage` so its writes are published to change listeners */
+export function observeStorage(storage: Storage): Storage {
+  const repositories = new Map<TableName, Repository<TableName>>();
+  const table = <T extends TableName>(name: T): Repository<T> => {
+    if (!repositories.has(name)) {
+      repositories.set(name, observeRepository(name, storage.table(name)) as unknown as Repository<TableName>);
+    }
+    return repositories.get(name) as unknown as Repository<T>;
+  };
+  
+  return {
+    backend: storage.backend,
+    projects: table('projects'),
+    tasks: table('tasks'),
+    activity: table('activity_log'),
+    taskStatusHistory: table('task_status_history'),
+    table,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import { isOperators } from './repository.js';
+import type { Filter, Operators, Query, Repository, Row, Storage, TableName, TextSearch } from './repository.js';
+
+/** Tables whose rows carry an `updated_at` maintained by a trigger in Postgres */
+const UPDATED_AT_TABLES = new Set<TableName>(['projects', 'roadmaps', 'tasks', 'content_calendar', 'jobs', 'work_queue', 'escalations', 'handoffs', 'time_entries']);
+
+/** Enum columns sort in declaration order in Postgres, not alphabetically */
+const ENUM_ORDER: Record<string, string[]> = {
+  priority: ['critical', 'high', 'medium', 'low'],
+  severity: ['critical', 'high', 'medium', 'low'],
+};
+
+// ============================================
+// MATCHING
+// ============================================
+function equals(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  // Postgres puts nulls last in ascending order
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+function compareColumn(column: string, a: unknown, b: unknown): number {
+  const order = ENUM_ORDER[column];
+  if (!order || typeof a !== 'string' || typeof b !== 'string') return compare(a, b);
+  return compare(order.indexOf(a), order.indexOf(b));
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition === null) return value === null || value === undefined;
+  if (!isOperators(condition)) return equals(value, condition);
+  
+  const ops = condition as Operators<unknown>;
+  const array = Array.isArray(value) ? value : [];
+  if (ops.neq !== undefined && (ops.neq === null ? value === null || value === undefined : equals(value, ops.neq))) return false;
+  if (ops.in && !ops.in.some((v) => equals(value, v))) return false;
+  if (ops.gt !== undefined && !(value !== null && compare(value, ops.gt) > 0)) return false;
+  if (ops.gte !== undefined && !(value !== null && compare(value, ops.gte) >= 0)) return false;
+  if (ops.lt !== undefined && !(value !== null && compare(value, ops.lt) < 0)) return false;
+  if (ops.lte !== undefined && !(value !== null && compare(value, ops.lte) <= 0)) return false;
+  if (ops.contains && !ops.contains.every((v) => array.some((item) => equals(item, v)))) return false;
+  if (ops.overlaps && !ops.overlaps.some((v) => array.some((item) => equals(item, v)))) return false;
+  return true;
+}
+
+function matchesWhere<R>(row: R, where: Filter<R>): boolean {
+  return Object.entries(where)
+    .filter(([, condition]) => condition !== undefined)
+    .every(([column, condition]) => matchesCondition((row as Record<string, unknown>)[column], condition));
+}
+
+/** Approximates Postgres websearch_to_tsquery with case-insensitive substring matching */
+function matchesSearch<R>(row: R, search: TextSearch<R>): boolean {
+  const text = search.fields
+    .map((field) => (row as Record<string, unknown>)[field])
+    .flatMap((value) => Array.isArray(value) ? value : [value])
+    .filter((value) => value !== null && value !== undefined)
+    .join(' ')
+    .toLowerCase();
+  
+  const terms = search.terms.toLowerCase().match(/-?"[^"]*"|\S+/g) ?? [];
+  return terms.every((raw) => {
+    const excluded = raw.startsWith('-');
+    const term = raw.replace(/^-/, '').replace(/"/g, '').trim();
+    if (!term || term === 'or') return true;
+    return text.includes(term) !== excluded;
+  });
+}
+
+function applyQuery<R>(rows: R[], query: Query<R>): R[] {
+  const { where = {}, search } = query;
+  let result = rows.filter((row) => matchesWhere(row, where) && (!search || matchesSearch(row, search)));
+  
+  const orderBy = query.orderBy ?? [];
+  if (orderBy.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { column, ascending = true } of orderBy) {
+        const order = compareColumn(column, (a as Record<string, unknown>)[column], (b as Record<string, unknown>)[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+  
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+}
+
+// ============================================
+// FILE-BACKED TABLES
+// ============================================
+/**
+ * One JSON file per table under `dir`, loaded on first use and rewritten
+ * atomically after every change. Meant for a single server process.
+ */
+export function createLocalStorage(dirPath: string): Storage {
+  const dir = resolve(dirPath);
+  const tables = new Map<TableName, Promise<Record<string, unknown>[]>>();
+  let writes: Promise<void> = Promise.resolve();
+  
+  function rows(table: TableName): Promise<Record<string, unknown>[]> {
+    if (!tables.has(table)) {
+      tables.set(table, readFile(join(dir, `${table}.json`), 'utf8')
+        .then((source) => JSON.parse(source) as Record<string, unknown>[])
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return [];
+          throw new Error(`Failed to read local table ${table}: ${error.message}`);
+        }));
+    }
+    return tables.get(table)!;
+  }
+  
+  function persist(table: TableName, data: Record<string, unknown>[]): Promise<void> {
+    const file = join(dir, `${table}.json`);
+    const snapshot = JSON.stringify(data, null, 2);
+    // A failed write must not stall the ones queued behind it
+    writes = writes.catch(() => undefined).then(async () => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(`${file}.tmp`, snapshot);
+      await rename(`${file}.tmp`, file);
+    });
+    return writes;
+  }
+  
+  function createLocalRepository<T extends TableName>(table: T): Repository<T> {
+    // Rows are copied in and out so callers never mutate the stored objects
+    const copy = <V>(value: V): V => structuredClone(value);
+    
+    /** Applies the patch without yielding, so a check made just before still holds */
+    function write(data: Record<string, unknown>[], index: number, patch: unknown): Promise<Row<T>> {
+      const row = {
+        ...data[index],
+        ...copy(patch as Record<string, unknown>),
+        ...(UPDATED_AT_TABLES.has(table) ? { updated_at: new Date().toISOString() } : {}),
+      };
+      data[index] = row;
+      return persist(table, data).then(() => copy(row as Row<T>));
+    }
+    
+    return {
+      async get(id) {
+        const row = (await rows(table)).find((r) => r.id === id);
+        return row ? copy(row as Row<T>) : null;
+      },
+      
+      async list(query = {}) {
+        return copy(applyQuery(await rows(table) as Row<T>[], query));
+      },
+      
+      async insert(insert) {
+        const data = await rows(table);
+        const now = new Date().toISOString();
+        const row: Record<string, unknown> = {
+          id: randomUUID(),
+          created_at: now,
+          ...(UPDATED_AT_TABLES.has(table) ? { updated_at: now } : {}),
+          ...copy(insert as Record<string, unknown>),
+        };
+        if (data.some((r) => r.id === row.id)) throw new Error(`Failed to insert into ${table}: duplicate id ${row.id}`);
+        
+        data.push(row);
+        await persist(table, data);
+        return copy(row as Row<T>);
+      },
+      
+      async update(id, patch) {
+        const data = await rows(table);
+        const index = data.findIndex((r) => r.id === id);
+        if (index < 0) throw new Error(`Not found in ${table}: ${id}`);
+        return write(data, index, patch);
+      },
+      
+      async updateIf(id, where, patch) {
+        const data = await rows(table);
+        const index = data.findIndex((r) => r.id === id);
+        if (index < 0 || !matchesWhere(data[index] as Row<T>, where)) return null;
+        return write(data, index, patch);
+      },
+      
+      async remove(id) {
+        const data = await rows(table);
+        const index = data.findIndex((r) => r.id === id);
+        if (index < 0) return;
+        
+        data.splice(index, 1);
+        await persist(table, data);
+      },
+    };
+  }
+  
+  const repositories = new Map<TableName, Repository<TableName>>();
+  const table = <T extends TableName>(name: T): Repository<T> => {
+    if (!repositories.has(name)) repositories.set(name, createLocalRepository(name) as unknown as Repository<TableName>);
+    return repositories.get(name) as unknown as Repository<T>;
+  };
+  
+  return {
+    backend: 'local',
+    projects: table('projects'),
+    tasks: table('tasks'),
+    activity: table('activity_log'),
+    taskStatusHistory: table('task_status_history'),
+    table,
+  };
+}
\ No newline at end of file
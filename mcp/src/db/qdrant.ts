@@ -0,0 +1,371 @@
+import { createHash } from 'node:crypto';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import OpenAI from 'openai';
+import { z } from 'zod';
+
+import { getStorage } from './storage.js';
+import type { Learning, LearningEmbedding } from './supabase.js';
+
+// ============================================
+// ENVIRONMENT VALIDATION
+// ============================================
+const envSchema = z.object({
+  QDRANT_URL: z.string().url(),
+  QDRANT_API_KEY: z.string().optional(),
+  QDRANT_COLLECTION: z.string().min(1),
+  VECTOR_STORE: z.enum(['qdrant', 'memory']),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'local']),
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+});
+
+function getEnv() {
+  const result = envSchema.safeParse({
+    QDRANT_URL: process.env.QDRANT_URL || 'http://localhost:6333',
+    QDRANT_API_KEY: process.env.QDRANT_API_KEY || undefined,
+    QDRANT_COLLECTION: process.env.QDRANT_COLLECTION || 'ha_learnings',
+    VECTOR_STORE: process.env.VECTOR_STORE || 'qdrant',
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || 'openai',
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || undefined,
+    EMBEDDING_DIMENSIONS: process.env.EMBEDDING_DIMENSIONS || undefined,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY || undefined,
+  });
+  
+  if (!result.success) {
+    throw new Error(`Invalid vector search configuration: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+// ============================================
+// EMBEDDING PROVIDERS
+// ============================================
+export interface EmbeddingProvider {
+  /** Stored in learning_embeddings.embedding_model; a change forces a re-embed */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function createOpenAIEmbeddingProvider(apiKey: string, model = 'text-embedding-3-small', dimensions = 1536): EmbeddingProvider {
+  const client = new OpenAI({ apiKey });
+  return {
+    model,
+    dimensions,
+    async embed(texts) {
+      const response = await client.embeddings.create({ model, input: texts, dimensions });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+    },
+  };
+}
+
+/**
+ * Deterministic feature-hashing embedder. No network, no model download:
+ * the same text always yields the same vector, which is all offline
+ * development and CI need.
+ */
+export function createLocalEmbeddingProvider(dimensions = 384): EmbeddingProvider {
+  return {
+    model: `local-hash-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+        
+        for (const token of tokens) {
+          const digest = createHash('sha256').update(token).digest();
+          const index = digest.readUInt32BE(0) % dimensions;
+          vector[index] = (vector[index] ?? 0) + (((digest[4] ?? 0) & 1) === 1 ? 1 : -1);
+        }
+        
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm === 0 ? vector : vector.map((v) => v / norm);
+      });
+    },
+  };
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    const env = getEnv();
+    if (env.EMBEDDING_PROVIDER === 'local') {
+      embeddingProvider = createLocalEmbeddingProvider(env.EMBEDDING_DIMENSIONS);
+    } else {
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required when EMBEDDING_PROVIDER=openai');
+      }
+      embeddingProvider = createOpenAIEmbeddingProvider(env.OPENAI_API_KEY, env.EMBEDDING_MODEL, env.EMBEDDING_DIMENSIONS);
+    }
+  }
+  return embeddingProvider;
+}
+
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+}
+
+// ============================================
+// VECTOR STORES
+// ============================================
+export interface VectorPoint {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  payload: Record<string, unknown>;
+}
+
+/** Payload fields are matched exactly; undefined values are ignored */
+export type VectorFilter = Record<string, string | undefined>;
+
+export interface VectorStore {
+  /**
+   * Creates the collection, or recreates it when its vector size differs.
+   * True when the collection is new and empty, so every point must be rebuilt.
+   */
+  ensureCollection(dimensions: number): Promise<boolean>;
+  upsert(points: VectorPoint[]): Promise<void>;
+  search(vector: number[], limit: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+}
+
+export function createQdrantVectorStore(client: QdrantClient, collection: string): VectorStore {
+  return {
+    async ensureCollection(dimensions) {
+      const { exists } = await client.collectionExists(collection);
+      if (exists) {
+        const info = await client.getCollection(collection);
+        const vectors = info.config.params.vectors;
+        const size = vectors && 'size' in vectors ? vectors.size : undefined;
+        if (size === dimensions) return false;
+        
+        console.error(`Vector collection ${collection} has size ${size}, embeddings have ${dimensions}: recreating`);
+        await client.deleteCollection(collection);
+      }
+      
+      await client.createCollection(collection, {
+        vectors: { size: dimensions, distance: 'Cosine' },
+      });
+      return true;
+    },
+    
+    async upsert(points) {
+      if (points.length === 0) return;
+      await client.upsert(collection, { wait: true, points });
+    },
+    
+    async search(vector, limit, filter = {}) {
+      const must = Object.entries(filter)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({ key, match: { value: value as string } }));
+      
+      const hits = await client.search(collection, {
+        vector,
+        limit,
+        with_payload: true,
+        filter: must.length > 0 ? { must } : undefined,
+      });
+      
+      return hits.map((hit) => ({
+        id: String(hit.id),
+        score: hit.score,
+        payload: (hit.payload ?? {}) as Record<string, unknown>,
+      }));
+    },
+  };
+}
+
+/** In-process stand-in for Qdrant (VECTOR_STORE=memory) */
+export function createMemoryVectorStore(): VectorStore {
+  const points = new Map<string, VectorPoint>();
+  let size: number | null = null;
+  
+  return {
+    // Empty on every start: the first call reports it so the points are rebuilt
+    async ensureCollection(dimensions) {
+      if (size === dimensions) return false;
+      points.clear();
+      size = dimensions;
+      return true;
+    },
+    
+    async upsert(batch) {
+      for (const point of batch) points.set(point.id, point);
+    },
+    
+    async search(vector, limit, filter = {}) {
+      const conditions = Object.entries(filter).filter(([, value]) => value !== undefined);
+      
+      return [...points.values()]
+        .filter((p) => conditions.every(([key, value]) => p.payload[key] === value))
+        .map((p) => ({ id: p.id, score: cosineSimilarity(vector, p.vector), payload: p.payload }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+let vectorStore: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    const env = getEnv();
+    vectorStore = env.VECTOR_STORE === 'memory'
+      ? createMemoryVectorStore()
+      : createQdrantVectorStore(new QdrantClient({ url: env.QDRANT_URL, apiKey: env.QDRANT_API_KEY }), env.QDRANT_COLLECTION);
+  }
+  return vectorStore;
+}
+
+export function setVectorStore(store: VectorStore): void {
+  vectorStore = store;
+}
+
+// ============================================
+// LEARNING EMBEDDINGS
+// ============================================
+const EMBED_BATCH_SIZE = 64;
+
+function learningText(learning: Learning): string {
+  return [
+    learning.title,
+    learning.problem,
+    learning.solution,
+    learning.context ?? '',
+    learning.tags.join(' '),
+  ].join('\n');
+}
+
+export function learningContentHash(learning: Learning): string {
+  return createHash('sha256').update(learningText(learning)).digest('hex');
+}
+
+export interface LearningSyncResult {
+  scanned: number;
+  embedded: number;
+  skipped: number;
+  model: string;
+}
+
+/**
+ * Embeds new or changed learnings and records each sync in learning_embeddings.
+ * Rows whose content_hash and embedding_model still match are skipped, unless
+ * the vector collection came up empty (memory store, new dimensions).
+ */
+export async function syncLearningEmbeddings(options: { force?: boolean } = {}): Promise<LearningSyncResult> {
+  const storage = getStorage();
+  const provider = getEmbeddingProvider();
+  const store = getVectorStore();
+  
+  const [learnings, embeddings] = await Promise.all([
+    storage.table('learnings').list(),
+    storage.table('learning_embeddings').list(),
+  ]);
+  
+  const existing = new Map<string, LearningEmbedding>(embeddings.map((e) => [e.learning_id, e]));
+  const rebuild = await store.ensureCollection(provider.dimensions);
+  
+  const pending = learnings
+    .map((learning) => ({ learning, hash: learningContentHash(learning) }))
+    .filter(({ learning, hash }) => {
+      const previous = existing.get(learning.id);
+      return options.force
+        || rebuild
+        || !previous
+        || previous.content_hash !== hash
+        || previous.embedding_model !== provider.model;
+    });
+  
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(({ learning }) => learningText(learning)));
+    
+    await store.upsert(batch.map(({ learning }, j) => ({
+      id: learning.id,
+      vector: vectors[j] ?? [],
+      payload: {
+        learning_id: learning.id,
+        title: learning.title,
+        category: learning.category,
+        team: learning.team ?? undefined,
+        project_id: learning.project_id ?? undefined,
+        tags: learning.tags,
+      },
+    })));
+    
+    for (const { learning, hash } of batch) {
+      const previous = existing.get(learning.id);
+      const row = {
+        content_hash: hash,
+        qdrant_point_id: learning.id,
+        embedding_model: provider.model,
+      };
+      
+      if (previous) {
+        await storage.table('learning_embeddings').update(previous.id, { ...row, synced_at: new Date().toISOString() });
+      } else {
+        await storage.table('learning_embeddings').insert({ ...row, learning_id: learning.id });
+      }
+    }
+  }
+  
+  return {
+    scanned: learnings.length,
+    embedded: pending.length,
+    skipped: learnings.length - pending.length,
+    model: provider.model,
+  };
+}
+
+export async function searchLearningsSemantic(
+  query: string,
+  options: { limit?: number; category?: string; team?: string; projectId?: string } = {}
+): Promise<Array<Learning & { score: number }>> {
+  const provider = getEmbeddingProvider();
+  const store = getVectorStore();
+  if (await store.ensureCollection(provider.dimensions)) {
+    await syncLearningEmbeddings({ force: true });
+  }
+  
+  const [vector] = await provider.embed([query]);
+  if (!vector) return [];
+  
+  const matches = await store.search(vector, options.limit ?? 10, {
+    category: options.category,
+    team: options.team,
+    project_id: options.projectId,
+  });
+  if (matches.length === 0) return [];
+  
+  const learnings = await getStorage().table('learnings').list({ where: { id: { in: matches.map((m) => m.id) } } });
+  
+  // Points whose learning was deleted are dropped here
+  const byId = new Map(learnings.map((l) => [l.id, l]));
+  return matches.flatMap((m) => {
+    const learning = byId.get(m.id);
+    return learning ? [{ ...learning, score: m.score }] : [];
+  });
+}
\ No newline at end of file
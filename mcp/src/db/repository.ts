@@ -0,0 +1,71 @@
+import type { Database } from './supabase.js';
+
+// ============================================
+// REPOSITORY TYPES
+// ============================================
+type Tables = Database['public']['Tables'];
+
+export type TableName = keyof Tables;
+export type Row<T extends TableName> = Tables[T]['Row'];
+export type Insert<T extends TableName> = Tables[T]['Insert'];
+export type Update<T extends TableName> = Tables[T]['Update'];
+
+type Element<V> = V extends readonly (infer E)[] ? E : never;
+
+/** Operators on one column; several operators on a column must all hold */
+export type Operators<V> = {
+  neq?: V | null;
+  in?: readonly V[];
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  /** Array column contains all of these */
+  contains?: Element<V>[];
+  /** Array column shares at least one of these */
+  overlaps?: Element<V>[];
+};
+
+/** A plain value (or null) means equality; an object means operators */
+export type Filter<R> = { [K in keyof R]?: R[K] | null | Operators<NonNullable<R[K]>> };
+
+/**
+ * Full-text match in web-search syntax ("quoted phrase", -excluded). Postgres
+ * searches the tsvector `column`; the local backend the text of `fields`.
+ */
+export type TextSearch<R> = {
+  terms: string;
+  column: string;
+  fields: Array<keyof R & string>;
+};
+
+export type Query<R> = {
+  where?: Filter<R>;
+  search?: TextSearch<R>;
+  orderBy?: Array<{ column: keyof R & string; ascending?: boolean }>;
+  limit?: number;
+};
+
+export interface Repository<T extends TableName> {
+  get(id: string): Promise<Row<T> | null>;
+  list(query?: Query<Row<T>>): Promise<Row<T>[]>;
+  insert(row: Insert<T>): Promise<Row<T>>;
+  update(id: string, patch: Update<T>): Promise<Row<T>>;
+  /** Updates the row only while it still matches `where`; null when it no longer does */
+  updateIf(id: string, where: Filter<Row<T>>, patch: Update<T>): Promise<Row<T> | null>;
+  remove(id: string): Promise<void>;
+}
+
+export type Storage = {
+  backend: 'supabase' | 'local';
+  projects: Repository<'projects'>;
+  tasks: Repository<'tasks'>;
+  activity: Repository<'activity_log'>;
+  taskStatusHistory: Repository<'task_status_history'>;
+  /** Any other table, for modules that have moved onto the repository layer */
+  table<T extends TableName>(name: T): Repository<T>;
+};
+
+export function isOperators(value: unknown): value is Operators<unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+import { observeStorage } from './changes.js';
+import { createLocalStorage } from './local.js';
+import type { Insert, Storage } from './repository.js';
+import { createSupabaseStorage } from './supabase.js';
+import type { Project, Task } from './supabase.js';
+
+// ============================================
+// ENVIRONMENT VALIDATION
+// ============================================
+const envSchema = z.object({
+  HA_STORAGE: z.enum(['supabase', 'local']),
+  HA_DATA_DIR: z.string().min(1),
+});
+
+function getEnv() {
+  const result = envSchema.safeParse({
+    HA_STORAGE: process.env.HA_STORAGE || 'supabase',
+    HA_DATA_DIR: process.env.HA_DATA_DIR || './.ha-data',
+  });
+  
+  if (!result.success) {
+    throw new Error(`Invalid storage configuration: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+// ============================================
+// STORAGE SINGLETON
+// ============================================
+let storage: Storage | null = null;
+
+/**
+ * Backend chosen by HA_STORAGE: `supabase` (default) or `local` JSON files in
+ * HA_DATA_DIR. Writes are published to change listeners (see changes.ts).
+ */
+export function getStorage(): Storage {
+  if (!storage) {
+    const env = getEnv();
+    storage = observeStorage(env.HA_STORAGE === 'local' ? createLocalStorage(env.HA_DATA_DIR) : createSupabaseStorage());
+  }
+  return storage;
+}
+
+export function setStorage(next: Storage): void {
+  storage = observeStorage(next);
+}
+
+// ============================================
+// TYPED QUERY HELPERS
+// ============================================
+export async function findProjectBySlug(slug: string): Promise<Project | null> {
+  const [project] = await getStorage().projects.list({ where: { slug }, limit: 1 });
+  return project ?? null;
+}
+
+export async function findProjectById(projectId: string): Promise<Project> {
+  const project = await getStorage().projects.get(projectId);
+  if (!project) throw new Error(`Project not found: ${projectId}`);
+  return project;
+}
+
+export async function findTaskById(taskId: string): Promise<Task> {
+  const task = await getStorage().tasks.get(taskId);
+  if (!task) throw new Error(`Task not found: ${taskId}`);
+  return task;
+}
+
+export async function findTasksByAgent(agentName: string): Promise<Task[]> {
+  return getStorage().tasks.list({
+    where: { assigned_agent: agentName.toLowerCase(), status: { in: ['todo', 'in_progress', 'review', 'blocked'] } },
+  });
+}
+
+export async function findTasksByTeam(teamName: string): Promise<Task[]> {
+  return getStorage().tasks.list({
+    where: { assigned_team: teamName.toLowerCase(), status: { in: ['todo', 'in_progress', 'review', 'blocked'] } },
+  });
+}
+
+export type NewTask = Pick<Task, 'project_id' | 'title'> & Partial<Insert<'tasks'>>;
+
+export async function createTask(task: NewTask): Promise<Task> {
+  return getStorage().tasks.insert({
+    description: null,
+    assigned_team: null,
+    assigned_agent: null,
+    priority: 'medium',
+    parent_id: null,
+    estimated_hours: null,
+    tags: [],
+    status: 'backlog',
+    roadmap_id: null,
+    blocked_by: null,
+    blocker_reason: null,
+    deliverable_path: null,
+    deliverables: [],
+    metadata: {},
+    created_by: 'system',
+    updated_by: null,
+    actual_hours: null,
+    due_date: null,
+    started_at: null,
+    completed_at: null,
+    ...task,
+  });
+}
+
+export async function logActivity(
+  agent: string,
+  action: string,
+  details: Record<string, unknown> = {},
+  options: { projectId?: string; team?: string; relatedId?: string; relatedType?: string } = {}
+): Promise<void> {
+  await getStorage().activity.insert({
+    agent,
+    action,
+    details,
+    project_id: options.projectId ?? null,
+    team: options.team ?? null,
+    related_id: options.relatedId ?? null,
+    related_type: options.relatedType ?? null,
+  });
+}
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 
+import { isOperators } from './repository.js';
+import type { Operators, Repository, Row, Storage, TableName } from './repository.js';
+
 // ============================================
 // ENVIRONMENT VALIDATION
 // ============================================
@@ -32,11 +35,21 @@ export type MeetingStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancell
 export type ContentStatus = 'draft' | 'scheduled' | 'posted' | 'failed';
 export type ContentPlatform = 'twitter' | 'linkedin' | 'instagram' | 'tiktok' | 'youtube' | 'facebook' | 'pinterest' | 'threads';
 export type ContentType = 'post' | 'thread' | 'story' | 'reel' | 'video' | 'article' | 'newsletter';
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type WorkItemKind = 'task';
+export type WorkItemStatus = 'queued' | 'claimed' | 'done' | 'cancelled';
+export type EscalationLevel = 'assignee' | 'tech_lead' | 'leadership';
+export type EscalationStatus = 'open' | 'acknowledged' | 'resolved';
+export type HandoffStatus = 'pending' | 'info_requested' | 'accepted' | 'rejected';
+export type MessageSource = 'message' | 'task' | 'meeting';
+export type MessageLinkType = 'task' | 'meeting' | 'project';
+export type ReceiptReason = 'direct' | 'channel' | 'thread' | 'mention';
+export type TimeEntrySource = 'timer' | 'manual';
 
 // ============================================
 // TABLE INTERFACES
 // ============================================
-export interface Project {
+export type Project = {
   id: string;
   name: string;
   slug: string;
@@ -50,7 +63,7 @@ export interface Project {
   updated_at: string;
 }
 
-export interface Roadmap {
+export type Roadmap = {
   id: string;
   project_id: string;
   name: string;
@@ -58,12 +71,19 @@ export interface Roadmap {
   start_date: string | null;
   end_date: string | null;
   status: string;
-  milestones: unknown[];
+  milestones: Milestone[];
   created_at: string;
   updated_at: string;
 }
 
-export interface Task {
+export type Milestone = {
+  id: string;
+  name: string;
+  description: string | null;
+  target_date: string;
+}
+
+export type Task = {
   id: string;
   project_id: string;
   roadmap_id: string | null;
@@ -82,7 +102,7 @@ export interface Task {
   blocked_by: string[] | null;
   blocker_reason: string | null;
   deliverable_path: string | null;
-  deliverables: unknown[];
+  deliverables: Deliverable[];
   tags: string[];
   metadata: Record<string, unknown>;
   created_by: string | null;
@@ -91,7 +111,20 @@ export interface Task {
   updated_at: string;
 }
 
-export interface Learning {
+/** One attached version of a deliverable file (tasks.deliverables) */
+export type Deliverable = {
+  path: string;
+  version: number;
+  sha256: string | null;
+  size: number | null;
+  mime_type: string | null;
+  author: string;
+  attached_at: string;
+  note: string | null;
+  source: 'workspace' | 'n8n';
+}
+
+export type Learning = {
   id: string;
   project_id: string | null;
   title: string;
@@ -110,7 +143,7 @@ export interface Learning {
   created_at: string;
 }
 
-export interface LearningEmbedding {
+export type LearningEmbedding = {
   id: string;
   learning_id: string;
   content_hash: string;
@@ -119,7 +152,7 @@ export interface LearningEmbedding {
   synced_at: string;
 }
 
-export interface Meeting {
+export type Meeting = {
   id: string;
   project_id: string | null;
   title: string;
@@ -133,19 +166,44 @@ export interface Meeting {
   ended_at: string | null;
   transcript: TranscriptEntry[];
   summary: string | null;
-  decisions: unknown[];
-  action_items: unknown[];
+  decisions: MeetingDecision[];
+  action_items: MeetingActionItem[];
   metadata: Record<string, unknown>;
   created_at: string;
 }
 
-export interface TranscriptEntry {
+export type TranscriptEntry = {
   speaker: string;
   message: string;
   timestamp: string;
 }
 
-export interface ActivityLog {
+/** One transcript turn; turns are inserted, never rewritten, so concurrent speakers cannot overwrite each other */
+export type MeetingTurn = {
+  id: string;
+  meeting_id: string;
+  speaker: string;
+  message: string;
+  created_at: string;
+}
+
+export type MeetingDecision = {
+  decision: string;
+  rationale: string | null;
+  decided_by: string | null;
+}
+
+export type MeetingActionItem = {
+  title: string;
+  owner: string;
+  team: string | null;
+  priority: PriorityLevel;
+  due_date: string | null;
+  /** Set once the action item has been turned into a task */
+  task_id: string | null;
+}
+
+export type ActivityLog = {
   id: string;
   project_id: string | null;
   team: string | null;
@@ -157,7 +215,7 @@ export interface ActivityLog {
   created_at: string;
 }
 
-export interface ContentCalendar {
+export type ContentCalendar = {
   id: string;
   project_id: string;
   platform: ContentPlatform;
@@ -182,6 +240,147 @@ export interface ContentCalendar {
   updated_at: string;
 }
 
+export type Job = {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  project_id: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  request: Record<string, unknown>;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export type TaskStatusChange = {
+  id: string;
+  task_id: string;
+  project_id: string;
+  from_status: TaskStatus | null;
+  to_status: TaskStatus;
+  changed_by: string;
+  reason: string | null;
+  reviewer: string | null;
+  created_at: string;
+}
+
+/** A task handed to an agent by the orchestrator (work_queue) */
+export type WorkItem = {
+  id: string;
+  project_id: string;
+  task_id: string;
+  kind: WorkItemKind;
+  agent: string;
+  team: string | null;
+  status: WorkItemStatus;
+  priority: PriorityLevel;
+  reason: string | null;
+  details: Record<string, unknown>;
+  created_by: string;
+  claimed_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A task that broke an SLA rule, escalated up the hierarchy (escalations) */
+export type Escalation = {
+  id: string;
+  project_id: string;
+  task_id: string;
+  team: string | null;
+  level: EscalationLevel;
+  escalated_to: string[];
+  status: EscalationStatus;
+  task_status: TaskStatus;
+  priority: PriorityLevel;
+  sla_hours: number;
+  hours_in_status: number;
+  reason: string;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A task passed from one agent to another with its context (handoffs) */
+export type Handoff = {
+  id: string;
+  project_id: string;
+  task_id: string;
+  from_agent: string;
+  to_agent: string;
+  to_team: string | null;
+  status: HandoffStatus;
+  summary: string;
+  open_questions: string[];
+  deliverables: Deliverable[];
+  learning_ids: string[];
+  messages: HandoffMessage[];
+  response: string | null;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** An information request or answer on a handoff (handoffs.messages) */
+export type HandoffMessage = {
+  agent: string;
+  kind: 'info_request' | 'info_reply';
+  message: string;
+  at: string;
+}
+
+/** A direct or team channel message, or a mention from a task or meeting (messages) */
+export type Message = {
+  id: string;
+  project_id: string | null;
+  thread_id: string | null;
+  sender: string;
+  recipient: string | null;
+  channel: string | null;
+  body: string;
+  mentions: string[];
+  link_type: MessageLinkType | null;
+  link_id: string | null;
+  source: MessageSource;
+  created_at: string;
+}
+
+/** One agent's inbox entry for a message, with its read state (message_receipts) */
+export type MessageReceipt = {
+  id: string;
+  message_id: string;
+  agent: string;
+  reason: ReceiptReason;
+  read_at: string | null;
+  created_at: string;
+}
+
+/** A work session of an agent on a task; open while ended_at is null (time_entries) */
+export type TimeEntry = {
+  id: string;
+  project_id: string;
+  task_id: string;
+  agent: string;
+  team: string | null;
+  source: TimeEntrySource;
+  started_at: string;
+  ended_at: string | null;
+  hours: number | null;
+  note: string | null;
+  closed_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================
 // DATABASE SCHEMA TYPE
 // ============================================
@@ -192,43 +391,107 @@ export interface Database {
         Row: Project;
         Insert: Omit<Project, 'id' | 'created_at' | 'updated_at'> & { id?: string };
         Update: Partial<Omit<Project, 'id' | 'created_at'>>;
+        Relationships: [];
       };
       roadmaps: {
         Row: Roadmap;
         Insert: Omit<Roadmap, 'id' | 'created_at' | 'updated_at'> & { id?: string };
         Update: Partial<Omit<Roadmap, 'id' | 'created_at'>>;
+        Relationships: [];
       };
       tasks: {
         Row: Task;
         Insert: Omit<Task, 'id' | 'created_at' | 'updated_at'> & { id?: string };
         Update: Partial<Omit<Task, 'id' | 'created_at'>>;
+        Relationships: [];
       };
       learnings: {
         Row: Learning;
         Insert: Omit<Learning, 'id' | 'created_at' | 'search_vector'> & { id?: string };
         Update: Partial<Omit<Learning, 'id' | 'created_at' | 'search_vector'>>;
+        Relationships: [];
       };
       learning_embeddings: {
         Row: LearningEmbedding;
         Insert: Omit<LearningEmbedding, 'id' | 'synced_at'> & { id?: string };
         Update: Partial<Omit<LearningEmbedding, 'id'>>;
+        Relationships: [];
       };
       meetings: {
         Row: Meeting;
         Insert: Omit<Meeting, 'id' | 'created_at'> & { id?: string };
         Update: Partial<Omit<Meeting, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      meeting_turns: {
+        Row: MeetingTurn;
+        Insert: Omit<MeetingTurn, 'id' | 'created_at'> & { id?: string };
+        Update: Partial<Omit<MeetingTurn, 'id' | 'created_at'>>;
+        Relationships: [];
       };
       activity_log: {
         Row: ActivityLog;
         Insert: Omit<ActivityLog, 'id' | 'created_at'> & { id?: string };
         Update: never;
+        Relationships: [];
       };
       content_calendar: {
         Row: ContentCalendar;
         Insert: Omit<ContentCalendar, 'id' | 'created_at' | 'updated_at'> & { id?: string };
         Update: Partial<Omit<ContentCalendar, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      jobs: {
+        Row: Job;
+        Insert: Omit<Job, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+        Update: Partial<Omit<Job, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      task_status_history: {
+        Row: TaskStatusChange;
+        Insert: Omit<TaskStatusChange, 'id' | 'created_at'> & { id?: string };
+        Update: never;
+        Relationships: [];
+      };
+      work_queue: {
+        Row: WorkItem;
+        Insert: Omit<WorkItem, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+        Update: Partial<Omit<WorkItem, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      escalations: {
+        Row: Escalation;
+        Insert: Omit<Escalation, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+        Update: Partial<Omit<Escalation, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      handoffs: {
+        Row: Handoff;
+        Insert: Omit<Handoff, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+        Update: Partial<Omit<Handoff, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      messages: {
+        Row: Message;
+        Insert: Omit<Message, 'id' | 'created_at'> & { id?: string };
+        Update: Partial<Omit<Message, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      message_receipts: {
+        Row: MessageReceipt;
+        Insert: Omit<MessageReceipt, 'id' | 'created_at'> & { id?: string };
+        Update: Partial<Omit<MessageReceipt, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      time_entries: {
+        Row: TimeEntry;
+        Insert: Omit<TimeEntry, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+        Update: Partial<Omit<TimeEntry, 'id' | 'created_at'>>;
+        Relationships: [];
       };
     };
+    Views: Record<never, never>;
+    Functions: Record<never, never>;
   };
 }
 
@@ -270,62 +533,101 @@ export function handleError(error: unknown): never {
 }
 
 // ============================================
-// TYPED QUERY HELPERS
+// SUPABASE REPOSITORIES
 // ============================================
-export async function findProjectBySlug(slug: string): Promise<Project | null> {
-  const db = getSupabase();
-  const { data, error } = await db
-    .from('projects')
-    .select('*')
-    .eq('slug', slug)
-    .single();
-  
-  if (error && error.code !== 'PGRST116') {
-    handleError(error);
-  }
-  return data;
-}
+type AnyQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
 
-export async function findTasksByAgent(agentName: string): Promise<Task[]> {
-  const db = getSupabase();
-  const { data, error } = await db
-    .from('tasks')
-    .select('*')
-    .eq('assigned_agent', agentName.toLowerCase())
-    .in('status', ['todo', 'in_progress', 'review', 'blocked']);
-  
-  if (error) handleError(error);
-  return data ?? [];
+function applyFilter(query: AnyQuery, where: Record<string, unknown>): AnyQuery {
+  for (const [column, condition] of Object.entries(where)) {
+    if (condition === undefined) continue;
+    if (condition === null) {
+      query = query.is(column, null);
+      continue;
+    }
+    if (!isOperators(condition)) {
+      query = query.eq(column, condition);
+      continue;
+    }
+    
+    const ops = condition as Operators<unknown>;
+    if (ops.neq !== undefined) query = ops.neq === null ? query.not(column, 'is', null) : query.neq(column, ops.neq);
+    if (ops.in) query = query.in(column, [...ops.in]);
+    if (ops.gt !== undefined) query = query.gt(column, ops.gt);
+    if (ops.gte !== undefined) query = query.gte(column, ops.gte);
+    if (ops.lt !== undefined) query = query.lt(column, ops.lt);
+    if (ops.lte !== undefined) query = query.lte(column, ops.lte);
+    if (ops.contains) query = query.contains(column, ops.contains);
+    if (ops.overlaps) query = query.overlaps(column, ops.overlaps);
+  }
+  return query;
 }
 
-export async function findTasksByTeam(teamName: string): Promise<Task[]> {
-  const db = getSupabase();
-  const { data, error } = await db
-    .from('tasks')
-    .select('*')
-    .eq('assigned_team', teamName.toLowerCase())
-    .in('status', ['todo', 'in_progress', 'review', 'blocked']);
+function createSupabaseRepository<T extends TableName>(table: T): Repository<T> {
+  // The generic table name defeats supabase-js row inference; rows are typed by the repository instead
+  const from = () => (getSupabase() as unknown as SupabaseClient).from(table);
   
-  if (error) handleError(error);
-  return data ?? [];
+  return {
+    async get(id) {
+      const { data, error } = await from().select('*').eq('id', id).maybeSingle();
+      if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+      return data as Row<T> | null;
+    },
+    
+    async list(options = {}) {
+      let query = applyFilter(from().select('*'), (options.where ?? {}) as Record<string, unknown>);
+      if (options.search) {
+        query = query.textSearch(options.search.column, options.search.terms, { type: 'websearch', config: 'english' });
+      }
+      for (const order of options.orderBy ?? []) {
+        query = query.order(order.column, { ascending: order.ascending ?? true });
+      }
+      if (options.limit !== undefined) query = query.limit(options.limit);
+      
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to list ${table}: ${error.message}`);
+      return data as Row<T>[];
+    },
+    
+    async insert(row) {
+      const { data, error } = await from().insert(row as never).select().single();
+      if (error) throw new Error(`Failed to insert into ${table}: ${error.message}`);
+      return data as Row<T>;
+    },
+    
+    async update(id, patch) {
+      const { data, error } = await from().update(patch as never).eq('id', id).select().maybeSingle();
+      if (error) throw new Error(`Failed to update ${table}: ${error.message}`);
+      if (!data) throw new Error(`Not found in ${table}: ${id}`);
+      return data as Row<T>;
+    },
+    
+    async updateIf(id, where, patch) {
+      const query = applyFilter(from().update(patch as never).eq('id', id) as unknown as AnyQuery, where as Record<string, unknown>);
+      const { data, error } = await query.select().maybeSingle();
+      if (error) throw new Error(`Failed to update ${table}: ${error.message}`);
+      return data as Row<T> | null;
+    },
+    
+    async remove(id) {
+      const { error } = await from().delete().eq('id', id);
+      if (error) throw new Error(`Failed to delete from ${table}: ${error.message}`);
+    },
+  };
 }
 
-export async function logActivity(
-  agent: string,
-  action: string,
-  details: Record<string, unknown> = {},
-  options: { projectId?: string; team?: string; relatedId?: string; relatedType?: string } = {}
-): Promise<void> {
-  const db = getSupabase();
-  const { error } = await db.from('activity_log').insert({
-    agent,
-    action,
-    details,
-    project_id: options.projectId ?? null,
-    team: options.team ?? null,
-    related_id: options.relatedId ?? null,
-    related_type: options.relatedType ?? null,
-  });
+export function createSupabaseStorage(): Storage {
+  const repositories = new Map<TableName, Repository<TableName>>();
+  const table = <T extends TableName>(name: T): Repository<T> => {
+    if (!repositories.has(name)) repositories.set(name, createSupabaseRepository(name) as unknown as Repository<TableName>);
+    return repositories.get(name) as unknown as Repository<T>;
+  };
   
-  if (error) handleError(error);
+  return {
+    backend: 'supabase',
+    projects: table('projects'),
+    tasks: table('tasks'),
+    activity: table('activity_log'),
+    taskStatusHistory: table('task_status_history'),
+    table,
+  };
 }
\ No newline at end of file
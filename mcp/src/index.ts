@@ -5,527 +5,680 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 
 // Database client
-import { getSupabase, generateSlug, logActivity } from './db/supabase.js';
-import type { ProjectStatus, TaskStatus, PriorityLevel } from './db/supabase.js';
+import { createTask, findProjectById, findProjectBySlug, findTaskById, getStorage, logActivity } from './db/storage.js';
+import { generateSlug } from './db/supabase.js';
+import { assignTask } from './lib/assignment.js';
+import { escalationSummary } from './lib/escalations.js';
+import { deliverMentions } from './lib/messages.js';
+import { enforcePermissions, loadPolicy } from './lib/permissions.js';
+import { loadRegistry, resolveAssignee } from './lib/registry.js';
+import { transitionTask } from './lib/task-status.js';
+import { setActualHours } from './lib/time-tracking.js';
+import { applyTemplate, findTemplate, projectSettings, renderTemplate } from './lib/templates.js';
 
-// ============================================
-// MCP SERVER SETUP
-// ============================================
-const server = new McpServer({
-  name: 'claude-hyper-agents',
-  version: '1.0.0',
-});
+// Tool modules
+import { registerAgentTools } from './tools/agents.js';
+import { registerAiServiceTools } from './tools/ai-services.js';
+import { registerContentTools } from './tools/content.js';
+import { registerEscalationTools } from './tools/escalations.js';
+import { registerFileTools } from './tools/files.js';
+import { registerHandoffTools } from './tools/handoffs.js';
+import { registerJobTools } from './tools/jobs.js';
+import { registerLearningTools } from './tools/learnings.js';
+import { registerMeetingTools } from './tools/meetings.js';
+import { registerMessageTools } from './tools/messages.js';
+import { registerOrchestratorTools } from './tools/orchestrator.js';
+import { registerPermissionTools } from './tools/permissions.js';
+import { registerReportTools } from './tools/reports.js';
+import { registerRoadmapTools } from './tools/roadmaps.js';
+import { registerTaskTools } from './tools/tasks.js';
+import { registerTemplateTools } from './tools/templates.js';
+import { registerTimeTrackingTools } from './tools/time-tracking.js';
+
+// Resources & prompts
+import { registerCommandPrompts } from './resources/prompts.js';
+import { registerResources } from './resources/resources.js';
+
+// Transports & webhook listener
+import { startHttpTransport } from './transport/http.js';
+import { startCallbackServer } from './webhooks/callbacks.js';
+
+// Background workers
+import { startContentPublisher } from './workers/content-publisher.js';
+import { startEscalationWorker } from './workers/escalations.js';
+import { startLearningSyncWorker } from './workers/learning-sync.js';
+import { startOrchestrator } from './workers/orchestrator.js';
 
 // ============================================
-// PROJECT TOOLS
+// MCP SERVER SETUP
 // ============================================
-server.tool(
-  'ha_project_create',
-  'Create a new project',
-  {
-    name: z.string().describe('Project name'),
-    description: z.string().optional().describe('Project description'),
-    template: z.string().optional().describe('Project template: saas, landing-page, etc.'),
-    autonomous: z.boolean().optional().describe('Enable autonomous mode'),
-  },
-  async ({ name, description, template, autonomous }) => {
-    const db = getSupabase();
-    const slug = generateSlug(name);
-    
-    const { data, error } = await db
-      .from('projects')
-      .insert({
+/**
+ * Builds a server with every tool registered. stdio uses one; the HTTP
+ * transport creates one per session because a server holds one transport.
+ */
+function createServer(): McpServer {
+  const server = new McpServer(
+    { name: 'claude-hyper-agents', version: '1.0.0' },
+    // Logging carries live change notifications on HTTP sessions
+    { capabilities: { logging: {} } }
+  );
+  
+  // Every tool registered below is checked against the permissions policy
+  enforcePermissions(server);
+  
+  // ============================================
+  // PROJECT TOOLS
+  // ============================================
+  server.tool(
+    'ha_project_create',
+    'Create a new project',
+    {
+      name: z.string().describe('Project name'),
+      description: z.string().optional().describe('Project description'),
+      template: z.string().optional().describe('Project template: saas, landing-page, etc. (see ha_template_list)'),
+      tech_stack: z.record(z.string()).optional().describe('Tech stack, e.g. { "frontend": "nextjs" }; overrides template defaults'),
+      variables: z.record(z.string()).optional().describe('Values for the template variables'),
+      start_date: z.string().optional().describe('ISO date (YYYY-MM-DD) template milestones are scheduled from'),
+      autonomous: z.boolean().optional().describe('Enable autonomous mode (default: the template setting, else false)'),
+      auto_complete_parents: z.boolean().optional().describe('When all subtasks of a parent are done, move the parent to review; the review gate still applies, so a reviewer completes it with ha_task_update (default: the template setting, else false)'),
+      agent: z.string().optional().describe('Agent creating the project'),
+    },
+    async ({ name, description, template, tech_stack, variables, start_date, autonomous, auto_complete_parents, agent }) => {
+      const slug = generateSlug(name);
+      
+      // Rendered before anything is written so bad variables fail cleanly
+      const blueprint = template ? await findTemplate(template) : null;
+      if (template && !blueprint) throw new Error(`Template not found: ${template}`);
+      const plan = blueprint
+        ? await renderTemplate(blueprint, { project: { name, slug, description: description ?? null }, tech_stack, variables, start_date })
+        : null;
+      
+      const data = await getStorage().projects.insert({
         name,
         slug,
         description: description ?? null,
         template: template ?? null,
         status: 'planning',
-        settings: { autonomous: autonomous ?? false },
-        tech_stack: {},
+        settings: projectSettings(plan, { autonomous, auto_complete_parents }),
+        tech_stack: plan?.tech_stack ?? tech_stack ?? {},
         metadata: {},
-      })
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to create project: ${error.message}`);
-    
-    await logActivity('system', 'project_created', { name, template }, { projectId: data.id });
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_project_get',
-  'Get a project by ID or slug',
-  {
-    identifier: z.string().describe('Project ID (UUID) or slug'),
-  },
-  async ({ identifier }) => {
-    const db = getSupabase();
-    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(identifier);
-    
-    const query = db.from('projects').select('*');
-    const { data, error } = isUuid
-      ? await query.eq('id', identifier).single()
-      : await query.eq('slug', identifier).single();
-    
-    if (error) throw new Error(`Project not found: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_project_list',
-  'List all projects',
-  {
-    status: z.enum(['planning', 'active', 'paused', 'completed', 'archived']).optional(),
-    limit: z.number().optional().describe('Max results (default 20)'),
-  },
-  async ({ status, limit }) => {
-    const db = getSupabase();
-    let query = db.from('projects').select('*').order('updated_at', { ascending: false });
-    
-    if (status) query = query.eq('status', status);
-    query = query.limit(limit ?? 20);
-    
-    const { data, error } = await query;
-    if (error) throw new Error(`Failed to list projects: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_project_update',
-  'Update a project',
-  {
-    project_id: z.string().describe('Project ID'),
-    name: z.string().optional(),
-    description: z.string().optional(),
-    status: z.enum(['planning', 'active', 'paused', 'completed', 'archived']).optional(),
-    settings: z.record(z.unknown()).optional(),
-  },
-  async ({ project_id, ...updates }) => {
-    const db = getSupabase();
-    const updateData: Record<string, unknown> = {};
-    
-    if (updates.name) {
-      updateData.name = updates.name;
-      updateData.slug = generateSlug(updates.name);
+      });
+      
+      await logActivity(agent ?? 'system', 'project_created', { name, template }, { projectId: data.id });
+      
+      const scaffold = plan ? await applyTemplate(data, plan, agent ?? 'system') : null;
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(scaffold ? { ...data, scaffold } : data, null, 2) }],
+      };
     }
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.status) updateData.status = updates.status;
-    if (updates.settings) updateData.settings = updates.settings;
-    
-    const { data, error } = await db
-      .from('projects')
-      .update(updateData)
-      .eq('id', project_id)
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to update project: ${error.message}`);
-    
-    await logActivity('system', 'project_updated', updates, { projectId: project_id });
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-// ============================================
-// TASK TOOLS
-// ============================================
-server.tool(
-  'ha_task_create',
-  'Create a new task',
-  {
-    project_id: z.string().describe('Project ID'),
-    title: z.string().describe('Task title'),
-    description: z.string().optional(),
-    team: z.string().optional().describe('Assigned team: devforge, pixelcraft, etc.'),
-    agent: z.string().optional().describe('Assigned agent name'),
-    priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
-    parent_id: z.string().optional().describe('Parent task ID for subtasks'),
-    estimated_hours: z.number().optional(),
-    tags: z.array(z.string()).optional(),
-  },
-  async ({ project_id, title, description, team, agent, priority, parent_id, estimated_hours, tags }) => {
-    const db = getSupabase();
-    
-    const { data, error } = await db
-      .from('tasks')
-      .insert({
+  );
+  
+  server.tool(
+    'ha_project_get',
+    'Get a project by ID or slug',
+    {
+      identifier: z.string().describe('Project ID (UUID) or slug'),
+    },
+    async ({ identifier }) => {
+      const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(identifier);
+      
+      const data = isUuid
+        ? await getStorage().projects.get(identifier)
+        : await findProjectBySlug(identifier);
+      
+      if (!data) throw new Error(`Project not found: ${identifier}`);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_project_list',
+    'List all projects',
+    {
+      status: z.enum(['planning', 'active', 'paused', 'completed', 'archived']).optional(),
+      limit: z.number().optional().describe('Max results (default 20)'),
+    },
+    async ({ status, limit }) => {
+      const data = await getStorage().projects.list({
+        where: { status },
+        orderBy: [{ column: 'updated_at', ascending: false }],
+        limit: limit ?? 20,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_project_update',
+    'Update a project',
+    {
+      project_id: z.string().describe('Project ID'),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      status: z.enum(['planning', 'active', 'paused', 'completed', 'archived']).optional(),
+      settings: z.record(z.unknown()).optional(),
+      agent: z.string().optional().describe('Agent making the change'),
+    },
+    async ({ project_id, agent, ...updates }) => {
+      const updateData: Record<string, unknown> = {};
+      
+      if (updates.name) {
+        updateData.name = updates.name;
+        updateData.slug = generateSlug(updates.name);
+      }
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.status) updateData.status = updates.status;
+      if (updates.settings) updateData.settings = updates.settings;
+      
+      const data = await getStorage().projects.update(project_id, updateData);
+      
+      await logActivity(agent ?? 'system', 'project_updated', updates, { projectId: project_id });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  // ============================================
+  // TASK TOOLS
+  // ============================================
+  server.tool(
+    'ha_task_create',
+    'Create a new task',
+    {
+      project_id: z.string().describe('Project ID'),
+      title: z.string().describe('Task title'),
+      description: z.string().optional(),
+      team: z.string().optional().describe('Assigned team: devforge, pixelcraft, etc.'),
+      agent: z.string().optional().describe('Assigned agent name'),
+      priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+      parent_id: z.string().optional().describe('Parent task ID for subtasks; the parent cannot reach done while a subtask is open'),
+      roadmap_id: z.string().optional().describe('Roadmap the task belongs to'),
+      milestone_id: z.string().optional().describe('Milestone on that roadmap'),
+      estimated_hours: z.number().optional(),
+      tags: z.array(z.string()).optional(),
+      created_by: z.string().optional().describe('Agent creating the task'),
+    },
+    async ({ project_id, title, description, team, agent, priority, parent_id, roadmap_id, milestone_id, estimated_hours, tags, created_by }) => {
+      const assignee = await resolveAssignee({ team, agent });
+      
+      if (milestone_id && !roadmap_id) throw new Error('milestone_id requires roadmap_id');
+      if (roadmap_id) {
+        const roadmap = await getStorage().table('roadmaps').get(roadmap_id);
+        if (!roadmap) throw new Error(`Roadmap not found: ${roadmap_id}`);
+        if (roadmap.project_id !== project_id) {
+          throw new Error(`Roadmap "${roadmap.name}" belongs to another project`);
+        }
+        if (milestone_id && !roadmap.milestones.some((m) => m.id === milestone_id)) {
+          throw new Error(`Milestone ${milestone_id} not found on roadmap ${roadmap_id}`);
+        }
+      }
+      
+      const data = await createTask({
         project_id,
         title,
         description: description ?? null,
-        assigned_team: team?.toLowerCase() ?? null,
-        assigned_agent: agent?.toLowerCase() ?? null,
+        assigned_team: assignee.team,
+        assigned_agent: assignee.agent,
         priority: priority ?? 'medium',
         parent_id: parent_id ?? null,
         estimated_hours: estimated_hours ?? null,
         tags: tags ?? [],
-        status: 'backlog',
-        roadmap_id: null,
-        blocked_by: null,
-        blocker_reason: null,
-        deliverable_path: null,
-        deliverables: [],
-        metadata: {},
-        created_by: agent ?? 'system',
-        updated_by: null,
-        actual_hours: null,
-        due_date: null,
-        started_at: null,
-        completed_at: null,
-      })
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to create task: ${error.message}`);
-    
-    await logActivity(agent ?? 'system', 'task_created', { title, team }, {
-      projectId: project_id,
-      team,
-      relatedId: data.id,
-      relatedType: 'task',
-    });
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_list',
-  'List tasks with filters',
-  {
-    project_id: z.string().optional(),
-    status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']).optional(),
-    team: z.string().optional(),
-    agent: z.string().optional(),
-    priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
-    limit: z.number().optional(),
-  },
-  async ({ project_id, status, team, agent, priority, limit }) => {
-    const db = getSupabase();
-    let query = db.from('tasks').select('*').order('created_at', { ascending: false });
-    
-    if (project_id) query = query.eq('project_id', project_id);
-    if (status) query = query.eq('status', status);
-    if (team) query = query.eq('assigned_team', team.toLowerCase());
-    if (agent) query = query.eq('assigned_agent', agent.toLowerCase());
-    if (priority) query = query.eq('priority', priority);
-    query = query.limit(limit ?? 50);
-    
-    const { data, error } = await query;
-    if (error) throw new Error(`Failed to list tasks: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_update',
-  'Update a task',
-  {
-    task_id: z.string().describe('Task ID'),
-    title: z.string().optional(),
-    description: z.string().optional(),
-    status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']).optional(),
-    priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
-    team: z.string().optional(),
-    agent: z.string().optional(),
-    estimated_hours: z.number().optional(),
-    actual_hours: z.number().optional(),
-    updated_by: z.string().optional(),
-  },
-  async ({ task_id, updated_by, ...updates }) => {
-    const db = getSupabase();
-    const updateData: Record<string, unknown> = { updated_by: updated_by ?? 'system' };
-    
-    if (updates.title) updateData.title = updates.title;
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.status) {
-      updateData.status = updates.status;
-      if (updates.status === 'in_progress') updateData.started_at = new Date().toISOString();
-      if (updates.status === 'done') updateData.completed_at = new Date().toISOString();
-    }
-    if (updates.priority) updateData.priority = updates.priority;
-    if (updates.team) updateData.assigned_team = updates.team.toLowerCase();
-    if (updates.agent) updateData.assigned_agent = updates.agent.toLowerCase();
-    if (updates.estimated_hours !== undefined) updateData.estimated_hours = updates.estimated_hours;
-    if (updates.actual_hours !== undefined) updateData.actual_hours = updates.actual_hours;
-    
-    const { data, error } = await db
-      .from('tasks')
-      .update(updateData)
-      .eq('id', task_id)
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to update task: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_assign',
-  'Assign a task to a team/agent',
-  {
-    task_id: z.string(),
-    team: z.string().describe('Team name: devforge, pixelcraft, etc.'),
-    agent: z.string().optional().describe('Agent name'),
-  },
-  async ({ task_id, team, agent }) => {
-    const db = getSupabase();
-    
-    const { data, error } = await db
-      .from('tasks')
-      .update({
-        assigned_team: team.toLowerCase(),
-        assigned_agent: agent?.toLowerCase() ?? null,
-        status: 'todo',
-        updated_by: agent ?? 'system',
-      })
-      .eq('id', task_id)
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to assign task: ${error.message}`);
-    
-    await logActivity(agent ?? 'system', 'task_assigned', { team, agent }, {
-      projectId: data.project_id,
-      team,
-      relatedId: task_id,
-      relatedType: 'task',
-    });
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_status',
-  'Update task status',
-  {
-    task_id: z.string(),
-    status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']),
-    agent: z.string().optional().describe('Agent making the change'),
-    notes: z.string().optional(),
-  },
-  async ({ task_id, status, agent, notes }) => {
-    const db = getSupabase();
-    const updateData: Record<string, unknown> = {
-      status,
-      updated_by: agent ?? 'system',
-    };
-    
-    if (status === 'in_progress') updateData.started_at = new Date().toISOString();
-    if (status === 'done') updateData.completed_at = new Date().toISOString();
-    if (status === 'blocked' && notes) updateData.blocker_reason = notes;
-    if (status !== 'blocked') updateData.blocker_reason = null;
-    
-    const { data, error } = await db
-      .from('tasks')
-      .update(updateData)
-      .eq('id', task_id)
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to update status: ${error.message}`);
-    
-    await logActivity(agent ?? 'system', `task_${status}`, { notes }, {
-      projectId: data.project_id,
-      team: data.assigned_team ?? undefined,
-      relatedId: task_id,
-      relatedType: 'task',
-    });
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_my_tasks',
-  'Get tasks assigned to a specific agent',
-  {
-    agent: z.string().describe('Agent name'),
-    include_done: z.boolean().optional().describe('Include completed tasks'),
-  },
-  async ({ agent, include_done }) => {
-    const db = getSupabase();
-    let query = db
-      .from('tasks')
-      .select('*')
-      .eq('assigned_agent', agent.toLowerCase())
-      .order('priority')
-      .order('created_at', { ascending: false });
-    
-    if (!include_done) {
-      query = query.in('status', ['backlog', 'todo', 'in_progress', 'review', 'blocked']);
+        roadmap_id: roadmap_id ?? null,
+        metadata: milestone_id ? { milestone_id } : {},
+        created_by: created_by ?? 'system',
+      });
+      
+      await logActivity(created_by ?? 'system', 'task_created', { title, team }, {
+        projectId: project_id,
+        team,
+        relatedId: data.id,
+        relatedType: 'task',
+      });
+      await deliverMentions({
+        text: data.description,
+        sender: created_by ?? 'system',
+        source: 'task',
+        link: { type: 'task', id: data.id },
+        projectId: project_id,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
     }
-    
-    const { data, error } = await query;
-    if (error) throw new Error(`Failed to get tasks: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-server.tool(
-  'ha_task_team_tasks',
-  'Get tasks for a team',
-  {
-    team: z.string().describe('Team name: devforge, pixelcraft, etc.'),
-    include_done: z.boolean().optional(),
-  },
-  async ({ team, include_done }) => {
-    const db = getSupabase();
-    let query = db
-      .from('tasks')
-      .select('*')
-      .eq('assigned_team', team.toLowerCase())
-      .order('priority')
-      .order('created_at', { ascending: false });
-    
-    if (!include_done) {
-      query = query.in('status', ['backlog', 'todo', 'in_progress', 'review', 'blocked']);
+  );
+  
+  server.tool(
+    'ha_task_list',
+    'List tasks with filters',
+    {
+      project_id: z.string().optional(),
+      status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']).optional(),
+      team: z.string().optional(),
+      agent: z.string().optional(),
+      priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+      limit: z.number().optional(),
+    },
+    async ({ project_id, status, team, agent, priority, limit }) => {
+      const data = await getStorage().tasks.list({
+        where: {
+          project_id,
+          status,
+          assigned_team: team?.toLowerCase(),
+          assigned_agent: agent?.toLowerCase(),
+          priority,
+        },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: limit ?? 50,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
     }
-    
-    const { data, error } = await query;
-    if (error) throw new Error(`Failed to get team tasks: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-// ============================================
-// ACTIVITY TOOLS
-// ============================================
-server.tool(
-  'ha_activity_log',
-  'Log an activity',
-  {
-    agent: z.string().describe('Agent name'),
-    action: z.string().describe('Action type'),
-    details: z.record(z.unknown()).optional(),
-    project_id: z.string().optional(),
-    team: z.string().optional(),
-  },
-  async ({ agent, action, details, project_id, team }) => {
-    await logActivity(agent, action, details ?? {}, { projectId: project_id, team });
-    return {
-      content: [{ type: 'text', text: 'Activity logged successfully' }],
-    };
-  }
-);
-
-server.tool(
-  'ha_activity_get',
-  'Get activity log',
-  {
-    project_id: z.string().optional(),
-    agent: z.string().optional(),
-    team: z.string().optional(),
-    action: z.string().optional(),
-    limit: z.number().optional(),
-  },
-  async ({ project_id, agent, team, action, limit }) => {
-    const db = getSupabase();
-    let query = db.from('activity_log').select('*').order('created_at', { ascending: false });
-    
-    if (project_id) query = query.eq('project_id', project_id);
-    if (agent) query = query.eq('agent', agent);
-    if (team) query = query.eq('team', team);
-    if (action) query = query.eq('action', action);
-    query = query.limit(limit ?? 50);
-    
-    const { data, error } = await query;
-    if (error) throw new Error(`Failed to get activity: ${error.message}`);
-    
-    return {
-      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
-    };
-  }
-);
-
-// ============================================
-// STATUS TOOLS
-// ============================================
-server.tool(
-  'ha_status_project',
-  'Get project dashboard status',
-  {
-    project_id: z.string(),
-  },
-  async ({ project_id }) => {
-    const db = getSupabase();
-    
-    const [projectRes, tasksRes, activityRes] = await Promise.all([
-      db.from('projects').select('*').eq('id', project_id).single(),
-      db.from('tasks').select('status, priority, assigned_team').eq('project_id', project_id),
-      db.from('activity_log').select('*').eq('project_id', project_id).order('created_at', { ascending: false }).limit(10),
-    ]);
-    
-    if (projectRes.error) throw new Error(`Project not found: ${projectRes.error.message}`);
-    
-    const tasks = tasksRes.data ?? [];
-    const statusCounts = tasks.reduce((acc, t) => {
-      acc[t.status] = (acc[t.status] ?? 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const teamCounts = tasks.reduce((acc, t) => {
-      if (t.assigned_team) {
-        acc[t.assigned_team] = (acc[t.assigned_team] ?? 0) + 1;
+  );
+  
+  server.tool(
+    'ha_task_update',
+    'Update a task',
+    {
+      task_id: z.string().describe('Task ID'),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']).optional(),
+      priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+      team: z.string().optional(),
+      agent: z.string().optional(),
+      estimated_hours: z.number().optional(),
+      actual_hours: z.number().optional().describe('Total hours worked; the part not covered by ha_time_* sessions is recorded as a manual entry'),
+      updated_by: z.string().optional(),
+      reason: z.string().optional().describe('Required when moving to blocked'),
+      reviewer: z.string().optional().describe('Required for review → done; not the assignee'),
+    },
+    async ({ task_id, updated_by, reason, reviewer, ...updates }) => {
+      const updateData: Record<string, unknown> = { updated_by: updated_by ?? 'system' };
+      
+      if (updates.title) updateData.title = updates.title;
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.priority) updateData.priority = updates.priority;
+      if (updates.team || updates.agent) {
+        const assignee = await resolveAssignee(updates);
+        if (assignee.team) updateData.assigned_team = assignee.team;
+        if (assignee.agent) updateData.assigned_agent = assignee.agent;
       }
-      return acc;
-    }, {} as Record<string, number>);
-    
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          project: projectRes.data,
-          tasks: { total: tasks.length, by_status: statusCounts, by_team: teamCounts },
-          recent_activity: activityRes.data ?? [],
-        }, null, 2),
-      }],
-    };
-  }
-);
+      if (updates.estimated_hours !== undefined) updateData.estimated_hours = updates.estimated_hours;
+      if (updates.actual_hours !== undefined) await setActualHours(task_id, updates.actual_hours, updated_by ?? 'system');
+      
+      const task = await findTaskById(task_id);
+      const data = updates.status && updates.status !== task.status
+        ? await transitionTask(task, updates.status, {
+          agent: updated_by ?? 'system',
+          reason,
+          reviewer,
+          extra: updateData,
+        })
+        : await getStorage().tasks.update(task_id, updateData);
+      
+      if (updates.description !== undefined) {
+        await deliverMentions({
+          text: data.description,
+          previous: task.description,
+          sender: updated_by ?? 'system',
+          source: 'task',
+          link: { type: 'task', id: task_id },
+          projectId: data.project_id,
+        });
+      }
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_assign',
+    'Assign a task to a team/agent. To pass started work to another agent with its context, use ha_handoff_create',
+    {
+      task_id: z.string(),
+      team: z.string().describe('Team name: devforge, pixelcraft, etc.'),
+      agent: z.string().optional().describe('Agent name'),
+      assigned_by: z.string().optional().describe('Agent making the assignment'),
+    },
+    async ({ task_id, team, agent, assigned_by }) => {
+      const assignee = await resolveAssignee({ team, agent });
+      const task = await findTaskById(task_id);
+      const data = await assignTask(task, assignee, assigned_by ?? 'system');
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_status',
+    'Move a task to another status (backlog → todo → in_progress → review → done)',
+    {
+      task_id: z.string(),
+      status: z.enum(['backlog', 'todo', 'in_progress', 'review', 'blocked', 'done']),
+      agent: z.string().optional().describe('Agent making the change'),
+      notes: z.string().optional().describe('Reason; required when moving to blocked'),
+      reviewer: z.string().optional().describe('Required for review → done; not the assignee'),
+    },
+    async ({ task_id, status, agent, notes, reviewer }) => {
+      const task = await findTaskById(task_id);
+      const data = await transitionTask(task, status, {
+        agent: agent ?? 'system',
+        reason: notes,
+        reviewer,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_my_tasks',
+    'Get tasks assigned to a specific agent',
+    {
+      agent: z.string().describe('Agent name'),
+      include_done: z.boolean().optional().describe('Include completed tasks'),
+    },
+    async ({ agent, include_done }) => {
+      const data = await getStorage().tasks.list({
+        where: {
+          assigned_agent: agent.toLowerCase(),
+          status: include_done ? undefined : { in: ['backlog', 'todo', 'in_progress', 'review', 'blocked'] },
+        },
+        orderBy: [{ column: 'priority' }, { column: 'created_at', ascending: false }],
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_team_tasks',
+    'Get tasks for a team',
+    {
+      team: z.string().describe('Team name: devforge, pixelcraft, etc.'),
+      include_done: z.boolean().optional(),
+    },
+    async ({ team, include_done }) => {
+      const data = await getStorage().tasks.list({
+        where: {
+          assigned_team: team.toLowerCase(),
+          status: include_done ? undefined : { in: ['backlog', 'todo', 'in_progress', 'review', 'blocked'] },
+        },
+        orderBy: [{ column: 'priority' }, { column: 'created_at', ascending: false }],
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  registerTaskTools(server);
+  
+  // ============================================
+  // ACTIVITY TOOLS
+  // ============================================
+  server.tool(
+    'ha_activity_log',
+    'Log an activity',
+    {
+      agent: z.string().describe('Agent name'),
+      action: z.string().describe('Action type'),
+      details: z.record(z.unknown()).optional(),
+      project_id: z.string().optional(),
+      team: z.string().optional(),
+    },
+    async ({ agent, action, details, project_id, team }) => {
+      await logActivity(agent, action, details ?? {}, { projectId: project_id, team });
+      return {
+        content: [{ type: 'text', text: 'Activity logged successfully' }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_activity_get',
+    'Get activity log',
+    {
+      project_id: z.string().optional(),
+      agent: z.string().optional(),
+      team: z.string().optional(),
+      action: z.string().optional(),
+      limit: z.number().optional(),
+    },
+    async ({ project_id, agent, team, action, limit }) => {
+      const data = await getStorage().activity.list({
+        where: { project_id, agent, team, action },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: limit ?? 50,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  // ============================================
+  // STATUS TOOLS
+  // ============================================
+  server.tool(
+    'ha_status_project',
+    'Get project dashboard status',
+    {
+      project_id: z.string(),
+    },
+    async ({ project_id }) => {
+      const storage = getStorage();
+      
+      const [project, tasks, activity, escalations] = await Promise.all([
+        findProjectById(project_id),
+        storage.tasks.list({ where: { project_id } }),
+        storage.activity.list({ where: { project_id }, orderBy: [{ column: 'created_at', ascending: false }], limit: 10 }),
+        escalationSummary(project_id),
+      ]);
+      
+      const statusCounts = tasks.reduce((acc, t) => {
+        acc[t.status] = (acc[t.status] ?? 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+      
+      const teamCounts = tasks.reduce((acc, t) => {
+        if (t.assigned_team) {
+          acc[t.assigned_team] = (acc[t.assigned_team] ?? 0) + 1;
+        }
+        return acc;
+      }, {} as Record<string, number>);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            project,
+            tasks: { total: tasks.length, by_status: statusCounts, by_team: teamCounts },
+            escalations,
+            recent_activity: activity,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+  
+  // ============================================
+  // LEARNING TOOLS
+  // ============================================
+  registerLearningTools(server);
+  
+  // ============================================
+  // MEETING TOOLS
+  // ============================================
+  registerMeetingTools(server);
+  
+  // ============================================
+  // ROADMAP TOOLS
+  // ============================================
+  registerRoadmapTools(server);
+  
+  // ============================================
+  // CONTENT TOOLS
+  // ============================================
+  registerContentTools(server);
+  
+  // ============================================
+  // AI SERVICE TOOLS
+  // ============================================
+  registerAiServiceTools(server);
+  
+  // ============================================
+  // JOB TOOLS
+  // ============================================
+  registerJobTools(server);
+  
+  // ============================================
+  // AGENT & TEAM TOOLS
+  // ============================================
+  registerAgentTools(server);
+  
+  // ============================================
+  // PERMISSION TOOLS
+  // ============================================
+  registerPermissionTools(server);
+  
+  // ============================================
+  // WORKSPACE FILE TOOLS
+  // ============================================
+  registerFileTools(server);
+  
+  // ============================================
+  // PROJECT TEMPLATE TOOLS
+  // ============================================
+  registerTemplateTools(server);
+  
+  // ============================================
+  // ORCHESTRATOR TOOLS
+  // ============================================
+  registerOrchestratorTools(server);
+  
+  // ============================================
+  // ESCALATION TOOLS
+  // ============================================
+  registerEscalationTools(server);
+  
+  // ============================================
+  // HANDOFF TOOLS
+  // ============================================
+  registerHandoffTools(server);
+  
+  // ============================================
+  // MESSAGING TOOLS
+  // ============================================
+  registerMessageTools(server);
+  
+  // ============================================
+  // TIME TRACKING TOOLS
+  // ============================================
+  registerTimeTrackingTools(server);
+  
+  // ============================================
+  // REPORTING TOOLS
+  // ============================================
+  registerReportTools(server);
+  
+  // ============================================
+  // RESOURCES & PROMPTS
+  // ============================================
+  registerResources(server);
+  registerCommandPrompts(server);
+  
+  return server;
+}
 
 // ============================================
 // START SERVER
 // ============================================
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Fail fast on an invalid policy instead of on the first tool call
+  await loadPolicy();
+  
+  const registry = await loadRegistry();
+  console.error(`Loaded ${registry.agents.length} agents in ${registry.teams.length} teams from ${registry.dir}`);
+  
+  const stops: Array<() => unknown> = [];
+  
+  if (process.env.HA_TRANSPORT === 'http') {
+    const http = await startHttpTransport(createServer);
+    stops.push(http.close);
+  } else {
+    const server = createServer();
+    await server.connect(new StdioServerTransport());
+    stops.push(() => server.close());
+  }
   console.error('Claude Hyper Agents MCP Server running');
+  
+  const callbackPort = Number(process.env.CALLBACK_PORT ?? 0);
+  if (callbackPort > 0) {
+    const callbacks = await startCallbackServer(callbackPort, process.env.CALLBACK_HOST || undefined);
+    stops.push(() => new Promise((resolve) => callbacks.close(resolve)));
+  }
+  
+  const learningSyncInterval = Number(process.env.LEARNING_SYNC_INTERVAL_MS ?? 0);
+  if (learningSyncInterval > 0) {
+    stops.push(startLearningSyncWorker(learningSyncInterval));
+  }
+  
+  const publisherInterval = Number(process.env.CONTENT_PUBLISHER_INTERVAL_MS ?? 0);
+  if (publisherInterval > 0) {
+    stops.push(startContentPublisher(publisherInterval));
+  }
+  
+  const orchestratorInterval = Number(process.env.ORCHESTRATOR_INTERVAL_MS ?? 0);
+  if (orchestratorInterval > 0) {
+    stops.push(startOrchestrator(orchestratorInterval));
+  }
+  
+  const escalationInterval = Number(process.env.ESCALATION_INTERVAL_MS ?? 0);
+  if (escalationInterval > 0) {
+    stops.push(startEscalationWorker(escalationInterval));
+  }
+  
+  // Graceful shutdown: workers and listeners stop, open sessions are closed
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    console.error(`Received ${signal}, shutting down`);
+    
+    const timeout = setTimeout(() => {
+      console.error('Shutdown timed out');
+      process.exit(1);
+    }, 10_000);
+    timeout.unref();
+    
+    await Promise.allSettled(stops.reverse().map(async (stop) => stop()));
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
@@ -0,0 +1,231 @@
+import { getStorage, logActivity } from '../db/storage.js';
+import type { PriorityLevel, Task } from '../db/supabase.js';
+import { getRegistry } from './registry.js';
+import type { AgentProfile, Seniority } from './registry.js';
+import { getSkillCatalog, skillsForTag } from './skills.js';
+import type { SkillEntry } from './skills.js';
+import { transitionTask } from './task-status.js';
+import { emptyLoad, getOpenTaskLoad } from './workload.js';
+import type { AgentLoad } from './workload.js';
+
+export const PRIORITY_WEIGHT: Record<PriorityLevel, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+const SENIORITY_RANK: Record<Seniority, number> = { junior: 0, mid: 1, senior: 2, lead: 2, executive: 3 };
+
+/** Seniority rank a task of this priority ideally goes to */
+const DESIRED_RANK: Record<PriorityLevel, number> = { critical: 2, high: 1.5, medium: 1, low: 0.5 };
+
+const WEIGHTS = { skills: 0.35, availability: 0.35, seniority: 0.15, speed: 0.15 };
+
+/**
+ * Catalog skills implied by a role-name part, for roster files without an
+ * explicit `skills` list.
+ */
+const ROLE_SKILLS: Record<string, string[]> = {
+  frontend: ['nextjs', 'heroui', 'shadcn', 'motion', 'ui-design'],
+  backend: ['supabase', 'qdrant', 'debugging'],
+  ai: ['ai-generation', 'qdrant', 'image-prompts'],
+  devops: ['coolify', 'git-workflow', 'security-review'],
+  qa: ['tdd', 'code-review', 'debugging'],
+  tech: ['code-review', 'code-audit', 'security-review', 'documentation'],
+  dev: ['code-review', 'debugging', 'tdd', 'git-workflow', 'nextjs', 'supabase'],
+  ux: ['ux-research'],
+  ui: ['ui-design', 'design-trends'],
+  brand: ['branding'],
+  motion: ['motion-design', 'motion'],
+  design: ['design-trends', 'project-management'],
+  image: ['image-prompts', 'ai-generation'],
+  video: ['video-prompts', 'ai-generation'],
+  prompt: ['image-prompts', 'video-prompts', 'ai-generation'],
+  creative: ['ai-generation', 'storytelling', 'project-management'],
+  copywriter: ['copywriting', 'landing-pages'],
+  seo: ['seo'],
+  editor: ['copywriting', 'storytelling'],
+  blog: ['copywriting', 'seo', 'storytelling'],
+  technical: ['technical-writing', 'documentation'],
+  content: ['content-planning', 'copywriting', 'project-management'],
+  email: ['email-marketing'],
+  growth: ['landing-pages', 'email-marketing'],
+  ads: ['landing-pages'],
+  marketing: ['content-planning', 'landing-pages', 'project-management'],
+  social: ['social-media', 'content-planning', 'project-management'],
+  tiktok: ['social-media', 'video-prompts'],
+  instagram: ['social-media', 'image-prompts'],
+  linkedin: ['social-media', 'copywriting'],
+  youtube: ['social-media', 'video-prompts'],
+  twitter: ['social-media', 'copywriting'],
+  community: ['social-media'],
+  planner: ['content-planning'],
+};
+
+export type AssignmentContext = {
+  team: string;
+  members: AgentProfile[];
+  load: Map<string, AgentLoad>;
+  cycleHours: Map<string, number>;
+  teamCycleHours: number | null;
+  catalog: SkillEntry[];
+};
+
+export type AssignmentCandidate = {
+  agent: string;
+  role: string;
+  seniority: Seniority;
+  score: number;
+  breakdown: { skills: number; availability: number; seniority: number; speed: number };
+  matched_tags: string[];
+  open_tasks: number;
+  weighted_load: number;
+  avg_cycle_hours: number | null;
+  explanation: string;
+};
+
+// ============================================
+// CONTEXT
+// ============================================
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/** Average started → completed hours per agent over their recent done tasks */
+async function getCycleHours(agents: string[]): Promise<Map<string, number>> {
+  const data = await getStorage().tasks.list({
+    where: { status: 'done', assigned_agent: { in: agents }, started_at: { neq: null }, completed_at: { neq: null } },
+    orderBy: [{ column: 'completed_at', ascending: false }],
+    limit: 500,
+  });
+  
+  const samples = new Map<string, number[]>();
+  for (const task of data) {
+    if (!task.assigned_agent || !task.started_at || !task.completed_at) continue;
+    const hours = (new Date(task.completed_at).getTime() - new Date(task.started_at).getTime()) / 3_600_000;
+    if (hours < 0) continue;
+    samples.set(task.assigned_agent, [...(samples.get(task.assigned_agent) ?? []), hours]);
+  }
+  
+  return new Map([...samples].map(([agent, hours]) => [agent, hours.reduce((a, b) => a + b, 0) / hours.length]));
+}
+
+export async function loadAssignmentContext(team: string): Promise<AssignmentContext> {
+  const registry = await getRegistry();
+  const everyone = registry.agents.filter((a) => a.team === team);
+  // Leadership only picks up work inside its own team
+  const members = everyone.some((a) => a.seniority !== 'executive')
+    ? everyone.filter((a) => a.seniority !== 'executive')
+    : everyone;
+  if (members.length === 0) throw new Error(`Team ${team} has no agents in the roster`);
+  
+  const [{ agents: load }, cycleHours, catalog] = await Promise.all([
+    getOpenTaskLoad(),
+    getCycleHours(members.map((a) => a.name)),
+    getSkillCatalog(),
+  ]);
+  
+  return { team, members, load, cycleHours, teamCycleHours: median([...cycleHours.values()]), catalog };
+}
+
+// ============================================
+// SCORING
+// ============================================
+function agentSkills(agent: AgentProfile): Set<string> {
+  const parts = agent.role.split('-');
+  return new Set([...agent.skills, ...parts, ...parts.flatMap((p) => ROLE_SKILLS[p] ?? [])]);
+}
+
+function weightedLoad(load: AgentLoad): number {
+  return (Object.entries(load.by_priority) as Array<[PriorityLevel, number]>)
+    .reduce((sum, [priority, count]) => sum + PRIORITY_WEIGHT[priority] * count, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function rankCandidates(task: Task, context: AssignmentContext): AssignmentCandidate[] {
+  const tags = task.tags.map((t) => t.toLowerCase());
+  
+  return context.members
+    .map((member): AssignmentCandidate => {
+      const skills = agentSkills(member);
+      const matched = tags.filter((tag) => skills.has(tag) || skillsForTag(context.catalog, tag).some((s) => skills.has(s.name)));
+      const load = context.load.get(member.name) ?? emptyLoad();
+      const weighted = weightedLoad(load);
+      const cycle = context.cycleHours.get(member.name) ?? null;
+      
+      const breakdown = {
+        // No tags: skills don't decide
+        skills: tags.length > 0 ? matched.length / tags.length : 0.5,
+        availability: 1 / (1 + weighted / 5),
+        seniority: Math.max(0, 1 - Math.abs(SENIORITY_RANK[member.seniority] - DESIRED_RANK[task.priority]) / 2),
+        // Faster than the team median scores above 0.33, no history is neutral
+        speed: cycle && context.teamCycleHours
+          ? (Math.min(2, Math.max(0.5, context.teamCycleHours / cycle)) - 0.5) / 1.5
+          : 1 / 3,
+      };
+      const score = (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>)
+        .reduce((sum, key) => sum + WEIGHTS[key] * breakdown[key], 0);
+      
+      const reasons = [
+        tags.length > 0 ? `${matched.length}/${tags.length} tags match (${matched.join(', ') || 'none'})` : 'task has no tags',
+        `${load.open} open tasks (priority-weighted load ${weighted})`,
+        `${member.seniority} for a ${task.priority} task`,
+        cycle !== null ? `avg cycle time ${round(cycle)}h` : 'no cycle time history',
+      ];
+      
+      return {
+        agent: member.name,
+        role: member.role,
+        seniority: member.seniority,
+        score: round(score),
+        breakdown: {
+          skills: round(breakdown.skills),
+          availability: round(breakdown.availability),
+          seniority: round(breakdown.seniority),
+          speed: round(breakdown.speed),
+        },
+        matched_tags: matched,
+        open_tasks: load.open,
+        weighted_load: weighted,
+        avg_cycle_hours: cycle !== null ? round(cycle) : null,
+        explanation: `${member.name} (${member.role}): ${reasons.join('; ')}`,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.weighted_load - b.weighted_load || a.agent.localeCompare(b.agent));
+}
+
+/** Counts a new assignment into the context so the next pick in a batch sees it */
+export function recordAssignment(context: AssignmentContext, agent: string, priority: PriorityLevel): void {
+  const load = context.load.get(agent) ?? emptyLoad();
+  load.open++;
+  load.by_priority[priority]++;
+  load.by_status.todo = (load.by_status.todo ?? 0) + 1;
+  context.load.set(agent, load);
+}
+
+// ============================================
+// ASSIGNMENT
+// ============================================
+export async function assignTask(task: Task, assignee: { team: string | null; agent: string | null }, by: string): Promise<Task> {
+  const assignment = {
+    assigned_team: assignee.team,
+    assigned_agent: assignee.agent,
+    updated_by: by,
+  };
+  
+  // Assigning a backlog task makes it ready; other statuses are kept
+  const data = task.status === 'backlog'
+    ? await transitionTask(task, 'todo', { agent: by, extra: assignment })
+    : await getStorage().tasks.update(task.id, assignment);
+  
+  await logActivity(by, 'task_assigned', { team: assignee.team, agent: assignee.agent }, {
+    projectId: data.project_id,
+    team: assignee.team ?? undefined,
+    relatedId: task.id,
+    relatedType: 'task',
+  });
+  
+  return data;
+}
\ No newline at end of file
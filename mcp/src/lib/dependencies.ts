@@ -0,0 +1,203 @@
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Task } from '../db/supabase.js';
+import { transitionTask } from './task-status.js';
+
+/** Set in task.metadata when the task was put into `blocked` by its dependencies */
+export const DEPENDENCY_BLOCK_FLAG = 'blocked_by_dependencies';
+
+async function loadTasks(ids: string[]): Promise<Task[]> {
+  if (ids.length === 0) return [];
+  return getStorage().tasks.list({ where: { id: { in: ids } } });
+}
+
+export async function findOpenBlockers(task: Task): Promise<Task[]> {
+  const blockers = await loadTasks(task.blocked_by ?? []);
+  return blockers.filter((t) => t.status !== 'done');
+}
+
+/** Throws when the task still waits on open blockers */
+export async function assertUnblocked(task: Task): Promise<void> {
+  const open = await findOpenBlockers(task);
+  if (open.length > 0) {
+    const list = open.map((t) => `"${t.title}" (${t.status})`).join(', ');
+    throw new Error(`Task "${task.title}" is blocked by open tasks: ${list}`);
+  }
+}
+
+/** True when `from` can reach `to` by following blocked_by edges */
+function reaches(from: string, to: string, byId: Map<string, Task>): boolean {
+  const seen = new Set<string>();
+  const stack = [from];
+  
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === to) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blocked_by ?? []));
+  }
+  return false;
+}
+
+// ============================================
+// DEPENDENCY CHANGES
+// ============================================
+export async function addDependency(taskId: string, blockerId: string, agent: string): Promise<Task> {
+  if (taskId === blockerId) throw new Error('A task cannot block itself');
+  
+  const [task, blocker] = await Promise.all([findTaskById(taskId), findTaskById(blockerId)]);
+  if (task.project_id !== blocker.project_id) {
+    throw new Error('Dependencies must stay within one project');
+  }
+  if (task.blocked_by?.includes(blockerId)) return task;
+  
+  const projectTasks = await getStorage().tasks.list({ where: { project_id: task.project_id } });
+  
+  const byId = new Map(projectTasks.map((t) => [t.id, t]));
+  if (reaches(blockerId, taskId, byId)) {
+    throw new Error(`Adding "${blocker.title}" as blocker of "${task.title}" would create a cycle`);
+  }
+  
+  const blockedBy = [...(task.blocked_by ?? []), blockerId];
+  
+  // A ready or running task that gains an open blocker has to wait for it
+  const data = blocker.status !== 'done' && (task.status === 'todo' || task.status === 'in_progress')
+    ? await transitionTask(task, 'blocked', {
+      agent,
+      reason: `Waiting on "${blocker.title}"`,
+      extra: { blocked_by: blockedBy, metadata: { ...task.metadata, [DEPENDENCY_BLOCK_FLAG]: true } },
+    })
+    : await getStorage().tasks.update(taskId, { blocked_by: blockedBy, updated_by: agent });
+  
+  await logActivity(agent, 'task_dependency_added', { blocked_by: blockerId, blocker: blocker.title }, {
+    projectId: task.project_id,
+    team: task.assigned_team ?? undefined,
+    relatedId: taskId,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+export async function removeDependency(taskId: string, blockerId: string, agent: string): Promise<Task> {
+  const task = await findTaskById(taskId);
+  const remaining = (task.blocked_by ?? []).filter((id) => id !== blockerId);
+  
+  const data = await getStorage().tasks.update(taskId, {
+    blocked_by: remaining.length > 0 ? remaining : null,
+    updated_by: agent,
+  });
+  
+  await logActivity(agent, 'task_dependency_removed', { blocked_by: blockerId }, {
+    projectId: task.project_id,
+    team: task.assigned_team ?? undefined,
+    relatedId: taskId,
+    relatedType: 'task',
+  });
+  
+  return (await unblockIfReady(data, agent)) ?? data;
+}
+
+/**
+ * Moves a task that was blocked by its dependencies back to todo once every
+ * blocker is done. Tasks blocked manually are left alone.
+ */
+export async function unblockIfReady(task: Task, agent: string): Promise<Task | null> {
+  if (task.status !== 'blocked' || !(DEPENDENCY_BLOCK_FLAG in task.metadata)) return null;
+  if ((await findOpenBlockers(task)).length > 0) return null;
+  
+  // Leaving blocked clears the dependency flag (see transitionTask)
+  return transitionTask(task, 'todo', { agent, reason: 'all blockers done' });
+}
+
+/** Called after a task reaches done: unblocks dependents whose last blocker it was */
+export async function releaseDependents(doneTaskId: string, agent: string): Promise<Task[]> {
+  const dependents = await getStorage().tasks.list({
+    where: { blocked_by: { contains: [doneTaskId] }, status: { neq: 'done' } },
+  });
+  
+  const released: Task[] = [];
+  for (const dependent of dependents) {
+    const unblocked = await unblockIfReady(dependent, agent);
+    if (unblocked) released.push(unblocked);
+  }
+  return released;
+}
+
+// ============================================
+// GRAPH
+// ============================================
+export interface TaskGraph {
+  nodes: Array<Pick<Task, 'id' | 'title' | 'status' | 'assigned_agent' | 'estimated_hours'>>;
+  /** [blocker, dependent] pairs */
+  edges: Array<[string, string]>;
+  /** Blockers first; a valid execution order */
+  order: string[];
+  critical_path: { task_ids: string[]; remaining_hours: number; total_hours: number };
+}
+
+/**
+ * Dependency DAG of a task set with its critical path: the chain with the
+ * most remaining estimated hours (done tasks count as zero).
+ */
+export function buildTaskGraph(tasks: Task[]): TaskGraph {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const edges: Array<[string, string]> = [];
+  const dependents = new Map<string, string[]>();
+  const indegree = new Map(tasks.map((t) => [t.id, 0]));
+  
+  for (const task of tasks) {
+    for (const blocker of task.blocked_by ?? []) {
+      if (!byId.has(blocker)) continue;
+      edges.push([blocker, task.id]);
+      dependents.set(blocker, [...(dependents.get(blocker) ?? []), task.id]);
+      indegree.set(task.id, (indegree.get(task.id) ?? 0) + 1);
+    }
+  }
+  
+  const queue = tasks.filter((t) => indegree.get(t.id) === 0).map((t) => t.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    for (const next of dependents.get(id) ?? []) {
+      const remaining = (indegree.get(next) ?? 0) - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+  
+  const remainingHours = (t: Task) => (t.status === 'done' ? 0 : t.estimated_hours ?? 0);
+  const best = new Map<string, { hours: number; prev: string | null }>();
+  for (const id of order) {
+    const task = byId.get(id) as Task;
+    let prev: string | null = null;
+    let base = 0;
+    for (const blocker of task.blocked_by ?? []) {
+      const candidate = best.get(blocker);
+      if (candidate && (prev === null || candidate.hours > base)) {
+        base = candidate.hours;
+        prev = blocker;
+      }
+    }
+    best.set(id, { hours: base + remainingHours(task), prev });
+  }
+  
+  let end: string | null = null;
+  for (const [id, entry] of best) {
+    if (end === null || entry.hours > (best.get(end)?.hours ?? 0)) end = id;
+  }
+  
+  const path: string[] = [];
+  for (let id = end; id; id = best.get(id)?.prev ?? null) path.unshift(id);
+  
+  return {
+    nodes: tasks.map(({ id, title, status, assigned_agent, estimated_hours }) => ({ id, title, status, assigned_agent, estimated_hours })),
+    edges,
+    order,
+    critical_path: {
+      task_ids: path,
+      remaining_hours: end ? best.get(end)?.hours ?? 0 : 0,
+      total_hours: path.reduce((sum, id) => sum + (byId.get(id)?.estimated_hours ?? 0), 0),
+    },
+  };
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+const MAX_DIFF_LINES = 5000;
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+function lineOps(a: string[], b: string[]): Op[] {
+  // LCS table, filled from the end so the walk below can go forwards
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+  
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      ops.push({ type: '-', line: a[i++]! });
+    } else {
+      ops.push({ type: '+', line: b[j++]! });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++]! });
+  while (j < b.length) ops.push({ type: '+', line: b[j++]! });
+  return ops;
+}
+
+/** Unified diff of two texts with `context` unchanged lines around each change */
+export function unifiedDiff(before: string, after: string, labels: [string, string], context = 3): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    throw new Error(`Files are too large to diff (max ${MAX_DIFF_LINES} lines)`);
+  }
+  
+  const ops = lineOps(a, b);
+  const changed = ops.map((op, k) => (op.type !== ' ' ? k : -1)).filter((k) => k >= 0);
+  if (changed.length === 0) return '';
+  
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const k of changed) {
+    const start = Math.max(0, k - context);
+    const end = Math.min(ops.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  }
+  
+  const out = [`--- ${labels[0]}`, `+++ ${labels[1]}`];
+  for (const [start, end] of hunks) {
+    const before = ops.slice(0, start);
+    const oldStart = before.filter((op) => op.type !== '+').length + 1;
+    const newStart = before.filter((op) => op.type !== '-').length + 1;
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+    
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of slice) out.push(`${op.type}${op.line}`);
+  }
+  return out.join('\n');
+}
\ No newline at end of file
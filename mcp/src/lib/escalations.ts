@@ -0,0 +1,349 @@
+import { z } from 'zod';
+
+import { getStorage, logActivity } from '../db/storage.js';
+import type { Escalation, EscalationLevel, EscalationStatus, PriorityLevel, Project, Task, TaskStatus } from '../db/supabase.js';
+import { findAgent, findTeamLead, getRegistry } from './registry.js';
+import { hoursInCurrentStatus } from './status-history.js';
+
+/** Agent name the engine acts as when it opens, raises or closes escalations */
+export const ESCALATION_ENGINE = 'escalation-engine';
+
+export const ESCALATION_LEVELS: EscalationLevel[] = ['assignee', 'tech_lead', 'leadership'];
+
+/** Leadership contacts for the last level: the CTO, then the COO */
+const LEADERSHIP = ['nova', 'felix'];
+
+const OPEN: EscalationStatus[] = ['open', 'acknowledged'];
+
+// ============================================
+// SLA RULES
+// ============================================
+export type SlaRules = Partial<Record<TaskStatus, Partial<Record<PriorityLevel, number | null>>>>;
+
+/** Hours a task may stay in a status before it is escalated */
+export const DEFAULT_SLA: SlaRules = {
+  blocked: { critical: 4, high: 8, medium: 24, low: 72 },
+  in_progress: { critical: 24, high: 48, medium: 96, low: 168 },
+  review: { critical: 8, high: 24, medium: 48, low: 96 },
+};
+
+const priorityRules = z.object({
+  critical: z.number().positive().nullable(),
+  high: z.number().positive().nullable(),
+  medium: z.number().positive().nullable(),
+  low: z.number().positive().nullable(),
+}).partial();
+
+const slaSchema = z.object({
+  backlog: priorityRules,
+  todo: priorityRules,
+  in_progress: priorityRules,
+  review: priorityRules,
+  blocked: priorityRules,
+}).partial();
+
+/** Defaults merged with project.settings.sla; null switches a rule off */
+export function slaRules(project: Project): SlaRules {
+  const result = slaSchema.safeParse(project.settings.sla ?? {});
+  if (!result.success) throw new Error(`Invalid SLA rules on "${project.name}": ${result.error.message}`);
+  
+  const rules: SlaRules = { ...DEFAULT_SLA };
+  for (const [status, overrides] of Object.entries(result.data) as Array<[TaskStatus, SlaRules[TaskStatus]]>) {
+    rules[status] = { ...rules[status], ...overrides };
+  }
+  return rules;
+}
+
+export function slaFor(rules: SlaRules, task: Pick<Task, 'status' | 'priority'>): number | null {
+  return rules[task.status]?.[task.priority] ?? null;
+}
+
+/** One level per SLA period over the limit: assignee, then tech lead, then leadership */
+function levelFor(hours: number, sla: number): number {
+  return Math.min(ESCALATION_LEVELS.length - 1, Math.max(0, Math.ceil(hours / sla) - 2));
+}
+
+/**
+ * Who an escalation goes to. The tech lead is the one matching the assignee's
+ * specialty or the task's tags. Levels without anyone to notify (no assignee,
+ * no lead, or the assignee is the lead) move up to the next one.
+ */
+export async function escalationTargets(task: Task, minLevel: number): Promise<{ level: EscalationLevel; agents: string[] }> {
+  const { agents } = await getRegistry();
+  const assignee = task.assigned_agent ? await findAgent(task.assigned_agent) : undefined;
+  const lead = task.assigned_team ? await findTeamLead(task.assigned_team, [assignee?.role ?? '', ...task.tags]) : null;
+  const leadership = LEADERSHIP.filter((name) => agents.some((a) => a.name === name) && name !== task.assigned_agent);
+  
+  const byLevel: Record<EscalationLevel, string[]> = {
+    assignee: task.assigned_agent ? [task.assigned_agent] : [],
+    tech_lead: lead && lead !== task.assigned_agent ? [lead] : [],
+    leadership: leadership.length > 0 ? leadership : LEADERSHIP,
+  };
+  
+  const level = ESCALATION_LEVELS.slice(minLevel).find((l) => byLevel[l].length > 0) ?? 'leadership';
+  return { level, agents: byLevel[level] };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+export async function listEscalations(filter: {
+  projectId?: string;
+  taskId?: string;
+  agent?: string;
+  status?: EscalationStatus | 'unresolved';
+  limit?: number;
+} = {}): Promise<Escalation[]> {
+  const status = filter.status ?? 'unresolved';
+  return getStorage().table('escalations').list({
+    where: {
+      project_id: filter.projectId,
+      task_id: filter.taskId,
+      escalated_to: filter.agent ? { contains: [filter.agent.toLowerCase()] } : undefined,
+      status: status === 'unresolved' ? { in: OPEN } : status,
+    },
+    orderBy: [{ column: 'created_at', ascending: false }],
+    limit: filter.limit,
+  });
+}
+
+/** Counts and open escalations for the project dashboard */
+export async function escalationSummary(projectId: string) {
+  const open = await listEscalations({ projectId });
+  const byLevel = open.reduce((acc, e) => {
+    acc[e.level] = (acc[e.level] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  
+  return {
+    open: open.filter((e) => e.status === 'open').length,
+    acknowledged: open.filter((e) => e.status === 'acknowledged').length,
+    by_level: byLevel,
+    items: open.map((e) => ({
+      id: e.id,
+      task_id: e.task_id,
+      level: e.level,
+      escalated_to: e.escalated_to,
+      status: e.status,
+      reason: e.reason,
+      since: e.created_at,
+    })),
+  };
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+async function findOpenEscalation(id: string): Promise<Escalation> {
+  const escalation = await getStorage().table('escalations').get(id);
+  if (!escalation) throw new Error(`Escalation not found: ${id}`);
+  if (escalation.status === 'resolved') throw new Error(`Escalation ${id} is already resolved`);
+  return escalation;
+}
+
+/** Only the agents it was escalated to, or the level above them, may handle it; never the assignee */
+async function assertMayHandle(escalation: Escalation, agent: string): Promise<void> {
+  if (agent === ESCALATION_ENGINE) return;
+  
+  const task = await getStorage().tasks.get(escalation.task_id);
+  if (task?.assigned_agent === agent) {
+    throw new Error(`${agent} is the assignee and cannot handle the escalation of their own task`);
+  }
+  
+  const allowed = new Set(escalation.escalated_to);
+  if (task) {
+    const above = await escalationTargets(task, ESCALATION_LEVELS.indexOf(escalation.level) + 1);
+    for (const name of above.agents) allowed.add(name);
+    if (task.assigned_agent) allowed.delete(task.assigned_agent);
+  }
+  if (!allowed.has(agent)) {
+    throw new Error(`Escalation ${escalation.id} is for ${[...allowed].join(', ')}, not ${agent}`);
+  }
+}
+
+/** Acknowledging stops the escalation from climbing further until it is resolved */
+export async function acknowledgeEscalation(id: string, agent: string, note?: string): Promise<Escalation> {
+  const escalation = await findOpenEscalation(id);
+  if (escalation.status === 'acknowledged') throw new Error(`Escalation ${id} was already acknowledged by ${escalation.acknowledged_by}`);
+  await assertMayHandle(escalation, agent);
+  
+  const data = await getStorage().table('escalations').update(id, {
+    status: 'acknowledged',
+    acknowledged_by: agent,
+    acknowledged_at: new Date().toISOString(),
+  });
+  
+  await logActivity(agent, 'escalation_acknowledged', { level: data.level, note }, {
+    projectId: data.project_id,
+    team: data.team ?? undefined,
+    relatedId: data.task_id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+export async function resolveEscalation(id: string, agent: string, resolution: string): Promise<Escalation> {
+  await assertMayHandle(await findOpenEscalation(id), agent);
+  
+  const data = await getStorage().table('escalations').update(id, {
+    status: 'resolved',
+    resolved_by: agent,
+    resolved_at: new Date().toISOString(),
+    resolution,
+  });
+  
+  await logActivity(agent, 'escalation_resolved', { level: data.level, resolution }, {
+    projectId: data.project_id,
+    team: data.team ?? undefined,
+    relatedId: data.task_id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+// ============================================
+// ENGINE
+// ============================================
+export type EscalationCheck = {
+  project_id: string;
+  dry_run: boolean;
+  opened: Array<{ task_id: string; title: string; level: EscalationLevel; escalated_to: string[]; hours: number; sla: number }>;
+  raised: Array<{ id: string; task_id: string; title: string; from: EscalationLevel; to: EscalationLevel; escalated_to: string[] }>;
+  resolved: Array<{ id: string; task_id: string; reason: string }>;
+};
+
+/**
+ * Applies the SLA rules to one project: tasks over their limit get an
+ * escalation, open escalations climb a level per further SLA period, and
+ * escalations whose task left the escalated status are resolved.
+ */
+export async function checkEscalations(project: Project, options: { dryRun?: boolean; now?: number } = {}): Promise<EscalationCheck> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? Date.now();
+  const rules = slaRules(project);
+  const storage = getStorage();
+  
+  const [tasks, history, open] = await Promise.all([
+    storage.tasks.list({ where: { project_id: project.id } }),
+    storage.taskStatusHistory.list({ where: { project_id: project.id } }),
+    listEscalations({ projectId: project.id }),
+  ]);
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const result: EscalationCheck = { project_id: project.id, dry_run: dryRun, opened: [], raised: [], resolved: [] };
+  
+  const active = new Map<string, Escalation>();
+  for (const escalation of open) {
+    const task = byId.get(escalation.task_id);
+    if (task && task.status === escalation.task_status) {
+      active.set(task.id, escalation);
+      continue;
+    }
+    
+    const reason = task ? `task moved to ${task.status}` : 'task removed';
+    result.resolved.push({ id: escalation.id, task_id: escalation.task_id, reason });
+    if (!dryRun) await resolveEscalation(escalation.id, ESCALATION_ENGINE, reason);
+  }
+  
+  for (const task of tasks) {
+    const sla = slaFor(rules, task);
+    if (sla === null) continue;
+    
+    const hours = hoursInCurrentStatus(task, history, now);
+    if (hours <= sla) continue;
+    
+    const existing = active.get(task.id);
+    const due = levelFor(hours, sla);
+    
+    if (!existing) {
+      const target = await escalationTargets(task, due);
+      if (!dryRun && !await openEscalation(task, target, hours, sla)) continue;
+      result.opened.push({ task_id: task.id, title: task.title, level: target.level, escalated_to: target.agents, hours, sla });
+      continue;
+    }
+    
+    if (existing.status !== 'open' || due <= ESCALATION_LEVELS.indexOf(existing.level)) continue;
+    
+    const target = await escalationTargets(task, due);
+    if (target.level === existing.level) continue;
+    result.raised.push({ id: existing.id, task_id: task.id, title: task.title, from: existing.level, to: target.level, escalated_to: target.agents });
+    if (!dryRun) await raiseEscalation(existing, task, target, hours);
+  }
+  
+  return result;
+}
+
+/**
+ * Opens an escalation, or returns null when an overlapping check opened one
+ * for the task first: the unique index on active escalations refuses the
+ * second insert.
+ */
+async function openEscalation(task: Task, target: { level: EscalationLevel; agents: string[] }, hours: number, sla: number): Promise<Escalation | null> {
+  const reason = `${task.priority} task ${task.status} for ${hours}h (SLA ${sla}h)${task.blocker_reason ? `: ${task.blocker_reason}` : ''}`;
+  const data = await getStorage().table('escalations').insert({
+    project_id: task.project_id,
+    task_id: task.id,
+    team: task.assigned_team,
+    level: target.level,
+    escalated_to: target.agents,
+    status: 'open',
+    task_status: task.status,
+    priority: task.priority,
+    sla_hours: sla,
+    hours_in_status: hours,
+    reason,
+    acknowledged_by: null,
+    acknowledged_at: null,
+    resolved_by: null,
+    resolved_at: null,
+    resolution: null,
+  }).catch(async (error: unknown) => {
+    if ((await listEscalations({ taskId: task.id, limit: 1 })).length > 0) return null;
+    throw error;
+  });
+  if (!data) return null;
+  
+  await logActivity(ESCALATION_ENGINE, 'task_escalated', { task: task.title, level: target.level, escalated_to: target.agents, reason }, {
+    projectId: task.project_id,
+    team: task.assigned_team ?? undefined,
+    relatedId: task.id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+async function raiseEscalation(escalation: Escalation, task: Task, target: { level: EscalationLevel; agents: string[] }, hours: number): Promise<Escalation> {
+  const data = await getStorage().table('escalations').update(escalation.id, {
+    level: target.level,
+    escalated_to: target.agents,
+    hours_in_status: hours,
+  });
+  
+  await logActivity(ESCALATION_ENGINE, 'escalation_raised', {
+    task: task.title,
+    from: escalation.level,
+    to: target.level,
+    escalated_to: target.agents,
+    hours,
+  }, {
+    projectId: task.project_id,
+    team: task.assigned_team ?? undefined,
+    relatedId: task.id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+/** Checks every active project */
+export async function checkAllEscalations(): Promise<EscalationCheck[]> {
+  const projects = await getStorage().projects.list({ where: { status: 'active' } });
+  const results: EscalationCheck[] = [];
+  
+  for (const project of projects) {
+    try {
+      results.push(await checkEscalations(project));
+    } catch (error) {
+      console.error(`Escalation check failed for ${project.slug}:`, error);
+    }
+  }
+  return results;
+}
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Deliverable, Handoff, HandoffMessage, HandoffStatus, Learning, Task } from '../db/supabase.js';
+import { assignTask } from './assignment.js';
+import { findAgent } from './registry.js';
+import { closeTaskTimers } from './time-tracking.js';
+
+const OPEN: HandoffStatus[] = ['pending', 'info_requested'];
+
+/** Related learnings attached when the sender does not pick them */
+const MAX_LEARNINGS = 5;
+
+export type NewHandoff = {
+  taskId: string;
+  from: string;
+  to: string;
+  summary: string;
+  openQuestions?: string[];
+  /** Deliverable paths to include; default: the latest version of every deliverable */
+  deliverables?: string[];
+  /** Learning ids to include; default: learnings linked to the task or sharing its tags */
+  learningIds?: string[];
+};
+
+// ============================================
+// CONTEXT
+// ============================================
+function latestDeliverables(task: Task, paths?: string[]): Deliverable[] {
+  const latest = new Map<string, Deliverable>();
+  for (const d of task.deliverables) {
+    const current = latest.get(d.path);
+    if (!current || d.version > current.version) latest.set(d.path, d);
+  }
+  
+  if (!paths) return [...latest.values()];
+  return paths.map((path) => {
+    const deliverable = latest.get(path);
+    if (!deliverable) throw new Error(`Task "${task.title}" has no deliverable ${path}`);
+    return deliverable;
+  });
+}
+
+async function relatedLearnings(task: Task, ids?: string[]): Promise<Learning[]> {
+  const learnings = getStorage().table('learnings');
+  if (ids) {
+    const found = await learnings.list({ where: { id: { in: ids } } });
+    const missing = ids.filter((id) => !found.some((l) => l.id === id));
+    if (missing.length > 0) throw new Error(`Learnings not found: ${missing.join(', ')}`);
+    return found;
+  }
+  
+  const [linked, tagged] = await Promise.all([
+    learnings.list({ where: { related_task_ids: { contains: [task.id] } } }),
+    task.tags.length > 0
+      ? learnings.list({
+        where: { project_id: task.project_id, tags: { overlaps: task.tags } },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: MAX_LEARNINGS,
+      })
+      : Promise.resolve([]),
+  ]);
+  const unique = new Map([...linked, ...tagged].map((l) => [l.id, l]));
+  return [...unique.values()].slice(0, MAX_LEARNINGS);
+}
+
+// ============================================
+// HANDOFFS
+// ============================================
+async function findHandoff(id: string): Promise<Handoff> {
+  const handoff = await getStorage().table('handoffs').get(id);
+  if (!handoff) throw new Error(`Handoff not found: ${id}`);
+  return handoff;
+}
+
+async function log(agent: string, action: string, handoff: Handoff, details: Record<string, unknown> = {}): Promise<void> {
+  await logActivity(agent, action, { handoff_id: handoff.id, from: handoff.from_agent, to: handoff.to_agent, ...details }, {
+    projectId: handoff.project_id,
+    team: handoff.to_team ?? undefined,
+    relatedId: handoff.task_id,
+    relatedType: 'task',
+  });
+}
+
+/**
+ * Packages a task with the sender's summary, open questions, deliverables
+ * and related learnings for another agent. The assignment is untouched
+ * until the target accepts; a task has at most one open handoff.
+ */
+export async function createHandoff(input: NewHandoff) {
+  const task = await findTaskById(input.taskId);
+  if (task.status === 'done') throw new Error(`Task "${task.title}" is done; nothing to hand off`);
+  if (task.assigned_agent && task.assigned_agent !== input.from) {
+    throw new Error(`Task "${task.title}" is assigned to ${task.assigned_agent}; only the assignee can hand it off`);
+  }
+  if (input.to === input.from) throw new Error('Cannot hand a task off to yourself');
+  
+  const [open] = await getStorage().table('handoffs').list({ where: { task_id: task.id, status: { in: OPEN } }, limit: 1 });
+  if (open) throw new Error(`Task "${task.title}" already has an open handoff to ${open.to_agent} (${open.id})`);
+  
+  const target = await findAgent(input.to);
+  const learnings = await relatedLearnings(task, input.learningIds);
+  
+  const handoff = await getStorage().table('handoffs').insert({
+    project_id: task.project_id,
+    task_id: task.id,
+    from_agent: input.from,
+    to_agent: input.to,
+    to_team: target?.team ?? task.assigned_team,
+    status: 'pending',
+    summary: input.summary,
+    open_questions: input.openQuestions ?? [],
+    deliverables: latestDeliverables(task, input.deliverables),
+    learning_ids: learnings.map((l) => l.id),
+    messages: [],
+    response: null,
+    responded_at: null,
+  });
+  
+  await log(input.from, 'handoff_created', handoff, { task: task.title, open_questions: handoff.open_questions.length });
+  return { handoff, task, learnings };
+}
+
+function respondable(handoff: Handoff, agent: string): void {
+  if (handoff.to_agent !== agent) throw new Error(`Handoff ${handoff.id} is addressed to ${handoff.to_agent}, not ${agent}`);
+  if (!OPEN.includes(handoff.status)) throw new Error(`Handoff ${handoff.id} is already ${handoff.status}`);
+}
+
+/** Accepting moves the task to the target agent and its team and stops the sender's timer on it */
+export async function acceptHandoff(id: string, agent: string, note?: string): Promise<{ handoff: Handoff; task: Task }> {
+  const handoff = await findHandoff(id);
+  respondable(handoff, agent);
+  
+  const current = await findTaskById(handoff.task_id);
+  if (current.assigned_agent && current.assigned_agent !== handoff.from_agent) {
+    throw new Error(`Task "${current.title}" was reassigned to ${current.assigned_agent} after the handoff; ask for a new one`);
+  }
+  
+  await closeTaskTimers(current, agent, `handed off to ${agent}`, handoff.from_agent);
+  const task = await assignTask(await findTaskById(current.id), { team: handoff.to_team, agent }, agent);
+  const data = await getStorage().table('handoffs').update(id, {
+    status: 'accepted',
+    response: note ?? null,
+    responded_at: new Date().toISOString(),
+  });
+  
+  await log(agent, 'handoff_accepted', data, { note });
+  return { handoff: data, task };
+}
+
+export async function rejectHandoff(id: string, agent: string, reason: string): Promise<Handoff> {
+  const handoff = await findHandoff(id);
+  respondable(handoff, agent);
+  
+  const data = await getStorage().table('handoffs').update(id, {
+    status: 'rejected',
+    response: reason,
+    responded_at: new Date().toISOString(),
+  });
+  
+  await log(agent, 'handoff_rejected', data, { reason });
+  return data;
+}
+
+function appendMessage(handoff: Handoff, agent: string, kind: HandoffMessage['kind'], message: string): HandoffMessage[] {
+  return [...handoff.messages, { agent, kind, message, at: new Date().toISOString() }];
+}
+
+/** The target asks the sender for more context before deciding */
+export async function requestHandoffInfo(id: string, agent: string, questions: string): Promise<Handoff> {
+  const handoff = await findHandoff(id);
+  respondable(handoff, agent);
+  
+  const data = await getStorage().table('handoffs').update(id, {
+    status: 'info_requested',
+    messages: appendMessage(handoff, agent, 'info_request', questions),
+  });
+  
+  await log(agent, 'handoff_info_requested', data, { questions });
+  return data;
+}
+
+/** The sender answers an information request; the handoff waits for a decision again */
+export async function replyToHandoff(id: string, agent: string, answer: string): Promise<Handoff> {
+  const handoff = await findHandoff(id);
+  if (handoff.from_agent !== agent) throw new Error(`Only ${handoff.from_agent} can answer handoff ${id}`);
+  if (handoff.status !== 'info_requested') throw new Error(`Handoff ${id} is ${handoff.status}; no information was requested`);
+  
+  const data = await getStorage().table('handoffs').update(id, {
+    status: 'pending',
+    messages: appendMessage(handoff, agent, 'info_reply', answer),
+  });
+  
+  await log(agent, 'handoff_info_provided', data);
+  return data;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+export async function listHandoffs(filter: { agent?: string; direction?: 'incoming' | 'outgoing'; status?: HandoffStatus | 'open'; projectId?: string } = {}): Promise<Handoff[]> {
+  const agent = filter.agent?.toLowerCase();
+  const status = filter.status ?? 'open';
+  return getStorage().table('handoffs').list({
+    where: {
+      project_id: filter.projectId,
+      to_agent: filter.direction !== 'outgoing' ? agent : undefined,
+      from_agent: filter.direction === 'outgoing' ? agent : undefined,
+      status: status === 'open' ? { in: OPEN } : status,
+    },
+    orderBy: [{ column: 'created_at', ascending: false }],
+  });
+}
+
+/** Every handoff of a task in order, with the path of accepted owners */
+export async function handoffChain(taskId: string) {
+  const task = await findTaskById(taskId);
+  const handoffs = await getStorage().table('handoffs').list({
+    where: { task_id: taskId },
+    orderBy: [{ column: 'created_at' }],
+  });
+  
+  const accepted = handoffs.filter((h) => h.status === 'accepted');
+  const owners = accepted.length > 0 ? [accepted[0]!.from_agent, ...accepted.map((h) => h.to_agent)] : [];
+  
+  return {
+    task: { id: task.id, title: task.title, status: task.status, assigned_agent: task.assigned_agent, assigned_team: task.assigned_team },
+    owners,
+    open: handoffs.find((h) => OPEN.includes(h.status)) ?? null,
+    handoffs,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Job } from '../db/supabase.js';
+import { mimeType } from './workspace.js';
+
+export type MediaKind = 'image' | 'video';
+
+/** Job kinds whose result is written back onto a target row */
+export type JobKind = 'generate-image' | 'generate-video';
+
+// ============================================
+// TARGET UPDATES
+// ============================================
+export async function storeGeneratedAsset(
+  kind: MediaKind,
+  target: { type: string; id: string },
+  assetPath: string,
+  prompt: string,
+  agent: string
+): Promise<unknown> {
+  if (target.type === 'content') {
+    return getStorage().table('content_calendar').update(target.id, kind === 'image'
+      ? { image_path: assetPath, image_prompt: prompt }
+      : { video_path: assetPath, video_prompt: prompt });
+  }
+  
+  const task = await findTaskById(target.id);
+  return getStorage().tasks.update(target.id, {
+    deliverables: [...task.deliverables, {
+      path: assetPath,
+      version: task.deliverables.filter((d) => d.path === assetPath).length + 1,
+      sha256: null,
+      size: null,
+      mime_type: mimeType(assetPath),
+      author: agent,
+      attached_at: new Date().toISOString(),
+      note: prompt,
+      source: 'n8n',
+    }],
+    updated_by: agent,
+  });
+}
+
+async function applyJobResult(job: Job, result: Record<string, unknown>): Promise<void> {
+  if (!job.target_type || !job.target_id) return;
+  const agent = job.requested_by ?? 'system';
+  
+  switch (job.kind as JobKind) {
+    case 'generate-image':
+    case 'generate-video': {
+      const assetPath = typeof result.path === 'string' ? result.path : result.url;
+      if (typeof assetPath !== 'string') throw new Error(`Job ${job.id} result has no asset path`);
+      const kind: MediaKind = job.kind === 'generate-image' ? 'image' : 'video';
+      await storeGeneratedAsset(kind, { type: job.target_type, id: job.target_id }, assetPath, String(job.request.prompt ?? ''), agent);
+      break;
+    }
+  }
+}
+
+// ============================================
+// JOB RECORDS
+// ============================================
+export async function createJob(job: {
+  kind: JobKind;
+  projectId?: string | null;
+  target?: { type: string; id: string };
+  request: Record<string, unknown>;
+  requestedBy?: string;
+}): Promise<Job> {
+  return getStorage().table('jobs').insert({
+    kind: job.kind,
+    status: 'pending',
+    project_id: job.projectId ?? null,
+    target_type: job.target?.type ?? null,
+    target_id: job.target?.id ?? null,
+    request: job.request,
+    result: null,
+    error: null,
+    requested_by: job.requestedBy ?? 'system',
+    completed_at: null,
+  });
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  const job = await getStorage().table('jobs').get(jobId);
+  if (!job) throw new Error(`Job not found: ${jobId}`);
+  return job;
+}
+
+/** Only a pending job moves to running, so an early callback result is never overwritten */
+export async function markJobRunning(job: Job): Promise<Job> {
+  return (await getStorage().table('jobs').updateIf(job.id, { status: 'pending' }, { status: 'running' })) ?? getJob(job.id);
+}
+
+/**
+ * Writes the result onto the job's target row and closes the job. If the
+ * target update fails the job is marked failed instead.
+ */
+export async function completeJob(job: Job, result: Record<string, unknown>): Promise<Job> {
+  try {
+    await applyJobResult(job, result);
+  } catch (error) {
+    return failJob(job, error instanceof Error ? error.message : String(error), result);
+  }
+  
+  const data = await getStorage().table('jobs').update(job.id, {
+    status: 'completed',
+    result,
+    error: null,
+    completed_at: new Date().toISOString(),
+  });
+  
+  await logActivity(job.requested_by ?? 'system', 'job_completed', { kind: job.kind, job_id: job.id }, {
+    projectId: job.project_id ?? undefined,
+    relatedId: job.target_id ?? job.id,
+    relatedType: job.target_type ?? 'job',
+  });
+  return data;
+}
+
+export async function failJob(job: Job, message: string, result: Record<string, unknown> | null = null): Promise<Job> {
+  const data = await getStorage().table('jobs').update(job.id, {
+    status: 'failed',
+    result,
+    error: message,
+    completed_at: new Date().toISOString(),
+  });
+  
+  await logActivity(job.requested_by ?? 'system', 'job_failed', { kind: job.kind, job_id: job.id, error: message }, {
+    projectId: job.project_id ?? undefined,
+    relatedId: job.target_id ?? job.id,
+    relatedType: job.target_type ?? 'job',
+  });
+  return data;
+}
+
+// ============================================
+// CALLBACK URL
+// ============================================
+/** URL n8n posts results to, or null when the callback listener is off */
+export function callbackUrl(jobId: string): string | null {
+  const port = Number(process.env.CALLBACK_PORT ?? 0);
+  if (!port) return null;
+  
+  const base = process.env.CALLBACK_PUBLIC_URL || `http://${process.env.CALLBACK_HOST || '127.0.0.1'}:${port}`;
+  return `${base.replace(/\/+$/, '')}/callbacks/${jobId}`;
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { findProjectById, findTaskById, getStorage } from '../db/storage.js';
+import type { Message, MessageLinkType, MessageReceipt, MessageSource, ReceiptReason } from '../db/supabase.js';
+import { getRegistry } from './registry.js';
+
+/** Inbox reasons in order of precedence when an agent is reached more than once */
+const REASONS: ReceiptReason[] = ['direct', 'mention', 'thread', 'channel'];
+
+const MENTION = /(^|[^\w@.])@([a-z][a-z0-9-]*)/gi;
+
+/** Characters of context kept around a mention in a task or meeting */
+const EXCERPT = 280;
+
+export type MessageLink = { type: MessageLinkType; id: string };
+
+export type NewMessage = {
+  from: string;
+  /** Direct message to one agent */
+  to?: string;
+  /** Team channel; every member receives it */
+  channel?: string;
+  /** Any message of an existing thread to reply to */
+  threadId?: string;
+  body: string;
+  projectId?: string;
+  link?: MessageLink;
+};
+
+// ============================================
+// MENTIONS
+// ============================================
+/** Roster agents mentioned as @name or @name-role; unknown handles are ignored */
+export async function parseMentions(text: string): Promise<string[]> {
+  const { agents } = await getRegistry();
+  const found = new Set<string>();
+  
+  for (const match of text.matchAll(MENTION)) {
+    const handle = match[2]!.toLowerCase();
+    const agent = agents.find((a) => a.name === handle || `${a.name}-${a.role}` === handle);
+    if (agent) found.add(agent.name);
+  }
+  return [...found];
+}
+
+function excerpt(text: string, agents: string[]): string {
+  if (text.length <= EXCERPT) return text;
+  const first = Math.max(0, Math.min(...agents.map((a) => text.toLowerCase().indexOf(`@${a}`)).filter((i) => i >= 0)));
+  const start = Math.max(0, first - EXCERPT / 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, start + EXCERPT).trim()}${start + EXCERPT < text.length ? '…' : ''}`;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+async function teamMembers(team: string): Promise<string[]> {
+  const { agents } = await getRegistry();
+  return agents.filter((a) => a.team === team).map((a) => a.name);
+}
+
+async function deliver(message: Message, audience: Map<string, ReceiptReason>): Promise<MessageReceipt[]> {
+  audience.delete(message.sender);
+  const receipts = getStorage().table('message_receipts');
+  return Promise.all([...audience].map(([agent, reason]) => receipts.insert({
+    message_id: message.id,
+    agent,
+    reason,
+    read_at: null,
+  })));
+}
+
+function addAudience(audience: Map<string, ReceiptReason>, agents: string[], reason: ReceiptReason): void {
+  for (const agent of agents) {
+    const current = audience.get(agent);
+    if (!current || REASONS.indexOf(reason) < REASONS.indexOf(current)) audience.set(agent, reason);
+  }
+}
+
+async function projectForLink(link: MessageLink): Promise<string | null> {
+  if (link.type === 'task') return (await findTaskById(link.id)).project_id;
+  if (link.type === 'project') return (await findProjectById(link.id)).id;
+  
+  const meeting = await getStorage().table('meetings').get(link.id);
+  if (!meeting) throw new Error(`Meeting not found: ${link.id}`);
+  return meeting.project_id;
+}
+
+async function findMessage(id: string): Promise<Message> {
+  const message = await getStorage().table('messages').get(id);
+  if (!message) throw new Error(`Message not found: ${id}`);
+  return message;
+}
+
+/**
+ * Sends a direct message, a team channel message or a reply. Replies reach
+ * everyone who took part in the thread; @mentions reach the agent mentioned.
+ * Only agents who may read a thread can reply to it.
+ */
+export async function sendMessage(input: NewMessage): Promise<{ message: Message; delivered_to: string[] }> {
+  const root = input.threadId ? await findMessage(input.threadId).then((m) => m.thread_id ? findMessage(m.thread_id) : m) : null;
+  if (!root && !input.to === !input.channel) throw new Error('Send to exactly one of an agent or a team channel, or reply to a thread');
+  
+  const thread = root ? await getStorage().table('messages').list({ where: { thread_id: root.id } }) : [];
+  if (root && !(await canRead(input.from, [root, ...thread]))) throw new Error(`Message not found: ${input.threadId}`);
+  
+  const mentions = await parseMentions(input.body);
+  const link = input.link ?? (root?.link_type && root.link_id ? { type: root.link_type, id: root.link_id } : undefined);
+  const projectId = input.projectId ?? root?.project_id ?? (link ? await projectForLink(link) : null);
+  
+  const message = await getStorage().table('messages').insert({
+    project_id: projectId,
+    thread_id: root?.id ?? null,
+    sender: input.from,
+    recipient: root ? root.recipient : input.to ?? null,
+    channel: root ? root.channel : input.channel ?? null,
+    body: input.body,
+    mentions,
+    link_type: link?.type ?? null,
+    link_id: link?.id ?? null,
+    source: 'message',
+  });
+  
+  const audience = new Map<string, ReceiptReason>();
+  if (root) {
+    const participants = [root, ...thread].flatMap((m) => [m.sender, ...m.mentions, ...(m.recipient ? [m.recipient] : [])]);
+    addAudience(audience, root.channel ? await teamMembers(root.channel) : [], 'channel');
+    addAudience(audience, participants, 'thread');
+  } else if (input.to) {
+    addAudience(audience, [input.to], 'direct');
+  } else if (input.channel) {
+    addAudience(audience, await teamMembers(input.channel), 'channel');
+  }
+  addAudience(audience, mentions, 'mention');
+  
+  const receipts = await deliver(message, audience);
+  return { message, delivered_to: receipts.map((r) => r.agent) };
+}
+
+/**
+ * Puts @mentions from a task description or meeting transcript into the
+ * inbox of each agent mentioned. Mentions already in `previous` are skipped
+ * so editing a description does not notify twice.
+ */
+export async function deliverMentions(input: {
+  text: string | null;
+  previous?: string | null;
+  sender: string;
+  source: Exclude<MessageSource, 'message'>;
+  link: MessageLink;
+  projectId: string | null;
+}): Promise<Message | null> {
+  if (!input.text) return null;
+  const earlier = new Set(input.previous ? await parseMentions(input.previous) : []);
+  const mentions = (await parseMentions(input.text)).filter((a) => !earlier.has(a) && a !== input.sender);
+  if (mentions.length === 0) return null;
+  
+  const message = await getStorage().table('messages').insert({
+    project_id: input.projectId,
+    thread_id: null,
+    sender: input.sender,
+    recipient: null,
+    channel: null,
+    body: excerpt(input.text, mentions),
+    mentions,
+    link_type: input.link.type,
+    link_id: input.link.id,
+    source: input.source,
+  });
+  
+  const audience = new Map<string, ReceiptReason>();
+  addAudience(audience, mentions, 'mention');
+  await deliver(message, audience);
+  return message;
+}
+
+// ============================================
+// INBOX
+// ============================================
+export async function unreadCount(agent: string): Promise<number> {
+  const unread = await getStorage().table('message_receipts').list({ where: { agent, read_at: null } });
+  return unread.length;
+}
+
+/** An agent's inbox, newest first */
+export async function getInbox(agent: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+  const storage = getStorage();
+  const receipts = await storage.table('message_receipts').list({
+    where: { agent, read_at: options.unreadOnly ? null : undefined },
+    orderBy: [{ column: 'created_at', ascending: false }],
+    limit: options.limit ?? 50,
+  });
+  const messages = receipts.length > 0
+    ? await storage.table('messages').list({ where: { id: { in: receipts.map((r) => r.message_id) } } })
+    : [];
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  
+  return {
+    agent,
+    unread: await unreadCount(agent),
+    items: receipts.flatMap((r) => {
+      const message = byId.get(r.message_id);
+      return message ? [{ ...message, reason: r.reason, read_at: r.read_at }] : [];
+    }),
+  };
+}
+
+/** Marks the given messages, or the whole inbox, as read; returns how many changed */
+export async function markRead(agent: string, messageIds?: string[]): Promise<number> {
+  const receipts = getStorage().table('message_receipts');
+  const unread = await receipts.list({
+    where: { agent, read_at: null, message_id: messageIds ? { in: messageIds } : undefined },
+  });
+  
+  const now = new Date().toISOString();
+  await Promise.all(unread.map((r) => receipts.update(r.id, { read_at: now })));
+  return unread.length;
+}
+
+/** Senders, recipients and receipt holders of a thread may read it, and channel members a channel thread */
+async function canRead(agent: string, thread: Message[]): Promise<boolean> {
+  if (thread.some((m) => m.sender === agent || m.recipient === agent)) return true;
+  
+  const channel = thread[0]!.channel;
+  if (channel && (await teamMembers(channel)).includes(agent)) return true;
+  
+  const receipts = await getStorage().table('message_receipts').list({
+    where: { agent, message_id: { in: thread.map((m) => m.id) } },
+  });
+  return receipts.length > 0;
+}
+
+/**
+ * A thread from its root message, oldest first, marked read for `agent`.
+ * Threads the agent may not read are reported as not found.
+ */
+export async function getThread(messageId: string, agent: string) {
+  const message = await findMessage(messageId);
+  const root = message.thread_id ? await findMessage(message.thread_id) : message;
+  const replies = await getStorage().table('messages').list({
+    where: { thread_id: root.id },
+    orderBy: [{ column: 'created_at' }],
+  });
+  
+  if (!(await canRead(agent, [root, ...replies]))) throw new Error(`Message not found: ${messageId}`);
+  
+  const marked = await markRead(agent, [root.id, ...replies.map((r) => r.id)]);
+  return { root, replies, marked_read: marked };
+}
\ No newline at end of file
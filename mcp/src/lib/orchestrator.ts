@@ -0,0 +1,265 @@
+import { z } from 'zod';
+
+import { getStorage, logActivity } from '../db/storage.js';
+import type { Project, Task, TaskStatus, WorkItem } from '../db/supabase.js';
+import { assignTask, loadAssignmentContext, PRIORITY_WEIGHT, rankCandidates, recordAssignment } from './assignment.js';
+import type { AssignmentContext } from './assignment.js';
+import { checkEscalations, slaFor, slaRules } from './escalations.js';
+import type { EscalationCheck } from './escalations.js';
+import { hoursInCurrentStatus } from './status-history.js';
+import { transitionTask } from './task-status.js';
+import { enqueueWork, listOpenWork, reconcileWork } from './work-queue.js';
+
+/** Agent name the orchestrator acts as in history and activity */
+export const ORCHESTRATOR = 'orchestrator';
+
+const IN_FLIGHT: TaskStatus[] = ['in_progress', 'review'];
+
+// ============================================
+// SETTINGS
+// ============================================
+const settingsSchema = z.object({
+  autonomous: z.boolean().default(false),
+  max_concurrent_tasks: z.number().int().positive().default(3),
+  max_total_hours: z.number().positive().nullable().default(null),
+  /** Counted against max_total_hours for tasks without an estimate */
+  default_estimate_hours: z.number().positive().default(4),
+});
+
+export type OrchestratorSettings = z.infer<typeof settingsSchema>;
+
+export const ORCHESTRATOR_SETTINGS = Object.keys(settingsSchema.shape) as Array<keyof OrchestratorSettings>;
+
+export function orchestratorSettings(project: Project): OrchestratorSettings {
+  const picked = Object.fromEntries(ORCHESTRATOR_SETTINGS
+    .filter((key) => project.settings[key] !== undefined)
+    .map((key) => [key, project.settings[key]]));
+  
+  const result = settingsSchema.safeParse(picked);
+  if (!result.success) throw new Error(`Invalid orchestrator settings on "${project.name}": ${result.error.message}`);
+  return result.data;
+}
+
+// ============================================
+// STATE
+// ============================================
+/** A task over its SLA limit (see escalations) */
+export type Stall = {
+  task_id: string;
+  title: string;
+  status: TaskStatus;
+  assignee: string | null;
+  team: string | null;
+  hours: number;
+  limit: number;
+};
+
+export type OrchestratorState = {
+  project: { id: string; name: string; status: Project['status'] };
+  settings: OrchestratorSettings;
+  running: boolean;
+  budget: {
+    concurrent: { used: number; max: number };
+    /** Hours spent on done tasks plus estimates of work in flight; unestimated tasks count default_estimate_hours */
+    hours: { committed: number; max: number | null };
+  };
+  ready: Task[];
+  stalled: Stall[];
+  queue: WorkItem[];
+};
+
+function estimateOf(task: Task, settings: OrchestratorSettings): number {
+  return task.estimated_hours ?? settings.default_estimate_hours;
+}
+
+function committedHours(task: Task, settings: OrchestratorSettings): number {
+  if (task.status === 'done') return task.actual_hours ?? estimateOf(task, settings);
+  if (IN_FLIGHT.includes(task.status)) return Math.max(estimateOf(task, settings), task.actual_hours ?? 0);
+  return 0;
+}
+
+/**
+ * Ready tasks are backlog or todo leaves whose blockers are all done, that
+ * have a team or agent and are not queued yet; highest priority first.
+ */
+function readyTasks(tasks: Task[], queued: Set<string>): Task[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const openParents = new Set(tasks.filter((t) => t.parent_id && t.status !== 'done').map((t) => t.parent_id));
+  
+  return tasks
+    .filter((t) => (t.status === 'backlog' || t.status === 'todo')
+      && !queued.has(t.id)
+      && !openParents.has(t.id)
+      && (t.assigned_team || t.assigned_agent)
+      && (t.blocked_by ?? []).every((id) => byId.get(id)?.status === 'done'))
+    .sort((a, b) => PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority] || a.created_at.localeCompare(b.created_at));
+}
+
+export async function getOrchestratorState(project: Project, now = Date.now()): Promise<OrchestratorState> {
+  const settings = orchestratorSettings(project);
+  const storage = getStorage();
+  const [tasks, history, queue] = await Promise.all([
+    storage.tasks.list({ where: { project_id: project.id } }),
+    storage.taskStatusHistory.list({ where: { project_id: project.id } }),
+    listOpenWork({ projectId: project.id }),
+  ]);
+  
+  const queuedTasks = new Set(queue.map((i) => i.task_id));
+  const inFlight = new Set([...tasks.filter((t) => IN_FLIGHT.includes(t.status)).map((t) => t.id), ...queuedTasks]);
+  
+  const rules = slaRules(project);
+  const stalled = tasks
+    .flatMap((t): Stall[] => {
+      const limit = slaFor(rules, t);
+      if (limit === null) return [];
+      return [{
+        task_id: t.id,
+        title: t.title,
+        status: t.status,
+        assignee: t.assigned_agent,
+        team: t.assigned_team,
+        hours: hoursInCurrentStatus(t, history, now),
+        limit,
+      }];
+    })
+    .filter((s) => s.hours > s.limit);
+  
+  return {
+    project: { id: project.id, name: project.name, status: project.status },
+    settings,
+    running: settings.autonomous && project.status === 'active',
+    budget: {
+      concurrent: { used: inFlight.size, max: settings.max_concurrent_tasks },
+      hours: {
+        committed: tasks.reduce((sum, t) => sum + (queuedTasks.has(t.id) ? estimateOf(t, settings) : committedHours(t, settings)), 0),
+        max: settings.max_total_hours,
+      },
+    },
+    ready: readyTasks(tasks, queuedTasks),
+    stalled,
+    queue,
+  };
+}
+
+// ============================================
+// ORCHESTRATION
+// ============================================
+export type OrchestrationResult = {
+  project_id: string;
+  dry_run: boolean;
+  dispatched: Array<{ task_id: string; title: string; agent: string; priority: Task['priority'] }>;
+  escalations: Pick<EscalationCheck, 'opened' | 'raised' | 'resolved'>;
+  closed: number;
+  skipped: Array<{ task_id: string; title: string; reason: string }>;
+  budget: OrchestratorState['budget'];
+  budget_exhausted: boolean;
+};
+
+/**
+ * One pass over an autonomous project: closes finished queue items, queues
+ * ready tasks for their agents within the concurrency and hour budgets, and
+ * opens or raises SLA escalations for stalled tasks. Every decision is logged.
+ */
+export async function orchestrateProject(project: Project, options: { dryRun?: boolean } = {}): Promise<OrchestrationResult> {
+  const dryRun = options.dryRun ?? false;
+  const closed = dryRun
+    ? []
+    : await reconcileWork(project.id, await getStorage().tasks.list({ where: { project_id: project.id } }), ORCHESTRATOR);
+  
+  const state = await getOrchestratorState(project);
+  const result: OrchestrationResult = {
+    project_id: project.id,
+    dry_run: dryRun,
+    dispatched: [],
+    escalations: { opened: [], raised: [], resolved: [] },
+    closed: closed.length,
+    skipped: [],
+    budget: state.budget,
+    budget_exhausted: false,
+  };
+  
+  let slots = state.budget.concurrent.max - state.budget.concurrent.used;
+  let committed = state.budget.hours.committed;
+  const contexts = new Map<string, AssignmentContext>();
+  
+  for (const task of state.ready) {
+    if (slots <= 0) break;
+    
+    const estimate = estimateOf(task, state.settings);
+    if (state.budget.hours.max !== null && committed + estimate > state.budget.hours.max) {
+      result.budget_exhausted = true;
+      result.skipped.push({ task_id: task.id, title: task.title, reason: `would exceed ${state.budget.hours.max}h budget (${committed}h committed)` });
+      continue;
+    }
+    
+    let agent = task.assigned_agent;
+    if (!agent) {
+      const team = task.assigned_team!;
+      try {
+        if (!contexts.has(team)) contexts.set(team, await loadAssignmentContext(team));
+      } catch (error) {
+        result.skipped.push({ task_id: task.id, title: task.title, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      const context = contexts.get(team)!;
+      const best = rankCandidates(task, context)[0];
+      if (!best) continue;
+      agent = best.agent;
+      recordAssignment(context, agent, task.priority);
+    }
+    
+    result.dispatched.push({ task_id: task.id, title: task.title, agent, priority: task.priority });
+    slots--;
+    committed += estimate;
+    if (dryRun) continue;
+    
+    const ready = task.assigned_agent
+      ? task.status === 'backlog' ? await transitionTask(task, 'todo', { agent: ORCHESTRATOR }) : task
+      : await assignTask(task, { team: task.assigned_team, agent }, ORCHESTRATOR);
+    await enqueueWork({ task: ready, kind: 'task', agent, reason: 'next ready task', createdBy: ORCHESTRATOR });
+    await logActivity(ORCHESTRATOR, 'orchestrator_dispatched', { task: task.title, agent, priority: task.priority, slots_left: slots }, {
+      projectId: project.id,
+      team: task.assigned_team ?? undefined,
+      relatedId: task.id,
+      relatedType: 'task',
+    });
+  }
+  
+  const { opened, raised, resolved } = await checkEscalations(project, { dryRun });
+  result.escalations = { opened, raised, resolved };
+  
+  if (!dryRun) await recordBudgetState(project, result);
+  return result;
+}
+
+/** Logs budget exhaustion once when it starts, and once when it ends */
+async function recordBudgetState(project: Project, result: OrchestrationResult): Promise<void> {
+  const wasExhausted = project.metadata.orchestrator_budget_exhausted === true;
+  if (wasExhausted === result.budget_exhausted) return;
+  
+  await getStorage().projects.update(project.id, {
+    metadata: { ...project.metadata, orchestrator_budget_exhausted: result.budget_exhausted },
+  });
+  await logActivity(ORCHESTRATOR, result.budget_exhausted ? 'orchestrator_budget_exhausted' : 'orchestrator_budget_available', {
+    committed_hours: result.budget.hours.committed,
+    max_total_hours: result.budget.hours.max,
+  }, { projectId: project.id });
+}
+
+/** Runs every active project with settings.autonomous; paused projects are left alone */
+export async function orchestrateAll(): Promise<OrchestrationResult[]> {
+  const projects = await getStorage().projects.list({ where: { status: 'active' } });
+  const results: OrchestrationResult[] = [];
+  
+  for (const project of projects.filter((p) => p.settings.autonomous === true)) {
+    try {
+      results.push(await orchestrateProject(project));
+    } catch (error) {
+      console.error(`Orchestrator failed for ${project.slug}:`, error);
+      await logActivity(ORCHESTRATOR, 'orchestrator_failed', { error: error instanceof Error ? error.message : String(error) }, {
+        projectId: project.id,
+      }).catch(() => undefined);
+    }
+  }
+  return results;
+}
\ No newline at end of file
@@ -0,0 +1,345 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { logActivity } from '../db/storage.js';
+import { findAgent, resolveAgentName } from './registry.js';
+
+// ============================================
+// POLICY FILE
+// ============================================
+const rolePolicySchema = z.object({
+  description: z.string().optional(),
+  tools: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+  transitions: z.array(z.string()).default([]),
+});
+
+const policySchema = z.object({
+  default_roles: z.array(z.string()).default([]),
+  anonymous_roles: z.array(z.string()).default([]),
+  agents: z.record(z.array(z.string())).default({}),
+  exempt: z.array(z.string()).default([]),
+  roles: z.record(rolePolicySchema),
+});
+
+export type PermissionPolicy = z.infer<typeof policySchema>;
+
+export type PermissionDecision = {
+  allowed: boolean;
+  agent: string;
+  tool: string;
+  roles: string[];
+  transition: string | null;
+  reason: string;
+};
+
+/** Tools whose `status` argument is a status transition of the given entity */
+const STATUS_TOOLS: Record<string, string> = {
+  ha_task_status: 'task',
+  ha_task_update: 'task',
+  ha_project_update: 'project',
+};
+
+/**
+ * The argument naming the calling agent, per tool. `null` marks tools that
+ * take no caller from their arguments, including those whose `agent`
+ * argument is a filter or target (listing a teammate's tasks); they count as
+ * anonymous unless the connection is authenticated. Every registered tool
+ * must be listed, `enforcePermissions` refuses to register one that is not.
+ */
+const TOOL_CALLER_ARGUMENT: Record<string, string | null> = {
+  ha_project_create: 'agent',
+  ha_project_update: 'agent',
+  ha_project_get: null,
+  ha_project_list: null,
+  ha_status_project: null,
+  ha_task_create: 'created_by',
+  ha_task_list: null,
+  ha_task_update: 'updated_by',
+  ha_task_assign: 'assigned_by',
+  ha_task_status: 'agent',
+  ha_task_my_tasks: null,
+  ha_task_team_tasks: null,
+  ha_activity_log: 'agent',
+  ha_activity_get: null,
+  ha_agent_list: null,
+  ha_team_list: null,
+  ha_ai_generate_image: 'agent',
+  ha_ai_generate_video: 'agent',
+  ha_content_draft: 'created_by',
+  ha_content_update: 'agent',
+  ha_content_schedule: 'agent',
+  ha_content_reschedule: 'agent',
+  ha_content_cancel: 'agent',
+  ha_content_get: null,
+  ha_content_list: null,
+  ha_content_calendar: null,
+  ha_content_publish_due: null,
+  ha_escalation_list: null,
+  ha_escalation_check: null,
+  ha_escalation_acknowledge: 'agent',
+  ha_escalation_resolve: 'agent',
+  ha_file_write: 'agent',
+  ha_file_attach: 'agent',
+  ha_file_read: null,
+  ha_file_list: null,
+  ha_task_deliverables: null,
+  ha_handoff_create: 'from_agent',
+  ha_handoff_accept: 'agent',
+  ha_handoff_reject: 'agent',
+  ha_handoff_request_info: 'agent',
+  ha_handoff_reply: 'agent',
+  ha_handoff_list: null,
+  ha_handoff_chain: null,
+  ha_job_status: null,
+  ha_job_list: null,
+  ha_learning_create: 'created_by',
+  ha_learning_update: 'updated_by',
+  ha_learning_get: null,
+  ha_learning_list: null,
+  ha_learning_search: null,
+  ha_learning_semantic_search: null,
+  ha_learning_sync_embeddings: null,
+  ha_meeting_schedule: 'initiated_by',
+  ha_meeting_start: 'agent',
+  ha_meeting_say: 'speaker',
+  ha_meeting_close: 'agent',
+  ha_meeting_cancel: 'agent',
+  ha_meeting_get: null,
+  ha_meeting_list: null,
+  ha_message_send: 'from',
+  ha_message_inbox: 'agent',
+  ha_message_thread: 'agent',
+  ha_message_mark_read: 'agent',
+  ha_orchestrator_configure: 'agent',
+  ha_orchestrator_run: 'agent',
+  ha_orchestrator_status: null,
+  ha_work_next: 'agent',
+  ha_work_claim: 'agent',
+  ha_permissions_check: null,
+  ha_report: null,
+  ha_standup: 'agent',
+  ha_roadmap_create: 'agent',
+  ha_roadmap_update: 'agent',
+  ha_milestone_add: 'agent',
+  ha_milestone_update: 'agent',
+  ha_milestone_remove: 'agent',
+  ha_roadmap_attach_tasks: 'agent',
+  ha_roadmap_detach_tasks: 'agent',
+  ha_roadmap_get: null,
+  ha_roadmap_list: null,
+  ha_roadmap_progress: null,
+  ha_task_depend_add: 'agent',
+  ha_task_depend_remove: 'agent',
+  ha_task_move: 'agent',
+  ha_task_auto_assign: 'agent',
+  ha_task_graph: null,
+  ha_task_history: null,
+  ha_task_tree: null,
+  ha_template_save: 'agent',
+  ha_template_list: null,
+  ha_template_preview: null,
+  ha_time_start: 'agent',
+  ha_time_stop: 'agent',
+  ha_time_log: 'agent',
+  ha_time_current: 'agent',
+  ha_timesheet: null,
+};
+
+function policyFile(): string {
+  return process.env.HA_PERMISSIONS_FILE
+    ? resolve(process.env.HA_PERMISSIONS_FILE)
+    : fileURLToPath(new URL('../../permissions.json', import.meta.url));
+}
+
+let cached: Promise<PermissionPolicy | null> | null = null;
+
+/** Reads the policy file; a missing file disables enforcement, an invalid one is fatal */
+export function loadPolicy(): Promise<PermissionPolicy | null> {
+  const file = policyFile();
+  
+  cached = (async () => {
+    let source: string;
+    try {
+      source = await readFile(file, 'utf8');
+    } catch {
+      return null;
+    }
+    
+    const result = policySchema.safeParse(JSON.parse(source));
+    if (!result.success) {
+      throw new Error(`Invalid permissions policy ${file}: ${result.error.message}`);
+    }
+    return result.data;
+  })();
+  
+  return cached;
+}
+
+export function getPolicy(): Promise<PermissionPolicy | null> {
+  return cached ?? loadPolicy();
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+function matches(pattern: string, value: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(value);
+}
+
+export function callerOf(tool: string, args: Record<string, unknown>): string {
+  const key = TOOL_CALLER_ARGUMENT[tool];
+  const value = key ? args[key] : undefined;
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : 'anonymous';
+}
+
+export function transitionOf(tool: string, args: Record<string, unknown>): string | null {
+  const entity = STATUS_TOOLS[tool];
+  return entity && typeof args.status === 'string' ? `${entity}:${args.status}` : null;
+}
+
+/**
+ * Policy roles of an agent: its seniority, role-name parts that are policy
+ * roles (e.g. "qa"), plus explicit grants. Agents outside the roster get
+ * `default_roles`; calls that name no agent get `anonymous_roles`.
+ */
+export async function rolesOf(policy: PermissionPolicy, agent: string): Promise<string[]> {
+  if (agent === 'anonymous') return policy.anonymous_roles.filter((r) => r in policy.roles);
+  
+  const profile = await findAgent(agent);
+  const roles = profile
+    ? [profile.seniority, ...profile.role.split('-')]
+    : policy.default_roles;
+  
+  return [...new Set([...roles, ...(policy.agents[agent] ?? [])])].filter((r) => r in policy.roles);
+}
+
+/**
+ * `caller` is the authenticated agent, if any. Arguments naming a different
+ * caller are then refused, whether or not a policy is configured.
+ */
+export async function checkPermission(tool: string, args: Record<string, unknown>, caller?: string): Promise<PermissionDecision> {
+  const policy = await getPolicy();
+  const claimed = callerOf(tool, args);
+  const agent = caller ?? claimed;
+  const transition = transitionOf(tool, args);
+  const decision = (allowed: boolean, roles: string[], reason: string): PermissionDecision => ({
+    allowed,
+    agent,
+    tool,
+    roles,
+    transition,
+    reason,
+  });
+  
+  if (caller && claimed !== 'anonymous' && await resolveAgentName(claimed).catch(() => claimed) !== caller) {
+    return decision(false, [], impersonation(caller, claimed));
+  }
+  
+  if (!policy) return decision(true, [], 'No permissions policy configured');
+  if (policy.exempt.some((p) => matches(p, tool))) return decision(true, [], `${tool} is exempt`);
+  
+  const roles = await rolesOf(policy, agent);
+  const toolRoles = roles.filter((r) => {
+    const role = policy.roles[r]!;
+    return role.tools.some((p) => matches(p, tool)) && !role.deny.some((p) => matches(p, tool));
+  });
+  
+  if (toolRoles.length === 0) {
+    return decision(false, roles, roles.length > 0
+      ? `None of the roles ${roles.join(', ')} may use ${tool}`
+      : `${agent} has no role that may use ${tool}`);
+  }
+  
+  if (transition && !roles.some((r) => policy.roles[r]!.transitions.some((p) => matches(p, transition)))) {
+    return decision(false, roles, `None of the roles ${roles.join(', ')} may move a ${transition.replace(':', ' to ')}`);
+  }
+  
+  return decision(true, toolRoles, `Allowed by role ${toolRoles.join(', ')}`);
+}
+
+// ============================================
+// ENFORCEMENT
+// ============================================
+type ToolHandler = (...args: unknown[]) => unknown;
+
+/** Request context the SDK passes as the last handler argument */
+export type HandlerExtra = { authInfo?: { clientId?: string } };
+
+function impersonation(caller: string, claimed: string): string {
+  return `Authenticated as ${caller}; cannot act as ${claimed}`;
+}
+
+/**
+ * The agent a call acts as. On an authenticated connection that is the
+ * token's agent: it is the default, and naming anyone else is refused.
+ */
+export async function actingAgent(name: string | undefined, extra: HandlerExtra | undefined): Promise<string> {
+  const caller = extra?.authInfo?.clientId;
+  if (!name) {
+    if (!caller) throw new Error('agent is required');
+    return caller;
+  }
+  
+  const agent = await resolveAgentName(name);
+  if (caller && agent !== caller) throw new Error(impersonation(caller, agent));
+  return agent;
+}
+
+function isArgsShape(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && Object.values(value).every((v) => v instanceof z.ZodType);
+}
+
+export function deniedResult(decision: PermissionDecision) {
+  return {
+    isError: true,
+    content: [{ type: 'text' as const, text: JSON.stringify({ error: 'permission_denied', ...decision }, null, 2) }],
+  };
+}
+
+/**
+ * Wraps `server.tool` so every handler registered afterwards is checked
+ * against the policy first. Denials are logged and returned as a tool error.
+ * On an authenticated connection the token's agent is the caller and tool
+ * arguments may not name anyone else; the handler then receives that agent
+ * in the tool's caller argument, so the audit trail names who was
+ * authorized even when the argument was left out. Otherwise the caller
+ * comes from the tool arguments.
+ */
+export function enforcePermissions(server: McpServer): void {
+  const register = server.tool.bind(server) as (...params: unknown[]) => unknown;
+  
+  (server as unknown as { tool: (...params: unknown[]) => unknown }).tool = (...params: unknown[]) => {
+    const name = params[0] as string;
+    if (!(name in TOOL_CALLER_ARGUMENT)) throw new Error(`No caller argument declared for tool ${name}`);
+    const handler = params[params.length - 1] as ToolHandler;
+    const hasArgs = params.slice(1, -1).some(isArgsShape);
+    
+    const guarded: ToolHandler = async (...callArgs) => {
+      const args = hasArgs ? (callArgs[0] as Record<string, unknown>) : {};
+      const extra = callArgs[callArgs.length - 1] as HandlerExtra | undefined;
+      const caller = extra?.authInfo?.clientId;
+      const decision = await checkPermission(name, args, caller);
+      
+      if (!decision.allowed) {
+        await logActivity(decision.agent, 'permission_denied', {
+          tool: name,
+          transition: decision.transition,
+          roles: decision.roles,
+          reason: decision.reason,
+        }).catch((error) => console.error('Failed to log permission denial:', error));
+        return deniedResult(decision);
+      }
+      
+      const key = TOOL_CALLER_ARGUMENT[name];
+      if (caller && key && hasArgs) callArgs[0] = { ...args, [key]: caller };
+      return handler(...callArgs);
+    };
+    
+    return register(...params.slice(0, -1), guarded);
+  };
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+import type { ContentPlatform, ContentType } from '../db/supabase.js';
+
+// ============================================
+// PLATFORM RULES
+// ============================================
+export interface PlatformRules {
+  /** Max characters of a single post, hashtags included */
+  maxLength: number;
+  /** Per content type overrides of maxLength */
+  maxLengthByType?: Partial<Record<ContentType, number>>;
+  supportedTypes: ContentType[];
+  /** Max posts a `thread` item may be split into; absent when threads are unsupported */
+  maxThreadSegments?: number;
+  maxHashtags?: number;
+  maxTitleLength?: number;
+  /** Posting fails without an image or video attached */
+  requiresMedia: boolean;
+}
+
+export const PLATFORM_RULES: Record<ContentPlatform, PlatformRules> = {
+  twitter: {
+    maxLength: 280,
+    supportedTypes: ['post', 'thread', 'video'],
+    maxThreadSegments: 25,
+    requiresMedia: false,
+  },
+  threads: {
+    maxLength: 500,
+    supportedTypes: ['post', 'thread', 'video'],
+    maxThreadSegments: 25,
+    requiresMedia: false,
+  },
+  linkedin: {
+    maxLength: 3000,
+    maxLengthByType: { article: 110000, newsletter: 110000 },
+    supportedTypes: ['post', 'article', 'newsletter', 'video'],
+    requiresMedia: false,
+  },
+  instagram: {
+    maxLength: 2200,
+    supportedTypes: ['post', 'story', 'reel', 'video'],
+    maxHashtags: 30,
+    requiresMedia: true,
+  },
+  tiktok: {
+    maxLength: 2200,
+    supportedTypes: ['video', 'story'],
+    requiresMedia: true,
+  },
+  youtube: {
+    maxLength: 5000,
+    supportedTypes: ['video', 'reel', 'post'],
+    maxTitleLength: 100,
+    requiresMedia: true,
+  },
+  facebook: {
+    maxLength: 63206,
+    supportedTypes: ['post', 'story', 'reel', 'video'],
+    requiresMedia: false,
+  },
+  pinterest: {
+    maxLength: 500,
+    supportedTypes: ['post', 'video'],
+    maxTitleLength: 100,
+    requiresMedia: true,
+  },
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+export interface ContentDraft {
+  platform: ContentPlatform;
+  content_type: ContentType;
+  content: string;
+  title?: string | null;
+  hashtags?: string[] | null;
+}
+
+/** Post text as it will be published: content followed by its hashtags */
+export function composePostText(draft: Pick<ContentDraft, 'content' | 'hashtags'>): string {
+  const tags = (draft.hashtags ?? []).map((t) => (t.startsWith('#') ? t : `#${t}`));
+  return tags.length > 0 ? `${draft.content}\n\n${tags.join(' ')}` : draft.content;
+}
+
+export function validateContent(draft: ContentDraft): void {
+  const rules = PLATFORM_RULES[draft.platform];
+  const problems: string[] = [];
+  
+  if (!rules.supportedTypes.includes(draft.content_type)) {
+    problems.push(`${draft.platform} does not support ${draft.content_type} (supported: ${rules.supportedTypes.join(', ')})`);
+  }
+  
+  const text = composePostText(draft);
+  const limit = rules.maxLengthByType?.[draft.content_type] ?? rules.maxLength;
+  
+  if (draft.content_type === 'thread' && rules.maxThreadSegments) {
+    const segments = splitThread(text, limit);
+    if (segments.length > rules.maxThreadSegments) {
+      problems.push(`Thread needs ${segments.length} posts, ${draft.platform} allows ${rules.maxThreadSegments}`);
+    }
+  } else if (text.length > limit) {
+    problems.push(`Content is ${text.length} characters, ${draft.platform} ${draft.content_type} allows ${limit}`);
+  }
+  
+  if (rules.maxHashtags && (draft.hashtags?.length ?? 0) > rules.maxHashtags) {
+    problems.push(`${draft.hashtags?.length} hashtags, ${draft.platform} allows ${rules.maxHashtags}`);
+  }
+  
+  if (rules.maxTitleLength && draft.title && draft.title.length > rules.maxTitleLength) {
+    problems.push(`Title is ${draft.title.length} characters, ${draft.platform} allows ${rules.maxTitleLength}`);
+  }
+  
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${draft.platform} content: ${problems.join('; ')}`);
+  }
+}
+
+// ============================================
+// THREAD SPLITTING
+// ============================================
+/**
+ * Splits text into posts of at most `limit` characters, preferring paragraph,
+ * then sentence, then word boundaries. Words longer than the limit are cut.
+ */
+export function splitThread(text: string, limit: number): string[] {
+  const segments: string[] = [];
+  let current = '';
+  
+  const push = (piece: string, separator: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= limit) {
+      current += separator + piece;
+    } else {
+      segments.push(current);
+      current = piece;
+    }
+  };
+  
+  for (const paragraph of text.split(/\n{2,}/).map((p) => p.trim()).filter(Boolean)) {
+    if (paragraph.length <= limit) {
+      push(paragraph, '\n\n');
+      continue;
+    }
+    
+    const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g)?.map((s) => s.trim()).filter(Boolean) ?? [paragraph];
+    let first = true;
+    for (const sentence of sentences) {
+      const joiner = first ? '\n\n' : ' ';
+      first = false;
+      if (sentence.length <= limit) {
+        push(sentence, joiner);
+        continue;
+      }
+      for (const word of sentence.split(/\s+/)) {
+        for (let i = 0; i < word.length; i += limit) {
+          push(word.slice(i, i + limit), i === 0 ? ' ' : '');
+        }
+      }
+    }
+  }
+  
+  if (current) segments.push(current);
+  return segments;
+}
\ No newline at end of file
@@ -0,0 +1,249 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export type Seniority = 'junior' | 'mid' | 'senior' | 'lead' | 'executive';
+
+export type AgentProfile = {
+  name: string;
+  team: string;
+  role: string;
+  seniority: Seniority;
+  skills: string[];
+  file: string;
+};
+
+export type TeamProfile = {
+  name: string;
+  lead: string | null;
+  members: string[];
+};
+
+export type Registry = {
+  agents: AgentProfile[];
+  teams: TeamProfile[];
+  dir: string;
+};
+
+const EXECUTIVE_ROLES = ['ceo', 'cto', 'coo', 'cmo', 'cfo'];
+/** Role words that say nothing about a specialty */
+const GENERIC_ROLE_WORDS = ['tech', 'lead', 'senior', 'junior', 'dev'];
+const SENIORITIES: Seniority[] = ['junior', 'mid', 'senior', 'lead', 'executive'];
+
+/** agents/ at the repository root, relative to src/lib or dist/lib */
+function agentsDir(): string {
+  return process.env.HA_AGENTS_DIR
+    ? resolve(process.env.HA_AGENTS_DIR)
+    : fileURLToPath(new URL('../../../agents', import.meta.url));
+}
+
+// ============================================
+// PARSING
+// ============================================
+/**
+ * Minimal frontmatter reader: `key: value`, `key: [a, b]` and
+ * `key:` followed by `- item` lines. Anything else is ignored.
+ */
+export function parseFrontmatter(source: string): Record<string, string | string[]> {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---/.exec(source);
+  if (!match) return {};
+  
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  
+  for (const raw of match[1]!.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    const item = /^\s*-\s+(.+)$/.exec(line);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]!));
+      continue;
+    }
+    
+    const pair = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+    if (!pair) continue;
+    
+    const key = pair[1]!.toLowerCase();
+    const value = pair[2]!.trim();
+    listKey = null;
+    
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      fields[key] = unquote(value);
+    }
+  }
+  return fields;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+export function inferSeniority(role: string, team: string): Seniority {
+  const parts = role.split('-');
+  if (team === 'leadership' || parts.some((p) => EXECUTIVE_ROLES.includes(p))) return 'executive';
+  if (parts.includes('junior')) return 'junior';
+  if (parts.includes('lead')) return 'lead';
+  if (parts.includes('senior')) return 'senior';
+  return 'mid';
+}
+
+async function loadAgent(dir: string, team: string, file: string): Promise<AgentProfile> {
+  // <name>-<role>.md, e.g. marcus-tech-lead-backend.md
+  const stem = basename(file, '.md').toLowerCase();
+  const [name, ...roleParts] = stem.split('-');
+  const fields = parseFrontmatter(await readFile(join(dir, team, file), 'utf8'));
+  
+  const role = typeof fields.role === 'string' ? fields.role.toLowerCase().replace(/\s+/g, '-') : roleParts.join('-');
+  const seniority = typeof fields.seniority === 'string' && SENIORITIES.includes(fields.seniority.toLowerCase() as Seniority)
+    ? fields.seniority.toLowerCase() as Seniority
+    : inferSeniority(role, team);
+  const skills = Array.isArray(fields.skills)
+    ? fields.skills
+    : typeof fields.skills === 'string' ? fields.skills.split(',') : [];
+  
+  return {
+    name: typeof fields.name === 'string' ? fields.name.toLowerCase() : name!,
+    team,
+    role,
+    seniority,
+    skills: skills.map((s) => s.trim().toLowerCase()).filter(Boolean),
+    file: `agents/${team}/${file}`,
+  };
+}
+
+// ============================================
+// LOADING
+// ============================================
+let cached: Promise<Registry> | null = null;
+
+export function loadRegistry(): Promise<Registry> {
+  const dir = agentsDir();
+  
+  cached = (async () => {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    const agents: AgentProfile[] = [];
+    
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('_') || entry.name.startsWith('.')) continue;
+      
+      const files = await readdir(join(dir, entry.name));
+      for (const file of files.filter((f) => f.endsWith('.md') && !f.startsWith('_'))) {
+        agents.push(await loadAgent(dir, entry.name.toLowerCase(), file));
+      }
+    }
+    
+    // Without a roster every agent and team name is accepted as typed
+    if (agents.length === 0) {
+      if (process.env.HA_AGENTS_DIR) throw new Error(`HA_AGENTS_DIR has no agent profiles: ${dir}`);
+      console.error(`Warning: no agent profiles in ${dir}; agent and team names are not validated`);
+    }
+    
+    agents.sort((a, b) => a.team.localeCompare(b.team) || a.name.localeCompare(b.name));
+    
+    const teams = [...new Set(agents.map((a) => a.team))].map((name): TeamProfile => {
+      const members = agents.filter((a) => a.team === name);
+      const lead = members.find((a) => a.seniority === 'lead') ?? members.find((a) => a.seniority === 'executive');
+      return { name, lead: lead?.name ?? null, members: members.map((a) => a.name) };
+    });
+    
+    return { agents, teams, dir };
+  })();
+  
+  return cached;
+}
+
+export function getRegistry(): Promise<Registry> {
+  return cached ?? loadRegistry();
+}
+
+export async function findAgent(name: string): Promise<AgentProfile | undefined> {
+  const { agents } = await getRegistry();
+  return agents.find((a) => a.name === name.toLowerCase());
+}
+
+/**
+ * The team lead whose role shares a specialty with the hints, e.g. hints
+ * ["junior-backend"] pick "tech-lead-backend". Falls back to the team's lead.
+ */
+export async function findTeamLead(team: string, hints: string[]): Promise<string | null> {
+  const { agents, teams } = await getRegistry();
+  const words = new Set(hints.flatMap((h) => h.toLowerCase().split('-')).filter((w) => !GENERIC_ROLE_WORDS.includes(w)));
+  
+  const match = agents.find((a) => a.team === team && a.seniority === 'lead' && a.role.split('-').some((w) => words.has(w)));
+  return match?.name ?? teams.find((t) => t.name === team)?.lead ?? null;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+function suggestions(input: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(2, Math.floor(input.length / 3));
+  return candidates
+    .map((c) => ({ c, d: c.startsWith(input) || input.startsWith(c) ? 1 : levenshtein(input, c) }))
+    .filter(({ d }) => d <= maxDistance)
+    .sort((a, b) => a.d - b.d || a.c.localeCompare(b.c))
+    .slice(0, 3)
+    .map(({ c }) => c);
+}
+
+function unknownName(kind: string, input: string, candidates: string[]): Error {
+  const close = suggestions(input, candidates);
+  return new Error(close.length > 0
+    ? `Unknown ${kind} "${input}". Did you mean: ${close.join(', ')}?`
+    : `Unknown ${kind} "${input}". Known ${kind}s: ${candidates.join(', ')}`);
+}
+
+/** Canonical agent name; accepts "marcus" or the file stem "marcus-tech-lead-backend" */
+export async function resolveAgentName(input: string): Promise<string> {
+  const { agents } = await getRegistry();
+  const name = input.trim().toLowerCase();
+  if (agents.length === 0) return name;
+  
+  const agent = agents.find((a) => a.name === name || `${a.name}-${a.role}` === name);
+  if (!agent) throw unknownName('agent', name, agents.map((a) => a.name));
+  return agent.name;
+}
+
+export async function resolveTeamName(input: string): Promise<string> {
+  const { teams } = await getRegistry();
+  const name = input.trim().toLowerCase();
+  if (teams.length === 0) return name;
+  
+  if (!teams.some((t) => t.name === name)) throw unknownName('team', name, teams.map((t) => t.name));
+  return name;
+}
+
+/**
+ * Validates a team/agent pair against the roster. The team is filled in from
+ * the agent when omitted; an agent outside the given team is rejected.
+ */
+export async function resolveAssignee(input: { team?: string | null; agent?: string | null }): Promise<{ team: string | null; agent: string | null }> {
+  const agent = input.agent ? await resolveAgentName(input.agent) : null;
+  let team = input.team ? await resolveTeamName(input.team) : null;
+  
+  const profile = agent ? await findAgent(agent) : undefined;
+  if (profile) {
+    if (team && team !== profile.team) {
+      throw new Error(`Agent ${agent} is not in team ${team} (member of ${profile.team})`);
+    }
+    team = profile.team;
+  }
+  
+  return { team, agent };
+}
\ No newline at end of file
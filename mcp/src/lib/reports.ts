@@ -0,0 +1,371 @@
+import { getStorage } from '../db/storage.js';
+import type { PriorityLevel, Project, Task, TaskStatus } from '../db/supabase.js';
+import { hoursInCurrentStatus } from './status-history.js';
+
+const DAY = 86400000;
+
+/** Open tasks listed in the aging section */
+const AGING_LIMIT = 10;
+
+/** Done tasks listed as the largest estimate misses */
+const MISS_LIMIT = 5;
+
+/** Longest report range in days; the burndown has a point per day */
+const MAX_RANGE_DAYS = 731;
+
+export const REPORT_SECTIONS = ['burndown', 'velocity', 'cycle_time', 'overdue', 'aging', 'estimates'] as const;
+
+export type ReportSection = (typeof REPORT_SECTIONS)[number];
+
+export type Distribution = {
+  count: number;
+  min: number | null;
+  p50: number | null;
+  p85: number | null;
+  p95: number | null;
+  max: number | null;
+  mean: number | null;
+};
+
+export type BurnPoint = {
+  date: string;
+  /** Tasks that existed by the end of the day */
+  scope: number;
+  completed: number;
+  remaining: number;
+  scope_hours: number;
+  completed_hours: number;
+  remaining_hours: number;
+};
+
+export type ReportTask = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: PriorityLevel;
+  team: string | null;
+  agent: string | null;
+};
+
+export type ProjectReport = {
+  project: { id: string; name: string; slug: string; status: Project['status'] };
+  team: string | null;
+  from: string;
+  to: string;
+  generated_at: string;
+  burndown: BurnPoint[];
+  velocity: Array<{ week: string; team: string; tasks: number; hours: number }>;
+  cycle_time: { cycle: Distribution; lead: Distribution; by_team: Record<string, Distribution> };
+  overdue: Array<ReportTask & { due_date: string; days_overdue: number }>;
+  aging: Array<ReportTask & { hours_in_status: number }>;
+  estimates: {
+    tasks: number;
+    estimated_hours: number;
+    actual_hours: number;
+    /** actual / estimated over all measured tasks; above 1 means underestimated */
+    ratio: number | null;
+    mean_abs_error_pct: number | null;
+    by_team: Record<string, { tasks: number; estimated_hours: number; actual_hours: number; ratio: number | null }>;
+    largest_misses: Array<ReportTask & { estimated_hours: number; actual_hours: number; error_pct: number }>;
+  };
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function day(iso: string | number): string {
+  return new Date(iso).toISOString().slice(0, 10);
+}
+
+/** Monday of the ISO week, as YYYY-MM-DD */
+function weekOf(iso: string): string {
+  const date = new Date(day(iso));
+  const offset = (date.getUTCDay() + 6) % 7;
+  return day(date.getTime() - offset * DAY);
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return round(sorted[Math.max(0, index)]!);
+}
+
+export function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted.length > 0 ? round(sorted[0]!) : null,
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+    max: sorted.length > 0 ? round(sorted[sorted.length - 1]!) : null,
+    mean: sorted.length > 0 ? round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length) : null,
+  };
+}
+
+function hoursBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / 3600000;
+}
+
+function summary(task: Task): ReportTask {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    priority: task.priority,
+    team: task.assigned_team,
+    agent: task.assigned_agent,
+  };
+}
+
+// ============================================
+// METRICS
+// ============================================
+function burndown(tasks: Task[], from: string, to: string): BurnPoint[] {
+  const points: BurnPoint[] = [];
+  for (let at = Date.parse(from); at <= Date.parse(to); at += DAY) {
+    const date = day(at);
+    const scope = tasks.filter((t) => day(t.created_at) <= date);
+    const completed = scope.filter((t) => t.completed_at && day(t.completed_at) <= date);
+    const hours = (list: Task[]) => round(list.reduce((sum, t) => sum + (t.estimated_hours ?? 0), 0));
+    
+    points.push({
+      date,
+      scope: scope.length,
+      completed: completed.length,
+      remaining: scope.length - completed.length,
+      scope_hours: hours(scope),
+      completed_hours: hours(completed),
+      remaining_hours: round(hours(scope) - hours(completed)),
+    });
+  }
+  return points;
+}
+
+function velocity(done: Task[]): ProjectReport['velocity'] {
+  const weeks = new Map<string, { week: string; team: string; tasks: number; hours: number }>();
+  for (const task of done) {
+    const week = weekOf(task.completed_at!);
+    const team = task.assigned_team ?? 'unassigned';
+    const key = `${week}|${team}`;
+    const entry = weeks.get(key) ?? { week, team, tasks: 0, hours: 0 };
+    entry.tasks++;
+    entry.hours = round(entry.hours + (task.estimated_hours ?? 0));
+    weeks.set(key, entry);
+  }
+  return [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week) || a.team.localeCompare(b.team));
+}
+
+function cycleTimes(done: Task[]): ProjectReport['cycle_time'] {
+  const started = done.filter((t) => t.started_at);
+  const byTeam = new Map<string, number[]>();
+  for (const task of started) {
+    const team = task.assigned_team ?? 'unassigned';
+    byTeam.set(team, [...(byTeam.get(team) ?? []), hoursBetween(task.started_at!, task.completed_at!)]);
+  }
+  
+  return {
+    cycle: distribution(started.map((t) => hoursBetween(t.started_at!, t.completed_at!))),
+    lead: distribution(done.map((t) => hoursBetween(t.created_at, t.completed_at!))),
+    by_team: Object.fromEntries([...byTeam].map(([team, values]) => [team, distribution(values)])),
+  };
+}
+
+function estimates(done: Task[]): ProjectReport['estimates'] {
+  const measured = done.filter((t) => (t.estimated_hours ?? 0) > 0 && t.actual_hours !== null);
+  const total = (list: Task[], key: 'estimated_hours' | 'actual_hours') => round(list.reduce((sum, t) => sum + (t[key] ?? 0), 0));
+  const ratio = (list: Task[]) => (total(list, 'estimated_hours') > 0 ? round(total(list, 'actual_hours') / total(list, 'estimated_hours')) : null);
+  const errorPct = (t: Task) => round(((t.actual_hours! - t.estimated_hours!) / t.estimated_hours!) * 100);
+  
+  const teams = new Map<string, Task[]>();
+  for (const task of measured) {
+    const team = task.assigned_team ?? 'unassigned';
+    teams.set(team, [...(teams.get(team) ?? []), task]);
+  }
+  
+  return {
+    tasks: measured.length,
+    estimated_hours: total(measured, 'estimated_hours'),
+    actual_hours: total(measured, 'actual_hours'),
+    ratio: ratio(measured),
+    mean_abs_error_pct: measured.length > 0
+      ? round(measured.reduce((sum, t) => sum + Math.abs(errorPct(t)), 0) / measured.length)
+      : null,
+    by_team: Object.fromEntries([...teams].map(([team, list]) => [team, {
+      tasks: list.length,
+      estimated_hours: total(list, 'estimated_hours'),
+      actual_hours: total(list, 'actual_hours'),
+      ratio: ratio(list),
+    }])),
+    largest_misses: measured
+      .map((t) => ({ ...summary(t), estimated_hours: t.estimated_hours!, actual_hours: t.actual_hours!, error_pct: errorPct(t) }))
+      .sort((a, b) => Math.abs(b.error_pct) - Math.abs(a.error_pct))
+      .slice(0, MISS_LIMIT),
+  };
+}
+
+// ============================================
+// REPORT
+// ============================================
+/**
+ * Project metrics over [from, to] (default: project start until today), at
+ * most two years; without `from` the range starts two years before `to`
+ * for older projects.
+ * Burndown and velocity count completions inside the range; overdue and
+ * aging describe the tasks as they are now.
+ */
+export async function buildProjectReport(project: Project, options: { from?: string; to?: string; team?: string } = {}): Promise<ProjectReport> {
+  const now = Date.now();
+  const storage = getStorage();
+  const [all, history] = await Promise.all([
+    storage.tasks.list({ where: { project_id: project.id, assigned_team: options.team } }),
+    storage.taskStatusHistory.list({ where: { project_id: project.id } }),
+  ]);
+  
+  const to = options.to ?? day(now);
+  const start = Math.min(Date.parse(project.created_at), ...all.map((t) => Date.parse(t.created_at)));
+  const from = options.from ?? day(Math.max(start, Date.parse(to) - MAX_RANGE_DAYS * DAY));
+  if (Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) throw new Error('from and to must be dates (YYYY-MM-DD)');
+  if (to < from) throw new Error('to must not be before from');
+  if (Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * DAY) throw new Error(`Reports cover at most ${MAX_RANGE_DAYS} days; narrow from and to`);
+  
+  const done = all.filter((t) => t.status === 'done' && t.completed_at && day(t.completed_at) >= from && day(t.completed_at) <= to);
+  const open = all.filter((t) => t.status !== 'done');
+  const today = day(now);
+  
+  return {
+    project: { id: project.id, name: project.name, slug: project.slug, status: project.status },
+    team: options.team ?? null,
+    from,
+    to,
+    generated_at: new Date(now).toISOString(),
+    burndown: burndown(all, from, to),
+    velocity: velocity(done),
+    cycle_time: cycleTimes(done),
+    overdue: open
+      .filter((t) => t.due_date && day(t.due_date) < today)
+      .map((t) => ({ ...summary(t), due_date: day(t.due_date!), days_overdue: Math.floor((Date.parse(today) - Date.parse(day(t.due_date!))) / DAY) }))
+      .sort((a, b) => b.days_overdue - a.days_overdue),
+    aging: open
+      .filter((t) => t.status !== 'backlog')
+      .map((t) => ({ ...summary(t), hours_in_status: hoursInCurrentStatus(t, history, now) }))
+      .sort((a, b) => b.hours_in_status - a.hours_in_status)
+      .slice(0, AGING_LIMIT),
+    estimates: estimates(done),
+  };
+}
+
+// ============================================
+// FORMATS
+// ============================================
+function table(headers: string[], rows: Array<Array<string | number | null>>): string {
+  if (rows.length === 0) return '_None_';
+  const cell = (value: string | number | null) => (value === null ? '–' : String(value).replace(/\|/g, '\\|'));
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function distributionRow(label: string, d: Distribution): Array<string | number | null> {
+  return [label, d.count, d.p50, d.p85, d.p95, d.max, d.mean];
+}
+
+export function reportToMarkdown(report: ProjectReport): string {
+  const last = report.burndown[report.burndown.length - 1];
+  // Long ranges are shown weekly; the CSV and JSON keep every day
+  const points = report.burndown.length > 31
+    ? report.burndown.filter((_, i, all) => i % 7 === 0 || i === all.length - 1)
+    : report.burndown;
+  const distributionHeaders = ['', 'Tasks', 'p50 h', 'p85 h', 'p95 h', 'Max h', 'Mean h'];
+  
+  return [
+    `# ${report.project.name} report${report.team ? ` (${report.team})` : ''}`,
+    `${report.from} – ${report.to} · generated ${report.generated_at.slice(0, 16).replace('T', ' ')} UTC`,
+    '',
+    '## Burndown',
+    last
+      ? `${last.completed}/${last.scope} tasks done, ${last.remaining} remaining (${last.remaining_hours}h of ${last.scope_hours}h estimated).`
+      : '_No data_',
+    '',
+    table(['Date', 'Scope', 'Done', 'Remaining', 'Remaining h'], points.map((p) => [p.date, p.scope, p.completed, p.remaining, p.remaining_hours])),
+    '',
+    '## Weekly velocity',
+    table(['Week of', 'Team', 'Tasks', 'Estimated h'], report.velocity.map((v) => [v.week, v.team, v.tasks, v.hours])),
+    '',
+    '## Cycle and lead time',
+    table(distributionHeaders, [
+      distributionRow('Cycle (start → done)', report.cycle_time.cycle),
+      distributionRow('Lead (created → done)', report.cycle_time.lead),
+      ...Object.entries(report.cycle_time.by_team).map(([team, d]) => distributionRow(`Cycle · ${team}`, d)),
+    ]),
+    '',
+    '## Overdue',
+    table(['Task', 'Priority', 'Status', 'Assignee', 'Due', 'Days over'], report.overdue.map((t) => [t.title, t.priority, t.status, t.agent ?? t.team, t.due_date, t.days_overdue])),
+    '',
+    '## Aging',
+    table(['Task', 'Status', 'Assignee', 'Hours in status'], report.aging.map((t) => [t.title, t.status, t.agent ?? t.team, t.hours_in_status])),
+    '',
+    '## Estimate accuracy',
+    report.estimates.tasks > 0
+      ? `${report.estimates.tasks} tasks: ${report.estimates.actual_hours}h actual vs ${report.estimates.estimated_hours}h estimated (ratio ${report.estimates.ratio}, mean error ${report.estimates.mean_abs_error_pct}%).`
+      : '_No completed tasks with both estimate and actual hours_',
+    '',
+    table(['Team', 'Tasks', 'Estimated h', 'Actual h', 'Ratio'], Object.entries(report.estimates.by_team).map(([team, e]) => [team, e.tasks, e.estimated_hours, e.actual_hours, e.ratio])),
+    '',
+    table(['Largest misses', 'Estimated h', 'Actual h', 'Error %'], report.estimates.largest_misses.map((t) => [t.title, t.estimated_hours, t.actual_hours, t.error_pct])),
+  ].join('\n');
+}
+
+function csv(headers: string[], rows: Array<Array<string | number | null>>): string {
+  const cell = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map((row) => row.map(cell).join(',')).join('\n');
+}
+
+/** One section as CSV, since every section has its own columns */
+export function reportToCsv(report: ProjectReport, section: ReportSection): string {
+  switch (section) {
+    case 'burndown':
+      return csv(
+        ['date', 'scope', 'completed', 'remaining', 'scope_hours', 'completed_hours', 'remaining_hours'],
+        report.burndown.map((p) => [p.date, p.scope, p.completed, p.remaining, p.scope_hours, p.completed_hours, p.remaining_hours])
+      );
+    case 'velocity':
+      return csv(['week', 'team', 'tasks', 'hours'], report.velocity.map((v) => [v.week, v.team, v.tasks, v.hours]));
+    case 'cycle_time':
+      return csv(
+        ['metric', 'team', 'count', 'min', 'p50', 'p85', 'p95', 'max', 'mean'],
+        [
+          ['cycle', 'all', report.cycle_time.cycle] as const,
+          ['lead', 'all', report.cycle_time.lead] as const,
+          ...Object.entries(report.cycle_time.by_team).map(([team, d]) => ['cycle', team, d] as const),
+        ].map(([metric, team, d]) => [metric, team, d.count, d.min, d.p50, d.p85, d.p95, d.max, d.mean])
+      );
+    case 'overdue':
+      return csv(
+        ['task_id', 'title', 'priority', 'status', 'team', 'agent', 'due_date', 'days_overdue'],
+        report.overdue.map((t) => [t.id, t.title, t.priority, t.status, t.team, t.agent, t.due_date, t.days_overdue])
+      );
+    case 'aging':
+      return csv(
+        ['task_id', 'title', 'priority', 'status', 'team', 'agent', 'hours_in_status'],
+        report.aging.map((t) => [t.id, t.title, t.priority, t.status, t.team, t.agent, t.hours_in_status])
+      );
+    case 'estimates':
+      return csv(
+        ['team', 'tasks', 'estimated_hours', 'actual_hours', 'ratio'],
+        [
+          ['all', report.estimates.tasks, report.estimates.estimated_hours, report.estimates.actual_hours, report.estimates.ratio],
+          ...Object.entries(report.estimates.by_team).map(([team, e]) => [team, e.tasks, e.estimated_hours, e.actual_hours, e.ratio]),
+        ]
+      );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { parseFrontmatter } from './registry.js';
+
+export type SkillEntry = {
+  category: string;
+  name: string;
+  /** Task tags that call for this skill (name and category are always included) */
+  tags: string[];
+  file: string;
+};
+
+/** skills/ at the repository root, relative to src/lib or dist/lib */
+export function skillsDir(): string {
+  return process.env.HA_SKILLS_DIR
+    ? resolve(process.env.HA_SKILLS_DIR)
+    : fileURLToPath(new URL('../../../skills', import.meta.url));
+}
+
+let cached: Promise<SkillEntry[]> | null = null;
+
+/** Reads skills/<category>/<name>/SKILL.md; frontmatter may list extra `tags` */
+export function loadSkillCatalog(): Promise<SkillEntry[]> {
+  const dir = skillsDir();
+  
+  cached = (async () => {
+    const skills: SkillEntry[] = [];
+    const categories = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    
+    for (const category of categories) {
+      if (!category.isDirectory() || category.name.startsWith('_') || category.name.startsWith('.')) continue;
+      
+      for (const skill of await readdir(join(dir, category.name), { withFileTypes: true })) {
+        if (!skill.isDirectory()) continue;
+        
+        const file = join(dir, category.name, skill.name, 'SKILL.md');
+        const source = await readFile(file, 'utf8').catch(() => null);
+        if (source === null) continue;
+        
+        const fields = parseFrontmatter(source);
+        const tags = Array.isArray(fields.tags) ? fields.tags : typeof fields.tags === 'string' ? fields.tags.split(',') : [];
+        
+        skills.push({
+          category: category.name,
+          name: skill.name,
+          tags: [...new Set([skill.name, category.name, ...tags.map((t) => t.trim().toLowerCase()).filter(Boolean)])],
+          file: `skills/${category.name}/${skill.name}/SKILL.md`,
+        });
+      }
+    }
+    
+    return skills.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  })();
+  
+  return cached;
+}
+
+export function getSkillCatalog(): Promise<SkillEntry[]> {
+  return cached ?? loadSkillCatalog();
+}
+
+/** Catalog skills a task tag refers to */
+export function skillsForTag(catalog: SkillEntry[], tag: string): SkillEntry[] {
+  const normalized = tag.toLowerCase();
+  return catalog.filter((s) => s.tags.includes(normalized));
+}
\ No newline at end of file
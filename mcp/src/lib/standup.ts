@@ -0,0 +1,132 @@
+import { getStorage } from '../db/storage.js';
+import type { ActivityLog } from '../db/supabase.js';
+import { getRegistry } from './registry.js';
+import { hoursInCurrentStatus } from './status-history.js';
+
+const DAY = 86400000;
+
+/** Activity actions reported per agent, and the heading they appear under */
+const BUCKETS: Record<string, keyof StandupAgent['yesterday']> = {
+  task_done: 'done',
+  task_review: 'in_review',
+  task_in_progress: 'started',
+  task_blocked: 'blocked',
+  handoff_accepted: 'taken_over',
+};
+
+export type StandupAgent = {
+  agent: string;
+  role: string;
+  yesterday: { done: string[]; in_review: string[]; started: string[]; blocked: string[]; taken_over: string[] };
+  hours_logged: number;
+  activity: number;
+  today: string[];
+};
+
+export type StandupDigest = {
+  team: string;
+  from: string;
+  to: string;
+  agents: StandupAgent[];
+  blockers: Array<{ task_id: string; title: string; agent: string | null; reason: string | null; hours: number }>;
+};
+
+/**
+ * What each team member did in a 24h window (from activity_log and time
+ * entries), what they are on now, and the team's current blockers.
+ * `date` (YYYY-MM-DD) reports that UTC day; default is the last 24 hours.
+ */
+export async function standupDigest(teamName: string, options: { date?: string; projectId?: string } = {}): Promise<StandupDigest> {
+  const { agents, teams } = await getRegistry();
+  const team = teams.find((t) => t.name === teamName);
+  if (!team) throw new Error(`Team not found: ${teamName}`);
+  
+  const end = options.date ? Date.parse(options.date) + DAY : Date.now();
+  if (Number.isNaN(end)) throw new Error(`Invalid date: ${options.date}`);
+  const from = new Date(end - DAY).toISOString();
+  const to = new Date(end).toISOString();
+  
+  const storage = getStorage();
+  const [activity, entries, open] = await Promise.all([
+    storage.activity.list({
+      where: { agent: { in: team.members }, project_id: options.projectId, created_at: { gte: from, lt: to } },
+      orderBy: [{ column: 'created_at' }],
+    }),
+    storage.table('time_entries').list({
+      where: { agent: { in: team.members }, project_id: options.projectId, started_at: { gte: from, lt: to }, ended_at: { neq: null } },
+    }),
+    storage.tasks.list({ where: { assigned_team: team.name, project_id: options.projectId, status: { in: ['in_progress', 'blocked'] } } }),
+  ]);
+  
+  const blocked = open.filter((t) => t.status === 'blocked');
+  const history = blocked.length > 0
+    ? await storage.taskStatusHistory.list({ where: { task_id: { in: blocked.map((t) => t.id) } } })
+    : [];
+  
+  const relatedIds = [...new Set(activity.filter((a) => a.action in BUCKETS && a.related_id).map((a) => a.related_id!))];
+  const related = relatedIds.length > 0 ? await storage.tasks.list({ where: { id: { in: relatedIds } } }) : [];
+  const titles = new Map([...related, ...open].map((t) => [t.id, t.title]));
+  const title = (a: ActivityLog) => titles.get(a.related_id ?? '') ?? String(a.details.task ?? a.related_id);
+  
+  const members = team.members.map((name): StandupAgent => {
+    const own = activity.filter((a) => a.agent === name);
+    const yesterday: StandupAgent['yesterday'] = { done: [], in_review: [], started: [], blocked: [], taken_over: [] };
+    for (const entry of own) {
+      const bucket = BUCKETS[entry.action];
+      if (bucket && !yesterday[bucket].includes(title(entry))) yesterday[bucket].push(title(entry));
+    }
+    
+    return {
+      agent: name,
+      role: agents.find((a) => a.name === name)?.role ?? '',
+      yesterday,
+      hours_logged: Math.round(entries.filter((e) => e.agent === name).reduce((sum, e) => sum + (e.hours ?? 0), 0) * 100) / 100,
+      activity: own.length,
+      today: open.filter((t) => t.assigned_agent === name && t.status === 'in_progress').map((t) => t.title),
+    };
+  });
+  
+  return {
+    team: team.name,
+    from,
+    to,
+    agents: members,
+    blockers: blocked.map((t) => ({ task_id: t.id, title: t.title, agent: t.assigned_agent, reason: t.blocker_reason, hours: hoursInCurrentStatus(t, history) })),
+  };
+}
+
+export function standupToMarkdown(digest: StandupDigest): string {
+  const lines = [`# ${digest.team} standup`, `${digest.from.slice(0, 16).replace('T', ' ')} – ${digest.to.slice(0, 16).replace('T', ' ')} UTC`, ''];
+  const labels: Record<keyof StandupAgent['yesterday'], string> = {
+    done: 'Done',
+    in_review: 'Sent to review',
+    started: 'Started',
+    blocked: 'Blocked',
+    taken_over: 'Took over',
+  };
+  
+  const quiet: string[] = [];
+  for (const member of digest.agents) {
+    const items = (Object.keys(labels) as Array<keyof StandupAgent['yesterday']>)
+      .filter((key) => member.yesterday[key].length > 0)
+      .map((key) => `- ${labels[key]}: ${member.yesterday[key].join(', ')}`);
+    if (items.length === 0 && member.today.length === 0 && member.hours_logged === 0) {
+      quiet.push(member.agent);
+      continue;
+    }
+    
+    lines.push(`## ${member.agent}${member.role ? ` (${member.role})` : ''}`);
+    lines.push(...items);
+    if (member.hours_logged > 0) lines.push(`- Logged: ${member.hours_logged}h`);
+    lines.push(`- Today: ${member.today.length > 0 ? member.today.join(', ') : 'nothing in progress'}`);
+    lines.push('');
+  }
+  
+  lines.push('## Blockers');
+  lines.push(...(digest.blockers.length > 0
+    ? digest.blockers.map((b) => `- ${b.title} (${b.agent ?? 'unassigned'}, ${b.hours}h): ${b.reason ?? 'no reason given'}`)
+    : ['None']));
+  if (quiet.length > 0) lines.push('', `No activity: ${quiet.join(', ')}`);
+  
+  return lines.join('\n');
+}
\ No newline at end of file
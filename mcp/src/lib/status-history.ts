@@ -0,0 +1,59 @@
+import { getStorage } from '../db/storage.js';
+import type { Task, TaskStatus, TaskStatusChange } from '../db/supabase.js';
+
+export async function recordStatusChange(
+  task: Pick<Task, 'id' | 'project_id'>,
+  from: TaskStatus | null,
+  to: TaskStatus,
+  changedBy: string,
+  details: { reason?: string | null; reviewer?: string | null } = {}
+): Promise<void> {
+  await getStorage().taskStatusHistory.insert({
+    task_id: task.id,
+    project_id: task.project_id,
+    from_status: from,
+    to_status: to,
+    changed_by: changedBy,
+    reason: details.reason ?? null,
+    reviewer: details.reviewer ?? null,
+  });
+}
+
+export async function getStatusHistory(taskId: string): Promise<TaskStatusChange[]> {
+  return getStorage().taskStatusHistory.list({
+    where: { task_id: taskId },
+    orderBy: [{ column: 'created_at' }],
+  });
+}
+
+/**
+ * Hours spent in each status, from task creation up to now. Before the first
+ * recorded change the task is assumed to have been in that change's from_status.
+ */
+export function timeInStatus(task: Task, history: TaskStatusChange[], now = Date.now()): Partial<Record<TaskStatus, number>> {
+  const totals: Partial<Record<TaskStatus, number>> = {};
+  let status: TaskStatus = history[0]?.from_status ?? task.status;
+  let since = Date.parse(task.created_at);
+  
+  for (const change of history) {
+    const at = Date.parse(change.created_at);
+    totals[status] = (totals[status] ?? 0) + Math.max(0, at - since);
+    status = change.to_status;
+    since = at;
+  }
+  totals[status] = (totals[status] ?? 0) + Math.max(0, now - since);
+  
+  for (const key of Object.keys(totals) as TaskStatus[]) {
+    totals[key] = Math.round(((totals[key] ?? 0) / 3600000) * 100) / 100;
+  }
+  return totals;
+}
+
+/** Hours since the task entered its current status, with column fallbacks for untracked tasks */
+export function hoursInCurrentStatus(task: Task, history: TaskStatusChange[], now = Date.now()): number {
+  const entered = history
+    .filter((h) => h.task_id === task.id && h.to_status === task.status)
+    .reduce<string | null>((latest, h) => (latest === null || h.created_at > latest ? h.created_at : latest), null);
+  const since = entered ?? (task.status === 'in_progress' ? task.started_at : null) ?? task.updated_at;
+  return Math.round(((now - Date.parse(since)) / 3600000) * 100) / 100;
+}
\ No newline at end of file
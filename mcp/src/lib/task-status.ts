@@ -0,0 +1,154 @@
+import { findProjectById, findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Task, TaskStatus } from '../db/supabase.js';
+import { assertUnblocked, DEPENDENCY_BLOCK_FLAG, releaseDependents } from './dependencies.js';
+import { resolveAgentName } from './registry.js';
+import { recordStatusChange } from './status-history.js';
+import { assertChildrenDone, findChildren } from './task-tree.js';
+import { closeTaskTimers } from './time-tracking.js';
+
+// ============================================
+// TRANSITION MODEL
+// ============================================
+/** Allowed status changes; everything else is rejected */
+export const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  backlog: ['todo', 'blocked'],
+  todo: ['backlog', 'in_progress', 'blocked'],
+  in_progress: ['todo', 'review', 'blocked'],
+  review: ['in_progress', 'done', 'blocked'],
+  blocked: ['backlog', 'todo', 'in_progress'],
+  done: ['todo'],
+};
+
+export interface TransitionOptions {
+  agent: string;
+  /** Required when moving to blocked */
+  reason?: string | null;
+  /** Required for review → done; must be a known agent other than the assignee, before or after `extra` */
+  reviewer?: string | null;
+  /** Other column changes written in the same update */
+  extra?: Record<string, unknown>;
+}
+
+/** Throws with a readable message when the transition is not allowed */
+export function validateTransition(task: Task, to: TaskStatus, options: TransitionOptions): void {
+  const from = task.status;
+  
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    const allowed = STATUS_TRANSITIONS[from].join(', ');
+    throw new Error(`Cannot move "${task.title}" from ${from} to ${to} (allowed: ${allowed})`);
+  }
+  
+  if (to === 'blocked' && !options.reason?.trim()) {
+    throw new Error(`Moving "${task.title}" to blocked needs a reason`);
+  }
+  
+  if (from === 'review' && to === 'done') {
+    const reviewer = options.reviewer?.toLowerCase();
+    if (!reviewer) {
+      throw new Error(`Completing "${task.title}" needs a reviewer`);
+    }
+    // A reassignment in the same update must not let the author approve their own work
+    const assignees = [task.assigned_agent, options.extra?.assigned_agent];
+    if (assignees.includes(reviewer)) {
+      throw new Error(`${reviewer} cannot review their own task "${task.title}"`);
+    }
+    // Nor may the author close it by naming someone else as reviewer
+    const agent = options.agent.toLowerCase();
+    if (assignees.includes(agent)) {
+      throw new Error(`${agent} cannot complete their own task "${task.title}"; the reviewer has to`);
+    }
+  }
+}
+
+/**
+ * Column changes for a transition. started_at keeps the first start,
+ * completed_at the final completion (cleared again when a task is reopened).
+ */
+function statusPatch(task: Task, to: TaskStatus, options: TransitionOptions): Record<string, unknown> {
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = {
+    status: to,
+    updated_by: options.agent,
+    blocker_reason: to === 'blocked' ? options.reason : null,
+  };
+  
+  if (to === 'in_progress' && !task.started_at) patch.started_at = now;
+  if (to === 'done') patch.completed_at = now;
+  if (task.status === 'done' && to !== 'done') patch.completed_at = null;
+  
+  // Once a task leaves blocked, dependencies no longer own the block
+  if (task.status === 'blocked' && DEPENDENCY_BLOCK_FLAG in task.metadata) {
+    const metadata = (options.extra?.metadata as Task['metadata'] | undefined) ?? task.metadata;
+    const { [DEPENDENCY_BLOCK_FLAG]: _flag, ...rest } = metadata;
+    patch.metadata = rest;
+  }
+  
+  return patch;
+}
+
+// ============================================
+// TRANSITION
+// ============================================
+/**
+ * The single path for status changes: validates the edge and its guards,
+ * updates the row, records history and activity, and runs follow-ups.
+ */
+export async function transitionTask(task: Task, to: TaskStatus, options: TransitionOptions): Promise<Task> {
+  if (task.status === 'review' && to === 'done' && options.reviewer) {
+    options = {
+      ...options,
+      agent: await resolveAgentName(options.agent).catch(() => options.agent),
+      reviewer: await resolveAgentName(options.reviewer),
+    };
+  }
+  validateTransition(task, to, options);
+  if (to === 'in_progress') await assertUnblocked(task);
+  if (to === 'done') await assertChildrenDone(task);
+  
+  let data = await getStorage().tasks.update(task.id, { ...options.extra, ...statusPatch(task, to, options) });
+  
+  await recordStatusChange(task, task.status, to, options.agent, {
+    reason: options.reason,
+    reviewer: to === 'done' ? options.reviewer?.toLowerCase() : null,
+  });
+  
+  await logActivity(options.agent, `task_${to}`, { from: task.status, notes: options.reason ?? undefined }, {
+    projectId: data.project_id,
+    team: data.assigned_team ?? undefined,
+    relatedId: task.id,
+    relatedType: 'task',
+  });
+  
+  // Closing timers syncs actual_hours, so the updated row is read again
+  if (task.status === 'in_progress' && (await closeTaskTimers(task, options.agent, `task moved to ${to}`)).length > 0) {
+    data = await findTaskById(task.id);
+  }
+  
+  if (to === 'done') {
+    await releaseDependents(task.id, options.agent);
+    await submitParentIfReady(data, options.agent);
+  }
+  
+  return data;
+}
+
+/**
+ * Sends the parent to review once its last subtask is done, for projects that
+ * opt in with settings.auto_complete_parents. It stops at review rather than
+ * done because every completion goes through the review gate: the parent
+ * still needs a reviewer to reach done, which then moves its own parent along.
+ */
+async function submitParentIfReady(task: Task, agent: string): Promise<void> {
+  if (!task.parent_id) return;
+  
+  const project = await findProjectById(task.project_id).catch(() => null);
+  if (project?.settings.auto_complete_parents !== true) return;
+  
+  const parent = await findTaskById(task.parent_id);
+  if (!STATUS_TRANSITIONS[parent.status].includes('review')) return;
+  
+  const siblings = await findChildren([parent.id]);
+  if (siblings.some((t) => t.status !== 'done')) return;
+  
+  await transitionTask(parent, 'review', { agent, reason: 'all subtasks done' });
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { getStorage } from '../db/storage.js';
+import type { Task } from '../db/supabase.js';
+
+export interface TaskTreeNode {
+  id: string;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  assigned_team: string | null;
+  assigned_agent: string | null;
+  estimated_hours: number | null;
+  actual_hours: number | null;
+  rollup: {
+    estimated_hours: number;
+    actual_hours: number;
+    /** Share of done leaf tasks in this subtree */
+    percent_complete: number;
+    open_children: number;
+  };
+  children: TaskTreeNode[];
+}
+
+export async function findChildren(parentIds: string[]): Promise<Task[]> {
+  if (parentIds.length === 0) return [];
+  return getStorage().tasks.list({ where: { parent_id: { in: parentIds } } });
+}
+
+/** All descendants of the given tasks, level by level */
+export async function findDescendants(rootIds: string[]): Promise<Task[]> {
+  const descendants: Task[] = [];
+  const seen = new Set(rootIds);
+  let level = rootIds;
+  
+  while (level.length > 0) {
+    const children = (await findChildren(level)).filter((t) => !seen.has(t.id));
+    children.forEach((t) => seen.add(t.id));
+    descendants.push(...children);
+    level = children.map((t) => t.id);
+  }
+  return descendants;
+}
+
+/**
+ * Nests tasks under their parents. Roll-ups add the task's own hours to its
+ * children's; completion counts done leaves.
+ */
+export function buildTaskTree(roots: Task[], descendants: Task[]): TaskTreeNode[] {
+  const byParent = new Map<string, Task[]>();
+  for (const task of descendants) {
+    if (!task.parent_id) continue;
+    byParent.set(task.parent_id, [...(byParent.get(task.parent_id) ?? []), task]);
+  }
+  
+  const build = (task: Task): TaskTreeNode & { leaves: number; doneLeaves: number } => {
+    const children = (byParent.get(task.id) ?? []).map(build);
+    const leaves = children.length === 0 ? 1 : children.reduce((sum, c) => sum + c.leaves, 0);
+    const doneLeaves = children.length === 0
+      ? (task.status === 'done' ? 1 : 0)
+      : children.reduce((sum, c) => sum + c.doneLeaves, 0);
+    
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      assigned_team: task.assigned_team,
+      assigned_agent: task.assigned_agent,
+      estimated_hours: task.estimated_hours,
+      actual_hours: task.actual_hours,
+      rollup: {
+        estimated_hours: (task.estimated_hours ?? 0) + children.reduce((sum, c) => sum + c.rollup.estimated_hours, 0),
+        actual_hours: (task.actual_hours ?? 0) + children.reduce((sum, c) => sum + c.rollup.actual_hours, 0),
+        percent_complete: Math.round((doneLeaves / leaves) * 100),
+        open_children: children.filter((c) => c.status !== 'done').length,
+      },
+      children: children.map(({ leaves: _l, doneLeaves: _d, ...node }) => node),
+      leaves,
+      doneLeaves,
+    };
+  };
+  
+  return roots.map((root) => {
+    const { leaves: _l, doneLeaves: _d, ...node } = build(root);
+    return node;
+  });
+}
+
+/** A parent cannot be done while one of its direct subtasks is still open */
+export async function assertChildrenDone(task: Task): Promise<void> {
+  const open = (await findChildren([task.id])).filter((t) => t.status !== 'done');
+  if (open.length > 0) {
+    const list = open.map((t) => `"${t.title}" (${t.status})`).join(', ');
+    throw new Error(`Task "${task.title}" has open subtasks: ${list}`);
+  }
+}
\ No newline at end of file
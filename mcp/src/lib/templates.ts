@@ -0,0 +1,494 @@
+import { randomUUID } from 'node:crypto';
+import { access, readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+
+import { createTask, getStorage, logActivity } from '../db/storage.js';
+import { generateSlug } from '../db/supabase.js';
+import type { PriorityLevel, Project, Task } from '../db/supabase.js';
+import { resolveAssignee } from './registry.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9-]*$/;
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// ============================================
+// TEMPLATE FILES
+// ============================================
+const variableSchema = z.object({
+  description: z.string().optional(),
+  default: z.string().optional(),
+});
+
+export type TemplateTask = {
+  key: string;
+  title: string;
+  description?: string;
+  team?: string;
+  agent?: string;
+  priority?: PriorityLevel;
+  estimated_hours?: number;
+  tags?: string[];
+  milestone?: string;
+  depends_on?: string[];
+  subtasks?: TemplateTask[];
+};
+
+const taskSchema: z.ZodType<TemplateTask> = z.lazy(() => z.object({
+  key: z.string().regex(TEMPLATE_NAME, 'Task keys are lowercase slugs'),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  team: z.string().optional(),
+  agent: z.string().optional(),
+  priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+  estimated_hours: z.number().positive().optional(),
+  tags: z.array(z.string()).optional(),
+  milestone: z.string().optional(),
+  depends_on: z.array(z.string()).optional(),
+  subtasks: z.array(taskSchema).optional(),
+}));
+
+const templateSchema = z.object({
+  name: z.string().regex(TEMPLATE_NAME),
+  description: z.string().default(''),
+  variables: z.record(variableSchema).default({}),
+  tech_stack: z.record(z.string()).default({}),
+  settings: z.record(z.unknown()).default({}),
+  roadmap: z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    duration_days: z.number().int().positive().optional(),
+    milestones: z.array(z.object({
+      key: z.string().regex(TEMPLATE_NAME, 'Milestone keys are lowercase slugs'),
+      name: z.string(),
+      description: z.string().optional(),
+      offset_days: z.number().int().min(0).describe('Days after the roadmap start'),
+    })).default([]),
+  }).optional(),
+  tasks: z.array(taskSchema).default([]),
+});
+
+export type ProjectTemplate = z.infer<typeof templateSchema>;
+
+/** templates/projects/ at the repository root, relative to src/lib or dist/lib */
+export function templatesDir(): string {
+  return process.env.HA_TEMPLATES_DIR
+    ? resolve(process.env.HA_TEMPLATES_DIR)
+    : fileURLToPath(new URL('../../../templates/projects', import.meta.url));
+}
+
+function parseTemplate(source: string, file: string): ProjectTemplate {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Invalid template ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  const result = templateSchema.safeParse(raw);
+  if (!result.success) throw new Error(`Invalid template ${file}: ${result.error.message}`);
+  return result.data;
+}
+
+/** The template named `name`, or null when there is no <name>.json */
+export async function findTemplate(name: string): Promise<ProjectTemplate | null> {
+  if (!TEMPLATE_NAME.test(name)) return null;
+  
+  const file = join(templatesDir(), `${name}.json`);
+  const source = await readFile(file, 'utf8').catch(() => null);
+  return source === null ? null : parseTemplate(source, basename(file));
+}
+
+export async function listTemplates(): Promise<Array<{ template: ProjectTemplate | null; file: string; guide: string | null; error: string | null }>> {
+  const dir = templatesDir();
+  const files = await readdir(dir).catch(() => [] as string[]);
+  
+  return Promise.all(files.filter((f) => f.endsWith('.json')).sort().map(async (file) => {
+    const guide = files.includes(file.replace(/\.json$/, '.md')) ? `templates/projects/${file.replace(/\.json$/, '.md')}` : null;
+    try {
+      return { template: parseTemplate(await readFile(join(dir, file), 'utf8'), file), file: `templates/projects/${file}`, guide, error: null };
+    } catch (error) {
+      return { template: null, file: `templates/projects/${file}`, guide, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+// ============================================
+// RENDERING
+// ============================================
+export type TemplateInput = {
+  project: { name: string; slug: string; description: string | null };
+  tech_stack?: Record<string, string>;
+  variables?: Record<string, string>;
+  /** YYYY-MM-DD; milestones are scheduled from here (default: today) */
+  start_date?: string;
+};
+
+export type PlannedTask = {
+  key: string;
+  parent_key: string | null;
+  title: string;
+  description: string | null;
+  team: string | null;
+  agent: string | null;
+  priority: PriorityLevel;
+  estimated_hours: number | null;
+  tags: string[];
+  milestone: string | null;
+  depends_on: string[];
+};
+
+export type TemplatePlan = {
+  template: string;
+  variables: Record<string, string>;
+  tech_stack: Record<string, string>;
+  settings: Record<string, unknown>;
+  roadmap: {
+    name: string;
+    description: string | null;
+    start_date: string;
+    end_date: string | null;
+    milestones: Array<{ key: string; name: string; description: string | null; target_date: string }>;
+  } | null;
+  tasks: PlannedTask[];
+  summary: { tasks: number; estimated_hours: number; by_team: Record<string, number> };
+};
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`Unknown template variable {{${name}}}. Available: ${Object.keys(values).sort().join(', ')}`);
+    }
+    return value;
+  });
+}
+
+/** Depth-first, so every parent comes before its subtasks */
+function flatten(tasks: TemplateTask[], parentKey: string | null = null): Array<TemplateTask & { parent_key: string | null }> {
+  return tasks.flatMap((task) => [{ ...task, parent_key: parentKey }, ...flatten(task.subtasks ?? [], task.key)]);
+}
+
+function assertAcyclic(tasks: PlannedTask[]): void {
+  const byKey = new Map(tasks.map((t) => [t.key, t]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  
+  const visit = (key: string, path: string[]) => {
+    if (state.get(key) === 'done') return;
+    if (state.get(key) === 'visiting') throw new Error(`Template dependencies form a cycle: ${[...path, key].join(' → ')}`);
+    state.set(key, 'visiting');
+    for (const next of byKey.get(key)?.depends_on ?? []) visit(next, [...path, key]);
+    state.set(key, 'done');
+  };
+  for (const task of tasks) visit(task.key, []);
+}
+
+/**
+ * Resolves variables, dates and assignees into a concrete plan. Nothing is
+ * written; the plan is what ha_template_preview shows and what
+ * applyTemplate creates.
+ */
+export async function renderTemplate(template: ProjectTemplate, input: TemplateInput): Promise<TemplatePlan> {
+  const startDate = input.start_date ?? new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || Number.isNaN(Date.parse(startDate))) {
+    throw new Error(`Invalid start_date ${startDate}, expected YYYY-MM-DD`);
+  }
+  
+  const unknown = Object.keys(input.variables ?? {}).filter((name) => !(name in template.variables));
+  if (unknown.length > 0) {
+    throw new Error(`Template ${template.name} has no variables ${unknown.join(', ')}. Declared: ${Object.keys(template.variables).join(', ') || 'none'}`);
+  }
+  
+  const builtins: Record<string, string> = {
+    'project.name': input.project.name,
+    'project.slug': input.project.slug,
+    'project.description': input.project.description ?? '',
+    start_date: startDate,
+  };
+  
+  // Defaults may refer to the project, e.g. "{{project.name}} helps teams ship faster"
+  const variables: Record<string, string> = {};
+  for (const [name, spec] of Object.entries(template.variables)) {
+    const value = input.variables?.[name] ?? (spec.default !== undefined ? substitute(spec.default, builtins) : undefined);
+    if (value === undefined) throw new Error(`Missing template variable ${name}${spec.description ? ` (${spec.description})` : ''}`);
+    variables[name] = value;
+  }
+  
+  const base: Record<string, string> = { ...variables, ...builtins };
+  
+  // Template defaults may use variables; explicit tech_stack entries win
+  const techStack: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(template.tech_stack).map(([key, value]) => [key, substitute(value, base)])),
+    ...input.tech_stack,
+  };
+  const values: Record<string, string> = {
+    ...base,
+    ...Object.fromEntries(Object.entries(techStack).map(([key, value]) => [`tech_stack.${key}`, value])),
+  };
+  
+  const milestones = (template.roadmap?.milestones ?? [])
+    .map((m) => ({
+      key: m.key,
+      name: substitute(m.name, values),
+      description: m.description ? substitute(m.description, values) : null,
+      target_date: addDays(startDate, m.offset_days),
+    }))
+    .sort((a, b) => a.target_date.localeCompare(b.target_date));
+  const milestoneKeys = new Set(milestones.map((m) => m.key));
+  if (milestoneKeys.size !== milestones.length) throw new Error(`Template ${template.name} repeats a milestone key`);
+  
+  const flat = flatten(template.tasks);
+  const taskKeys = new Set(flat.map((t) => t.key));
+  if (taskKeys.size !== flat.length) throw new Error(`Template ${template.name} repeats a task key`);
+  
+  const tasks: PlannedTask[] = [];
+  for (const task of flat) {
+    if (task.milestone && !milestoneKeys.has(task.milestone)) {
+      throw new Error(`Task ${task.key} refers to unknown milestone ${task.milestone}`);
+    }
+    for (const key of task.depends_on ?? []) {
+      if (!taskKeys.has(key) || key === task.key) throw new Error(`Task ${task.key} depends on unknown task ${key}`);
+    }
+    
+    const assignee = await resolveAssignee({
+      team: task.team ? substitute(task.team, values) : null,
+      agent: task.agent ? substitute(task.agent, values) : null,
+    });
+    
+    tasks.push({
+      key: task.key,
+      parent_key: task.parent_key,
+      title: substitute(task.title, values),
+      description: task.description ? substitute(task.description, values) : null,
+      team: assignee.team,
+      agent: assignee.agent,
+      priority: task.priority ?? 'medium',
+      estimated_hours: task.estimated_hours ?? null,
+      tags: (task.tags ?? []).map((tag) => substitute(tag, values).toLowerCase()),
+      milestone: task.milestone ?? null,
+      depends_on: task.depends_on ?? [],
+    });
+  }
+  assertAcyclic(tasks);
+  
+  const lastMilestone = milestones[milestones.length - 1];
+  const byTeam = tasks.reduce((acc, t) => {
+    const team = t.team ?? 'unassigned';
+    acc[team] = (acc[team] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  
+  return {
+    template: template.name,
+    variables,
+    tech_stack: techStack,
+    settings: template.settings,
+    roadmap: template.roadmap
+      ? {
+        name: substitute(template.roadmap.name, values),
+        description: template.roadmap.description ? substitute(template.roadmap.description, values) : null,
+        start_date: startDate,
+        end_date: template.roadmap.duration_days
+          ? addDays(startDate, template.roadmap.duration_days)
+          : lastMilestone?.target_date ?? null,
+        milestones,
+      }
+      : null,
+    tasks,
+    summary: {
+      tasks: tasks.length,
+      estimated_hours: tasks.reduce((sum, t) => sum + (t.estimated_hours ?? 0), 0),
+      by_team: byTeam,
+    },
+  };
+}
+
+// ============================================
+// INSTANTIATION
+// ============================================
+/** Project settings: defaults, then the template's, then options the caller actually passed */
+export function projectSettings(
+  plan: TemplatePlan | null,
+  options: { autonomous?: boolean; auto_complete_parents?: boolean }
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = { autonomous: false, auto_complete_parents: false, ...plan?.settings };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) settings[key] = value;
+  }
+  return settings;
+}
+
+/**
+ * Creates the plan's roadmap, milestones and tasks in a project, then wires
+ * dependencies. Tasks start in backlog; the plan was validated up front, so
+ * dependencies are set directly instead of edge by edge.
+ */
+export async function applyTemplate(project: Project, plan: TemplatePlan, agent: string) {
+  const storage = getStorage();
+  const milestoneIds = new Map<string, string>();
+  let roadmapId: string | null = null;
+  
+  if (plan.roadmap) {
+    const milestones = plan.roadmap.milestones.map((m) => {
+      const id = randomUUID();
+      milestoneIds.set(m.key, id);
+      return { id, name: m.name, description: m.description, target_date: m.target_date };
+    });
+    
+    const roadmap = await storage.table('roadmaps').insert({
+      project_id: project.id,
+      name: plan.roadmap.name,
+      description: plan.roadmap.description,
+      start_date: plan.roadmap.start_date,
+      end_date: plan.roadmap.end_date,
+      status: 'planned',
+      milestones,
+    });
+    roadmapId = roadmap.id;
+  }
+  
+  const taskIds = new Map<string, string>();
+  for (const task of plan.tasks) {
+    const milestoneId = task.milestone ? milestoneIds.get(task.milestone) : undefined;
+    const created = await createTask({
+      project_id: project.id,
+      title: task.title,
+      description: task.description,
+      assigned_team: task.team,
+      assigned_agent: task.agent,
+      priority: task.priority,
+      parent_id: task.parent_key ? taskIds.get(task.parent_key) ?? null : null,
+      estimated_hours: task.estimated_hours,
+      tags: task.tags,
+      roadmap_id: roadmapId,
+      metadata: {
+        template: plan.template,
+        template_key: task.key,
+        ...(milestoneId ? { milestone_id: milestoneId } : {}),
+      },
+      created_by: agent,
+    });
+    taskIds.set(task.key, created.id);
+  }
+  
+  for (const task of plan.tasks.filter((t) => t.depends_on.length > 0)) {
+    await storage.tasks.update(taskIds.get(task.key)!, {
+      blocked_by: task.depends_on.map((key) => taskIds.get(key)!),
+    });
+  }
+  
+  const scaffold = {
+    template: plan.template,
+    roadmap_id: roadmapId,
+    milestones: milestoneIds.size,
+    tasks: taskIds.size,
+    dependencies: plan.tasks.reduce((sum, t) => sum + t.depends_on.length, 0),
+  };
+  
+  await logActivity(agent, 'template_applied', scaffold, { projectId: project.id, relatedId: project.id, relatedType: 'project' });
+  return scaffold;
+}
+
+// ============================================
+// SAVING
+// ============================================
+function uniqueKey(base: string, taken: Set<string>): string {
+  const root = generateSlug(base).replace(/^-+|-+$/g, '').slice(0, 40) || 'item';
+  let key = root;
+  for (let n = 2; taken.has(key); n++) key = `${root}-${n}`;
+  taken.add(key);
+  return key;
+}
+
+/**
+ * Turns a project's first roadmap and its task tree back into a template.
+ * The project name becomes {{project.name}}; agents are dropped and only
+ * teams kept, so the template can be reused for other projects.
+ */
+export async function templateFromProject(project: Project, name: string, description?: string): Promise<ProjectTemplate> {
+  if (!TEMPLATE_NAME.test(name)) throw new Error(`Invalid template name ${name}, use lowercase letters, digits and dashes`);
+  
+  const storage = getStorage();
+  const [roadmaps, tasks] = await Promise.all([
+    storage.table('roadmaps').list({ where: { project_id: project.id }, orderBy: [{ column: 'created_at' }], limit: 1 }),
+    storage.tasks.list({ where: { project_id: project.id }, orderBy: [{ column: 'created_at' }] }),
+  ]);
+  const roadmap = roadmaps[0];
+  
+  const generalize = (text: string) => {
+    const literal = text.match(PLACEHOLDER)?.[0];
+    if (literal) throw new Error(`Cannot save "${text}" in a template: ${literal} would be read as a template variable`);
+    return text.split(project.name).join('{{project.name}}');
+  };
+  
+  const milestoneKeys = new Map<string, string>();
+  const takenMilestones = new Set<string>();
+  const start = roadmap ? (roadmap.start_date ?? roadmap.created_at.slice(0, 10)) : null;
+  const daysFromStart = (date: string) => Math.max(0, Math.round((Date.parse(date.slice(0, 10)) - Date.parse(start!)) / DAY_MS));
+  const milestones = (roadmap?.milestones ?? []).map((m) => {
+    const key = uniqueKey(m.name, takenMilestones);
+    milestoneKeys.set(m.id, key);
+    return {
+      key,
+      name: generalize(m.name),
+      ...(m.description ? { description: generalize(m.description) } : {}),
+      offset_days: daysFromStart(m.target_date),
+    };
+  });
+  
+  const takenTasks = new Set<string>();
+  const taskKeys = new Map(tasks.map((t) => [t.id, uniqueKey(t.title, takenTasks)]));
+  
+  const toTemplateTask = (task: Task): TemplateTask => {
+    const children = tasks.filter((t) => t.parent_id === task.id);
+    const dependsOn = (task.blocked_by ?? []).map((id) => taskKeys.get(id)).filter((k): k is string => k !== undefined);
+    const milestone = typeof task.metadata.milestone_id === 'string' ? milestoneKeys.get(task.metadata.milestone_id) : undefined;
+    
+    return {
+      key: taskKeys.get(task.id)!,
+      title: generalize(task.title),
+      ...(task.description ? { description: generalize(task.description) } : {}),
+      ...(task.assigned_team ? { team: task.assigned_team } : {}),
+      priority: task.priority,
+      ...(task.estimated_hours !== null ? { estimated_hours: task.estimated_hours } : {}),
+      ...(task.tags.length > 0 ? { tags: task.tags } : {}),
+      ...(milestone ? { milestone } : {}),
+      ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+      ...(children.length > 0 ? { subtasks: children.map(toTemplateTask) } : {}),
+    };
+  };
+  
+  const ids = new Set(tasks.map((t) => t.id));
+  const roots = tasks.filter((t) => !t.parent_id || !ids.has(t.parent_id));
+  
+  return templateSchema.parse({
+    name,
+    description: description ?? `Saved from project ${project.name}`,
+    variables: {},
+    tech_stack: Object.fromEntries(Object.entries(project.tech_stack).filter((e): e is [string, string] => typeof e[1] === 'string')),
+    roadmap: roadmap
+      ? {
+        name: generalize(roadmap.name),
+        ...(roadmap.description ? { description: generalize(roadmap.description) } : {}),
+        ...(roadmap.end_date ? { duration_days: Math.max(1, daysFromStart(roadmap.end_date)) } : {}),
+        milestones,
+      }
+      : undefined,
+    tasks: roots.map(toTemplateTask),
+  });
+}
+
+export async function saveTemplate(template: ProjectTemplate, overwrite = false): Promise<string> {
+  const file = join(templatesDir(), `${template.name}.json`);
+  const exists = await access(file).then(() => true, () => false);
+  if (exists && !overwrite) throw new Error(`Template ${template.name} already exists; pass overwrite to replace it`);
+  
+  await writeFile(file, `${JSON.stringify(template, null, 2)}\n`);
+  return `templates/projects/${template.name}.json`;
+}
\ No newline at end of file
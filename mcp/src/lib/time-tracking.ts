@@ -0,0 +1,197 @@
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Task, TimeEntry } from '../db/supabase.js';
+import { findAgent } from './registry.js';
+
+const DAY = 86400000;
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function hoursBetween(start: string, end: string): number {
+  return round(Math.max(0, Date.parse(end) - Date.parse(start)) / 3600000);
+}
+
+async function log(agent: string, action: string, entry: TimeEntry, details: Record<string, unknown> = {}): Promise<void> {
+  await logActivity(agent, action, { entry_id: entry.id, hours: entry.hours, ...details }, {
+    projectId: entry.project_id,
+    team: entry.team ?? undefined,
+    relatedId: entry.task_id,
+    relatedType: 'task',
+  });
+}
+
+// ============================================
+// ACTUAL HOURS
+// ============================================
+async function recordedHours(taskId: string): Promise<number> {
+  const entries = await getStorage().table('time_entries').list({ where: { task_id: taskId, ended_at: { neq: null } } });
+  return round(entries.reduce((sum, e) => sum + (e.hours ?? 0), 0));
+}
+
+/** Sets tasks.actual_hours to the sum of the task's finished sessions */
+export async function syncActualHours(taskId: string): Promise<Task> {
+  return getStorage().tasks.update(taskId, { actual_hours: await recordedHours(taskId) });
+}
+
+/**
+ * Sets actual_hours by hand. The difference to the recorded sessions is
+ * logged as a manual entry, so later sessions add to it instead of
+ * overwriting it; going below the recorded sessions is refused.
+ */
+export async function setActualHours(taskId: string, hours: number, agent: string): Promise<Task> {
+  const recorded = await recordedHours(taskId);
+  if (hours < recorded) throw new Error(`actual_hours ${hours} is below the ${recorded}h recorded in time sessions of task ${taskId}`);
+  if (hours === recorded) return syncActualHours(taskId);
+  return (await logTime({ taskId, agent, hours: round(hours - recorded), note: 'actual_hours set by hand' })).task;
+}
+
+// ============================================
+// TIMERS
+// ============================================
+export async function findOpenTimer(agent: string): Promise<TimeEntry | null> {
+  const [open] = await getStorage().table('time_entries').list({ where: { agent, ended_at: null }, limit: 1 });
+  return open ?? null;
+}
+
+async function closeTimer(entry: TimeEntry, by: string, options: { note?: string; reason?: string } = {}): Promise<{ entry: TimeEntry; task: Task }> {
+  const endedAt = new Date().toISOString();
+  const data = await getStorage().table('time_entries').update(entry.id, {
+    ended_at: endedAt,
+    hours: hoursBetween(entry.started_at, endedAt),
+    note: options.note ?? entry.note,
+    closed_reason: options.reason ?? null,
+  });
+  
+  const task = await syncActualHours(entry.task_id);
+  await log(by, 'timer_stopped', data, { agent: entry.agent, reason: options.reason, actual_hours: task.actual_hours });
+  return { entry: data, task };
+}
+
+/**
+ * Starts a work session. An agent runs one timer at a time: with `switchTask`
+ * the running one is stopped first, otherwise starting a second one fails.
+ */
+export async function startTimer(input: { taskId: string; agent: string; note?: string; switchTask?: boolean }) {
+  const task = await findTaskById(input.taskId);
+  if (task.status !== 'in_progress') {
+    throw new Error(`Task "${task.title}" is ${task.status}; move it to in_progress before starting a timer`);
+  }
+  
+  const open = await findOpenTimer(input.agent);
+  let stopped: TimeEntry | null = null;
+  if (open) {
+    if (open.task_id === task.id) throw new Error(`${input.agent} already has a timer running on "${task.title}" since ${open.started_at}`);
+    if (!input.switchTask) throw new Error(`${input.agent} already has a timer running on task ${open.task_id}; stop it or start with switch`);
+    stopped = (await closeTimer(open, input.agent, { reason: 'switched task' })).entry;
+  }
+  
+  const profile = await findAgent(input.agent);
+  const entry = await getStorage().table('time_entries').insert({
+    project_id: task.project_id,
+    task_id: task.id,
+    agent: input.agent,
+    team: profile?.team ?? task.assigned_team,
+    source: 'timer',
+    started_at: new Date().toISOString(),
+    ended_at: null,
+    hours: null,
+    note: input.note ?? null,
+    closed_reason: null,
+  });
+  
+  await log(input.agent, 'timer_started', entry, { task: task.title });
+  return { entry, stopped };
+}
+
+export async function stopTimer(agent: string, note?: string): Promise<{ entry: TimeEntry; task: Task }> {
+  const open = await findOpenTimer(agent);
+  if (!open) throw new Error(`${agent} has no timer running`);
+  return closeTimer(open, agent, { note });
+}
+
+/** Closes every running timer on a task that left in_progress, or only `agent`'s */
+export async function closeTaskTimers(task: Pick<Task, 'id'>, by: string, reason: string, agent?: string): Promise<TimeEntry[]> {
+  const where = agent ? { task_id: task.id, agent, ended_at: null } : { task_id: task.id, ended_at: null };
+  const open = await getStorage().table('time_entries').list({ where });
+  const closed: TimeEntry[] = [];
+  for (const entry of open) closed.push((await closeTimer(entry, by, { reason })).entry);
+  return closed;
+}
+
+/** Records time worked without a timer; `startedAt` defaults to `hours` ago */
+export async function logTime(input: { taskId: string; agent: string; hours: number; startedAt?: string; note?: string }) {
+  const task = await findTaskById(input.taskId);
+  const startedAt = input.startedAt ?? new Date(Date.now() - input.hours * 3600000).toISOString();
+  if (Number.isNaN(Date.parse(startedAt))) throw new Error(`Invalid start time: ${input.startedAt}`);
+  
+  const profile = await findAgent(input.agent);
+  const entry = await getStorage().table('time_entries').insert({
+    project_id: task.project_id,
+    task_id: task.id,
+    agent: input.agent,
+    team: profile?.team ?? task.assigned_team,
+    source: 'manual',
+    started_at: new Date(startedAt).toISOString(),
+    ended_at: new Date(Date.parse(startedAt) + input.hours * 3600000).toISOString(),
+    hours: round(input.hours),
+    note: input.note ?? null,
+    closed_reason: null,
+  });
+  
+  const updated = await syncActualHours(task.id);
+  await log(input.agent, 'time_logged', entry, { task: task.title, actual_hours: updated.actual_hours });
+  return { entry, task: updated };
+}
+
+// ============================================
+// TIMESHEETS
+// ============================================
+/**
+ * Hours per day and task for an agent or a team, by session start, over
+ * [from, to] inclusive. Running timers are listed with their hours so far.
+ */
+export async function timesheet(filter: { agent?: string; team?: string; from: string; to: string; projectId?: string }) {
+  const from = Date.parse(filter.from);
+  const to = Date.parse(filter.to) + DAY;
+  if (Number.isNaN(from) || Number.isNaN(to)) throw new Error('from and to must be dates (YYYY-MM-DD)');
+  if (to <= from) throw new Error('to must not be before from');
+  
+  const entries = await getStorage().table('time_entries').list({
+    where: {
+      agent: filter.agent,
+      team: filter.team,
+      project_id: filter.projectId,
+      started_at: { gte: new Date(from).toISOString(), lt: new Date(to).toISOString() },
+    },
+    orderBy: [{ column: 'started_at' }],
+  });
+  
+  const now = new Date().toISOString();
+  const finished = entries.filter((e) => e.ended_at !== null);
+  const tasks = entries.length > 0
+    ? await getStorage().tasks.list({ where: { id: { in: [...new Set(entries.map((e) => e.task_id))] } } })
+    : [];
+  const titles = new Map(tasks.map((t) => [t.id, t.title]));
+  
+  const sum = (group: (e: TimeEntry) => string) => finished.reduce((acc, e) => {
+    const key = group(e);
+    acc[key] = round((acc[key] ?? 0) + (e.hours ?? 0));
+    return acc;
+  }, {} as Record<string, number>);
+  
+  return {
+    agent: filter.agent ?? null,
+    team: filter.team ?? null,
+    from: filter.from,
+    to: filter.to,
+    total_hours: round(finished.reduce((total, e) => total + (e.hours ?? 0), 0)),
+    by_day: sum((e) => e.started_at.slice(0, 10)),
+    by_task: Object.entries(sum((e) => e.task_id)).map(([id, hours]) => ({ task_id: id, title: titles.get(id) ?? null, hours })),
+    by_agent: sum((e) => e.agent),
+    running: entries
+      .filter((e) => e.ended_at === null)
+      .map((e) => ({ ...e, hours: hoursBetween(e.started_at, now), title: titles.get(e.task_id) ?? null })),
+    entries: finished,
+  };
+}
\ No newline at end of file
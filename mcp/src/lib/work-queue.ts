@@ -0,0 +1,129 @@
+import { findProjectById, findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Task, WorkItem, WorkItemKind, WorkItemStatus } from '../db/supabase.js';
+import { transitionTask } from './task-status.js';
+
+const OPEN_ITEMS: WorkItemStatus[] = ['queued', 'claimed'];
+
+export type NewWorkItem = {
+  task: Task;
+  kind: WorkItemKind;
+  agent: string;
+  reason?: string | null;
+  details?: Record<string, unknown>;
+  createdBy: string;
+};
+
+// ============================================
+// QUEUE
+// ============================================
+export async function enqueueWork(item: NewWorkItem): Promise<WorkItem> {
+  const data = await getStorage().table('work_queue').insert({
+    project_id: item.task.project_id,
+    task_id: item.task.id,
+    kind: item.kind,
+    agent: item.agent,
+    team: item.task.assigned_team,
+    status: 'queued',
+    priority: item.task.priority,
+    reason: item.reason ?? null,
+    details: item.details ?? {},
+    created_by: item.createdBy,
+    claimed_at: null,
+    completed_at: null,
+  });
+  
+  await logActivity(item.createdBy, 'work_queued', { kind: item.kind, agent: item.agent, task: item.task.title, reason: item.reason }, {
+    projectId: item.task.project_id,
+    team: item.task.assigned_team ?? undefined,
+    relatedId: item.task.id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+export async function listOpenWork(filter: { agent?: string; projectId?: string; kind?: WorkItemKind } = {}): Promise<WorkItem[]> {
+  return getStorage().table('work_queue').list({
+    where: {
+      agent: filter.agent?.toLowerCase(),
+      project_id: filter.projectId,
+      kind: filter.kind,
+      status: { in: OPEN_ITEMS },
+    },
+    orderBy: [{ column: 'created_at' }],
+  });
+}
+
+async function closeItem(item: WorkItem, status: 'done' | 'cancelled', agent: string, reason: string): Promise<WorkItem> {
+  const data = await getStorage().table('work_queue').update(item.id, {
+    status,
+    completed_at: new Date().toISOString(),
+    details: { ...item.details, closed_reason: reason },
+  });
+  
+  await logActivity(agent, `work_${status}`, { kind: item.kind, agent: item.agent, reason }, {
+    projectId: item.project_id,
+    relatedId: item.task_id,
+    relatedType: 'task',
+  });
+  return data;
+}
+
+/**
+ * Takes a queued item. A task item starts its task; work of a project that is
+ * not active stays queued until the project is resumed.
+ */
+export async function claimWork(itemId: string, agentName: string): Promise<{ item: WorkItem; task: Task }> {
+  const agent = agentName.toLowerCase();
+  const item = await getStorage().table('work_queue').get(itemId);
+  if (!item) throw new Error(`Work item not found: ${itemId}`);
+  if (item.agent !== agent) throw new Error(`Work item ${itemId} is queued for ${item.agent}, not ${agent}`);
+  if (item.status !== 'queued') throw new Error(`Work item ${itemId} is already ${item.status}`);
+  
+  const project = await findProjectById(item.project_id);
+  if (project.status !== 'active') throw new Error(`Project "${project.name}" is ${project.status}; its work is on hold`);
+  
+  let task = await findTaskById(item.task_id);
+  if (task.status === 'todo') {
+    task = await transitionTask(task, 'in_progress', { agent });
+  }
+  
+  const data = await getStorage().table('work_queue').update(itemId, {
+    status: 'claimed',
+    claimed_at: new Date().toISOString(),
+  });
+  
+  await logActivity(agent, 'work_claimed', { kind: item.kind, task: task.title }, {
+    projectId: item.project_id,
+    team: item.team ?? undefined,
+    relatedId: item.task_id,
+    relatedType: 'task',
+  });
+  return { item: data, task };
+}
+
+/**
+ * Closes open items whose task moved on: once the task reaches review or
+ * done, or is reassigned or shelved.
+ */
+export async function reconcileWork(projectId: string, tasks: Task[], agent: string): Promise<WorkItem[]> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const closed: WorkItem[] = [];
+  
+  for (const item of await listOpenWork({ projectId })) {
+    const task = byId.get(item.task_id);
+    let outcome: ['done' | 'cancelled', string] | null = null;
+    
+    if (!task) {
+      outcome = ['cancelled', 'task removed'];
+    } else if (task.status === 'review' || task.status === 'done') {
+      outcome = ['done', `task in ${task.status}`];
+    } else if (task.assigned_agent !== item.agent) {
+      outcome = ['cancelled', `task reassigned to ${task.assigned_agent ?? 'nobody'}`];
+    } else if (task.status === 'backlog') {
+      outcome = ['cancelled', 'task moved back to backlog'];
+    }
+    
+    if (outcome) closed.push(await closeItem(item, outcome[0], agent, outcome[1]));
+  }
+  return closed;
+}
\ No newline at end of file
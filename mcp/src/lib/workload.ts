@@ -0,0 +1,34 @@
+import { getStorage } from '../db/storage.js';
+import type { PriorityLevel, TaskStatus } from '../db/supabase.js';
+
+export type AgentLoad = {
+  open: number;
+  by_priority: Record<PriorityLevel, number>;
+  by_status: Partial<Record<TaskStatus, number>>;
+};
+
+export function emptyLoad(): AgentLoad {
+  return { open: 0, by_priority: { critical: 0, high: 0, medium: 0, low: 0 }, by_status: {} };
+}
+
+/** Open (not done) tasks per assigned agent; unassigned team tasks are keyed by team under `unassigned` */
+export async function getOpenTaskLoad(team?: string): Promise<{ agents: Map<string, AgentLoad>; unassigned: Map<string, AgentLoad> }> {
+  const data = await getStorage().tasks.list({ where: { status: { neq: 'done' }, assigned_team: team } });
+  
+  const agents = new Map<string, AgentLoad>();
+  const unassigned = new Map<string, AgentLoad>();
+  
+  for (const task of data) {
+    const key = task.assigned_agent ?? task.assigned_team;
+    if (!key) continue;
+    
+    const bucket = task.assigned_agent ? agents : unassigned;
+    const load = bucket.get(key) ?? emptyLoad();
+    load.open++;
+    load.by_priority[task.priority]++;
+    load.by_status[task.status] = (load.by_status[task.status] ?? 0) + 1;
+    bucket.set(key, load);
+  }
+  
+  return { agents, unassigned };
+}
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readFile, realpath, stat } from 'node:fs/promises';
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+/** Internal directory inside the workspace; not reachable through file tools */
+const INTERNAL_DIR = '.ha';
+
+export function getWorkspaceRoot(): string {
+  return resolve(process.env.HA_WORKSPACE_ROOT || './workspace');
+}
+
+function isInside(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/** Deepest existing ancestor, resolved through symlinks */
+async function realExisting(target: string): Promise<string> {
+  let current = target;
+  for (;;) {
+    try {
+      return await realpath(current);
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return current;
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Maps a workspace-relative path to an absolute one. Rejects absolute
+ * paths, `..` escapes, the internal directory and symlinks pointing outside
+ * the root.
+ */
+export async function resolveWorkspacePath(relativePath: string): Promise<{ absolute: string; path: string }> {
+  if (relativePath.includes('\0')) throw new Error('Invalid path');
+  if (isAbsolute(relativePath)) throw new Error(`Path must be relative to the workspace: ${relativePath}`);
+  
+  const root = getWorkspaceRoot();
+  await mkdir(root, { recursive: true });
+  
+  const absolute = resolve(root, relativePath);
+  if (!isInside(root, absolute)) throw new Error(`Path escapes the workspace: ${relativePath}`);
+  
+  const path = relative(root, absolute).split(sep).join('/');
+  if (path === INTERNAL_DIR || path.startsWith(`${INTERNAL_DIR}/`)) {
+    throw new Error(`Path is reserved: ${relativePath}`);
+  }
+  
+  const realRoot = await realpath(root);
+  if (!isInside(realRoot, await realExisting(absolute))) {
+    throw new Error(`Path escapes the workspace through a symlink: ${relativePath}`);
+  }
+  
+  return { absolute, path };
+}
+
+export function isInternalPath(path: string): boolean {
+  return path === INTERNAL_DIR || path.startsWith(`${INTERNAL_DIR}/`);
+}
+
+// ============================================
+// FILE METADATA
+// ============================================
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.sql': 'application/sql',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+};
+
+export function mimeType(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function isTextMime(mime: string): boolean {
+  return mime.startsWith('text/') || ['application/json', 'application/yaml', 'application/xml', 'application/sql', 'image/svg+xml'].includes(mime);
+}
+
+export async function describeFile(absolute: string, path: string) {
+  const [content, info] = await Promise.all([readFile(absolute), stat(absolute)]);
+  return {
+    path,
+    size: info.size,
+    sha256: createHash('sha256').update(content).digest('hex'),
+    mime_type: mimeType(path),
+    modified_at: info.mtime.toISOString(),
+  };
+}
+
+// ============================================
+// VERSION SNAPSHOTS
+// ============================================
+/**
+ * Content-addressed copies of attached files, so every deliverable version
+ * can still be read and diffed after the working file changes.
+ */
+function snapshotPath(sha256: string): string {
+  return join(getWorkspaceRoot(), INTERNAL_DIR, 'versions', sha256);
+}
+
+export async function snapshotFile(absolute: string, sha256: string): Promise<void> {
+  const target = snapshotPath(sha256);
+  await mkdir(dirname(target), { recursive: true });
+  await copyFile(absolute, target);
+}
+
+export async function readSnapshot(sha256: string): Promise<Buffer> {
+  try {
+    return await readFile(snapshotPath(sha256));
+  } catch {
+    throw new Error(`Snapshot ${sha256.slice(0, 12)} is missing from the workspace`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import type { ContentCalendar, ContentPlatform } from '../db/supabase.js';
+import { PLATFORM_RULES } from '../lib/platforms.js';
+import { callN8nWebhook } from '../webhooks/n8n.js';
+
+// ============================================
+// ADAPTER CONTRACT
+// ============================================
+export interface PublishRequest {
+  item: ContentCalendar;
+  /** Text per post; more than one for threads */
+  segments: string[];
+}
+
+export interface PublishResult {
+  /** Platform IDs of the published posts, in segment order */
+  external_ids: string[];
+  url?: string;
+}
+
+export interface PublishAdapter {
+  readonly name: string;
+  /** Nothing reaches the platform; items stay scheduled instead of being marked posted */
+  readonly dryRun?: boolean;
+  publish(request: PublishRequest): Promise<PublishResult>;
+}
+
+export type AdapterKind = 'dry-run' | 'file' | 'n8n';
+
+// ============================================
+// BUILT-IN ADAPTERS
+// ============================================
+/** Publishes nothing; logs what would have been posted */
+export function createDryRunAdapter(): PublishAdapter {
+  return {
+    name: 'dry-run',
+    dryRun: true,
+    async publish({ item, segments }) {
+      console.error(`[dry-run] ${item.platform} ${item.content_type} ${item.id}: ${segments.length} post(s)`);
+      return { external_ids: segments.map((_, i) => `dry-run-${item.id}-${i + 1}`) };
+    },
+  };
+}
+
+/** Appends each post as a JSON line to <dir>/<platform>.jsonl */
+export function createFileSinkAdapter(dir: string): PublishAdapter {
+  const root = resolve(dir);
+  
+  return {
+    name: 'file',
+    async publish({ item, segments }) {
+      await mkdir(root, { recursive: true });
+      const file = join(root, `${item.platform}.jsonl`);
+      const postedAt = new Date().toISOString();
+      
+      const lines = segments.map((text, i) => JSON.stringify({
+        content_id: item.id,
+        platform: item.platform,
+        content_type: item.content_type,
+        segment: i + 1,
+        of: segments.length,
+        text,
+        media: [item.image_path, item.video_path, ...(item.media_urls ?? [])].filter(Boolean),
+        posted_at: postedAt,
+      }));
+      await appendFile(file, lines.join('\n') + '\n', 'utf8');
+      
+      return { external_ids: segments.map((_, i) => `file-${item.id}-${i + 1}`), url: file };
+    },
+  };
+}
+
+/**
+ * Hands the post to the n8n `content-publish` workflow, which talks to the
+ * platform API and answers with the published IDs.
+ */
+export function createN8nPublishAdapter(): PublishAdapter {
+  return {
+    name: 'n8n',
+    async publish({ item, segments }) {
+      const result = await callN8nWebhook<Partial<PublishResult>>('content-publish', {
+        content_id: item.id,
+        project_id: item.project_id,
+        platform: item.platform,
+        content_type: item.content_type,
+        segments,
+        media: [item.image_path, item.video_path, ...(item.media_urls ?? [])].filter(Boolean),
+        scheduled_for: item.scheduled_for,
+      }, { idempotencyKey: `${item.id}:${item.scheduled_for}` });
+      
+      if (!Array.isArray(result.external_ids) || result.external_ids.length === 0) {
+        throw new Error('n8n content-publish returned no external_ids');
+      }
+      return { external_ids: result.external_ids.map(String), url: result.url };
+    },
+  };
+}
+
+export function createAdapter(kind: string): PublishAdapter {
+  switch (kind as AdapterKind) {
+    case 'dry-run':
+      return createDryRunAdapter();
+    case 'file':
+      return createFileSinkAdapter(process.env.CONTENT_PUBLISHER_DIR || './published');
+    case 'n8n':
+      return createN8nPublishAdapter();
+    default:
+      throw new Error(`Unknown publish adapter: ${kind} (expected dry-run, file or n8n)`);
+  }
+}
+
+// ============================================
+// ADAPTER REGISTRY
+// ============================================
+const adapters = new Map<ContentPlatform, PublishAdapter>();
+let defaultAdapter: PublishAdapter | null = null;
+let configured = false;
+
+function getDefaultAdapter(): PublishAdapter {
+  if (!defaultAdapter) {
+    defaultAdapter = createAdapter(process.env.CONTENT_PUBLISHER_ADAPTER || 'dry-run');
+  }
+  return defaultAdapter;
+}
+
+/**
+ * Registers the per-platform routes of CONTENT_PUBLISHER_PLATFORMS, e.g.
+ * "twitter=n8n,linkedin=file". Every entry is validated before any is
+ * registered, so a bad entry fails every call instead of falling back.
+ */
+function configureFromEnv(): void {
+  if (configured) return;
+  
+  const routes = (process.env.CONTENT_PUBLISHER_PLATFORMS ?? '').split(',').map((r) => r.trim()).filter(Boolean).map((route) => {
+    const [platform, kind] = route.split('=').map((part) => part.trim());
+    if (!platform || !kind) throw new Error(`Invalid CONTENT_PUBLISHER_PLATFORMS entry: ${route} (expected platform=adapter)`);
+    if (!(platform in PLATFORM_RULES)) {
+      throw new Error(`Unknown platform in CONTENT_PUBLISHER_PLATFORMS: ${platform} (expected one of ${Object.keys(PLATFORM_RULES).join(', ')})`);
+    }
+    return { platform: platform as ContentPlatform, adapter: createAdapter(kind) };
+  });
+  
+  for (const { platform, adapter } of routes) {
+    if (!adapters.has(platform)) registerPublishAdapter(platform, adapter);
+  }
+  configured = true;
+}
+
+/** Route one platform through a specific adapter, e.g. a real API client */
+export function registerPublishAdapter(platform: ContentPlatform, adapter: PublishAdapter): void {
+  adapters.set(platform, adapter);
+}
+
+/** The platform's adapter, else the CONTENT_PUBLISHER_ADAPTER default; throws on bad configuration */
+export function getPublishAdapter(platform: ContentPlatform): PublishAdapter {
+  configureFromEnv();
+  return adapters.get(platform) ?? getDefaultAdapter();
+}
\ No newline at end of file
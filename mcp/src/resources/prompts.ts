@@ -0,0 +1,139 @@
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { findTaskById } from '../db/storage.js';
+import { inboxUri, projectUri, readInbox, readProject } from './resources.js';
+
+/** Used when commands/<name>.md is missing or empty */
+const FALLBACK_WORKFLOWS: Record<string, string> = {
+  task: [
+    'Handle this task request with the ha_task_* tools.',
+    'Find an existing task first (ha_task_list), otherwise create one (ha_task_create) with priority, tags and an estimate.',
+    'Assign it with ha_task_auto_assign unless a team or agent is named, and move it through backlog → todo → in_progress → review → done with ha_task_status.',
+  ].join('\n'),
+  handoff: [
+    'Hand this task over to the receiving agent with ha_handoff_create.',
+    'Summarize what is done and list the open questions; deliverables and related learnings are attached automatically.',
+    'The receiver accepts (ha_handoff_accept), rejects or asks for more information; answer with ha_handoff_reply. Earlier handoffs: ha_handoff_chain.',
+  ].join('\n'),
+  meeting: [
+    'Run a meeting between the participants.',
+    'Schedule it with ha_meeting_schedule and an agenda, start it, let each participant speak in turn with ha_meeting_say,',
+    'then close it with ha_meeting_close, recording decisions and action items with owners.',
+  ].join('\n'),
+  status: [
+    'Report the current status.',
+    'Cover progress by status, blocked and overdue work, who is working on what, and the next steps.',
+    'Use ha_status_project and ha_task_list for anything not included below.',
+  ].join('\n'),
+};
+
+/** commands/ at the repository root, relative to src/resources or dist/resources */
+function commandsDir(): string {
+  return process.env.HA_COMMANDS_DIR
+    ? resolve(process.env.HA_COMMANDS_DIR)
+    : fileURLToPath(new URL('../../../commands', import.meta.url));
+}
+
+async function readWorkflow(command: string): Promise<string> {
+  const source = await readFile(join(commandsDir(), `${command}.md`), 'utf8').catch(() => '');
+  const body = source.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '').trim();
+  return body || FALLBACK_WORKFLOWS[command]!;
+}
+
+type Attachment = { uri: string; data: unknown };
+
+/**
+ * The command's workflow with the arguments filled in for `$ARGUMENTS`
+ * (or appended), followed by live data as embedded resources.
+ */
+async function render(command: string, args: Record<string, string | undefined>, attachments: Attachment[] = []): Promise<GetPromptResult> {
+  const workflow = await readWorkflow(command);
+  const lines = Object.entries(args)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+  const text = workflow.includes('$ARGUMENTS')
+    ? workflow.replaceAll('$ARGUMENTS', lines)
+    : `${workflow}\n\n## Arguments\n${lines || '(none)'}`;
+  
+  return {
+    description: `/${command} workflow`,
+    messages: [
+      { role: 'user', content: { type: 'text', text } },
+      ...attachments.map(({ uri, data }) => ({
+        role: 'user' as const,
+        content: {
+          type: 'resource' as const,
+          resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+        },
+      })),
+    ],
+  };
+}
+
+// ============================================
+// COMMAND PROMPTS
+// ============================================
+export function registerCommandPrompts(server: McpServer): void {
+  server.prompt(
+    'task',
+    'Create, assign or advance a task (/task)',
+    {
+      request: z.string().describe('What needs to be done'),
+      project: z.string().optional().describe('Project slug'),
+      agent: z.string().optional().describe('Agent running the workflow'),
+    },
+    async (args) => render('task', args, args.project
+      ? [{ uri: projectUri(args.project), data: await readProject(args.project) }]
+      : [])
+  );
+  
+  server.prompt(
+    'handoff',
+    'Hand a task over to another agent (/handoff)',
+    {
+      task_id: z.string().describe('Task to hand over'),
+      to: z.string().describe('Receiving agent'),
+      from: z.string().optional().describe('Handing-over agent (default: current assignee)'),
+      notes: z.string().optional().describe('Context for the receiver'),
+    },
+    async (args, extra) => {
+      const task = await findTaskById(args.task_id);
+      return render('handoff', { ...args, from: args.from ?? task.assigned_agent ?? undefined }, [
+        { uri: `ha://task/${task.id}`, data: task },
+        { uri: inboxUri(args.to), data: await readInbox(args.to, extra) },
+      ]);
+    }
+  );
+  
+  server.prompt(
+    'meeting',
+    'Run a meeting between agents (/meeting)',
+    {
+      topic: z.string().describe('What the meeting should decide or clarify'),
+      participants: z.string().describe('Comma-separated agent names'),
+      project: z.string().optional().describe('Project slug'),
+    },
+    async (args) => render('meeting', args, args.project
+      ? [{ uri: projectUri(args.project), data: await readProject(args.project) }]
+      : [])
+  );
+  
+  server.prompt(
+    'status',
+    'Status report for a project or an agent (/status)',
+    {
+      project: z.string().optional().describe('Project slug'),
+      agent: z.string().optional().describe('Agent name'),
+    },
+    async (args, extra) => render('status', args, [
+      ...(args.project ? [{ uri: projectUri(args.project), data: await readProject(args.project) }] : []),
+      ...(args.agent ? [{ uri: inboxUri(args.agent), data: await readInbox(args.agent, extra) }] : []),
+    ])
+  );
+}
\ No newline at end of file
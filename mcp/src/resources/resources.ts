@@ -0,0 +1,289 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { onChange } from '../db/changes.js';
+import type { ChangeEvent } from '../db/changes.js';
+import { findProjectById, findProjectBySlug, getStorage } from '../db/storage.js';
+import type { Project, Task, TaskStatus } from '../db/supabase.js';
+import { PRIORITY_WEIGHT } from '../lib/assignment.js';
+import { listHandoffs } from '../lib/handoffs.js';
+import { getInbox } from '../lib/messages.js';
+import { actingAgent } from '../lib/permissions.js';
+import type { HandlerExtra } from '../lib/permissions.js';
+import { findAgent, getRegistry, resolveAgentName } from '../lib/registry.js';
+import { getSkillCatalog, skillsDir } from '../lib/skills.js';
+
+const OPEN_STATUSES: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'review', 'blocked'];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const projectUri = (slug: string) => `ha://project/${slug}`;
+export const projectTasksUri = (slug: string) => `ha://project/${slug}/tasks`;
+export const inboxUri = (agent: string) => `ha://agent/${agent}/inbox`;
+export const skillUri = (category: string, name: string) => `ha://skill/${category}/${name}`;
+
+const INBOX_URI = /^ha:\/\/agent\/([^/]+)\/inbox$/;
+
+function json(uri: URL, data: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] ?? '' : value ?? '');
+}
+
+function byPriority(a: Task, b: Task): number {
+  return PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority] || a.created_at.localeCompare(b.created_at);
+}
+
+async function projectFor(identifier: string): Promise<Project> {
+  const project = UUID.test(identifier)
+    ? await getStorage().projects.get(identifier)
+    : await findProjectBySlug(identifier);
+  if (!project) throw new Error(`Project not found: ${identifier}`);
+  return project;
+}
+
+async function listProjects(): Promise<Project[]> {
+  return getStorage().projects.list({
+    where: { status: { neq: 'archived' } },
+    orderBy: [{ column: 'updated_at', ascending: false }],
+    limit: 100,
+  });
+}
+
+// ============================================
+// CONTENT
+// ============================================
+export async function readProject(slug: string) {
+  const project = await projectFor(slug);
+  const tasks = await getStorage().tasks.list({ where: { project_id: project.id } });
+  const byStatus = tasks.reduce((acc, t) => {
+    acc[t.status] = (acc[t.status] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  
+  return {
+    ...project,
+    tasks: { total: tasks.length, by_status: byStatus, uri: projectTasksUri(project.slug) },
+  };
+}
+
+async function readProjectTasks(slug: string) {
+  const project = await projectFor(slug);
+  const tasks = await getStorage().tasks.list({ where: { project_id: project.id } });
+  return { project: { id: project.id, slug: project.slug, name: project.name }, tasks: tasks.sort(byPriority) };
+}
+
+/**
+ * Open work for an agent: its own tasks, unassigned tasks waiting in its team,
+ * open handoffs and unread messages. Messages are private, so they are left
+ * out when the request is authenticated as someone else.
+ */
+export async function readInbox(name: string, extra?: HandlerExtra) {
+  const agent = await resolveAgentName(name);
+  const caller = extra?.authInfo?.clientId;
+  const profile = await findAgent(agent);
+  const storage = getStorage();
+  
+  const [assigned, queue, incoming, outgoing, messages] = await Promise.all([
+    storage.tasks.list({ where: { assigned_agent: agent, status: { in: OPEN_STATUSES } } }),
+    profile
+      ? storage.tasks.list({ where: { assigned_team: profile.team, assigned_agent: null, status: { in: ['backlog', 'todo'] } } })
+      : Promise.resolve([]),
+    listHandoffs({ agent, direction: 'incoming' }),
+    listHandoffs({ agent, direction: 'outgoing', status: 'info_requested' }),
+    !caller || caller === agent ? getInbox(agent, { unreadOnly: true, limit: 20 }) : null,
+  ]);
+  
+  return {
+    agent,
+    team: profile?.team ?? null,
+    role: profile?.role ?? null,
+    tasks: assigned.sort(byPriority),
+    team_queue: queue.sort(byPriority),
+    handoffs: { incoming, awaiting_reply: outgoing },
+    ...(messages ? { messages: { unread: messages.unread, items: messages.items } } : {}),
+  };
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+/** Resource URIs whose content a storage write may have changed */
+async function affectedUris(event: ChangeEvent): Promise<{ uris: Set<string>; listChanged: boolean }> {
+  const rows = [event.row, event.previous].filter((r): r is Record<string, unknown> => r !== null);
+  const uris = new Set<string>();
+  let listChanged = false;
+  
+  if (event.table === 'projects') {
+    const slugs = new Set(rows.map((r) => r.slug as string));
+    for (const slug of slugs) {
+      uris.add(projectUri(slug));
+      uris.add(projectTasksUri(slug));
+    }
+    listChanged = event.action !== 'update' || slugs.size > 1;
+  }
+  
+  if (event.table === 'tasks') {
+    const { agents: roster } = await getRegistry();
+    for (const row of rows) {
+      const project = await findProjectById(row.project_id as string).catch(() => null);
+      if (project) {
+        uris.add(projectUri(project.slug));
+        uris.add(projectTasksUri(project.slug));
+      }
+      if (row.assigned_agent) {
+        uris.add(inboxUri(row.assigned_agent as string));
+      } else if (row.assigned_team) {
+        // Unassigned team work shows up in every member's queue
+        for (const member of roster.filter((a) => a.team === row.assigned_team)) uris.add(inboxUri(member.name));
+      }
+    }
+  }
+  
+  if (event.table === 'handoffs') {
+    for (const row of rows) {
+      uris.add(inboxUri(row.from_agent as string));
+      uris.add(inboxUri(row.to_agent as string));
+    }
+  }
+  
+  if (event.table === 'message_receipts') {
+    for (const row of rows) uris.add(inboxUri(row.agent as string));
+  }
+  
+  return { uris, listChanged };
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe for one server.
+ * The change listener only exists while the client holds a subscription.
+ */
+function trackSubscriptions(server: McpServer): void {
+  const subscribed = new Set<string>();
+  let stop: (() => void) | null = null;
+  
+  const notify = async (event: ChangeEvent) => {
+    const { uris, listChanged } = await affectedUris(event);
+    if (!server.isConnected()) return;
+    
+    if (listChanged) server.sendResourceListChanged();
+    for (const uri of uris) {
+      if (subscribed.has(uri)) await server.server.sendResourceUpdated({ uri });
+    }
+  };
+  
+  const release = () => {
+    subscribed.clear();
+    stop?.();
+    stop = null;
+  };
+  
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }, extra) => {
+    // Inboxes hold private messages: only their own agent may follow them
+    const inbox = INBOX_URI.exec(params.uri);
+    if (inbox) await actingAgent(decodeURIComponent(inbox[1]!), extra);
+    
+    subscribed.add(params.uri);
+    stop ??= onChange((event) => {
+      notify(event).catch((error) => console.error('Failed to send resource update:', error));
+    });
+    return {};
+  });
+  
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscribed.delete(params.uri);
+    if (subscribed.size === 0) release();
+    return {};
+  });
+  
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    release();
+    onclose?.();
+  };
+}
+
+// ============================================
+// RESOURCES
+// ============================================
+export function registerResources(server: McpServer): void {
+  trackSubscriptions(server);
+  
+  server.resource(
+    'project',
+    new ResourceTemplate('ha://project/{slug}', {
+      list: async () => ({
+        resources: (await listProjects()).map((p) => ({
+          uri: projectUri(p.slug),
+          name: p.name,
+          description: p.description ?? undefined,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { description: 'A project with its task counts by status', mimeType: 'application/json' },
+    async (uri, { slug }) => json(uri, await readProject(variable(slug)))
+  );
+  
+  server.resource(
+    'project-tasks',
+    new ResourceTemplate('ha://project/{slug}/tasks', {
+      list: async () => ({
+        resources: (await listProjects()).map((p) => ({
+          uri: projectTasksUri(p.slug),
+          name: `${p.name} tasks`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { description: 'All tasks of a project, highest priority first', mimeType: 'application/json' },
+    async (uri, { slug }) => json(uri, await readProjectTasks(variable(slug)))
+  );
+  
+  server.resource(
+    'agent-inbox',
+    new ResourceTemplate('ha://agent/{name}/inbox', {
+      list: async () => ({
+        resources: (await getRegistry()).agents.map((a) => ({
+          uri: inboxUri(a.name),
+          name: `${a.name} inbox`,
+          description: `${a.role} in ${a.team}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { description: "An agent's open tasks, its team's unassigned queue, open handoffs and unread messages; on an authenticated connection only the agent's own", mimeType: 'application/json' },
+    async (uri, { name }, extra) => json(uri, await readInbox(await actingAgent(variable(name), extra), extra))
+  );
+  
+  server.resource(
+    'skill',
+    new ResourceTemplate('ha://skill/{category}/{name}', {
+      list: async () => ({
+        resources: (await getSkillCatalog()).map((s) => ({
+          uri: skillUri(s.category, s.name),
+          name: s.name,
+          description: `${s.category} skill`,
+          mimeType: 'text/markdown',
+        })),
+      }),
+    }),
+    { description: 'A skill guide from skills/<category>/<name>/SKILL.md', mimeType: 'text/markdown' },
+    async (uri, { category, name }) => {
+      const skill = (await getSkillCatalog()).find((s) => s.category === variable(category) && s.name === variable(name));
+      if (!skill) throw new Error(`Skill not found: ${variable(category)}/${variable(name)}`);
+      
+      const text = await readFile(join(skillsDir(), skill.category, skill.name, 'SKILL.md'), 'utf8');
+      return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text }] };
+    }
+  );
+}
\ No newline at end of file
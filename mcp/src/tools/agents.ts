@@ -0,0 +1,62 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getRegistry, loadRegistry, resolveTeamName } from '../lib/registry.js';
+import { emptyLoad, getOpenTaskLoad } from '../lib/workload.js';
+
+// ============================================
+// AGENT & TEAM TOOLS
+// ============================================
+export function registerAgentTools(server: McpServer): void {
+  server.tool(
+    'ha_agent_list',
+    'List agents from the roster with role, seniority and current open-task load',
+    {
+      team: z.string().optional().describe('Only agents of this team'),
+      reload: z.boolean().optional().describe('Re-read the agents/ directory first'),
+    },
+    async ({ team, reload }) => {
+      const registry = reload ? await loadRegistry() : await getRegistry();
+      const teamName = team ? await resolveTeamName(team) : undefined;
+      const { agents: load } = await getOpenTaskLoad(teamName);
+      
+      const data = registry.agents
+        .filter((a) => !teamName || a.team === teamName)
+        .map((a) => ({ ...a, load: load.get(a.name) ?? emptyLoad() }));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_team_list',
+    'List teams with their lead, members and open-task load',
+    {
+      reload: z.boolean().optional().describe('Re-read the agents/ directory first'),
+    },
+    async ({ reload }) => {
+      const registry = reload ? await loadRegistry() : await getRegistry();
+      const { agents: load, unassigned } = await getOpenTaskLoad();
+      
+      const data = registry.teams.map((team) => {
+        const members = team.members.map((name) => {
+          const agentLoad = load.get(name) ?? emptyLoad();
+          return { name, open_tasks: agentLoad.open, by_priority: agentLoad.by_priority };
+        });
+        
+        return {
+          ...team,
+          members,
+          open_tasks: members.reduce((sum, m) => sum + m.open_tasks, 0),
+          unassigned_open_tasks: unassigned.get(team.name)?.open ?? 0,
+        };
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import { callbackUrl, completeJob, createJob, failJob, getJob, markJobRunning } from '../lib/jobs.js';
+import type { MediaKind } from '../lib/jobs.js';
+import { callN8nWebhook } from '../webhooks/n8n.js';
+
+interface GenerationTarget {
+  type: 'content' | 'task';
+  id: string;
+  projectId: string;
+  prompt: string;
+}
+
+/**
+ * What the n8n generation workflows answer with: the asset right away, or
+ * nothing yet when the result will arrive later on the job's callback URL.
+ */
+interface GenerationResponse {
+  path?: string;
+  url?: string;
+}
+
+async function resolveTarget(kind: MediaKind, contentId?: string, taskId?: string, prompt?: string): Promise<GenerationTarget> {
+  if (contentId && taskId) throw new Error('Pass either content_id or task_id, not both');
+  
+  if (contentId) {
+    const data = await getStorage().table('content_calendar').get(contentId);
+    if (!data) throw new Error(`Content not found: ${contentId}`);
+    
+    const storedPrompt = kind === 'image' ? data.image_prompt : data.video_prompt;
+    const finalPrompt = prompt ?? storedPrompt;
+    if (!finalPrompt) throw new Error(`No prompt given and content ${contentId} has no ${kind}_prompt`);
+    return { type: 'content', id: contentId, projectId: data.project_id, prompt: finalPrompt };
+  }
+  
+  if (taskId) {
+    if (!prompt) throw new Error('prompt is required when generating for a task');
+    const task = await findTaskById(taskId);
+    return { type: 'task', id: taskId, projectId: task.project_id, prompt };
+  }
+  
+  throw new Error('Either content_id or task_id is required');
+}
+
+async function generate(
+  kind: MediaKind,
+  args: { content_id?: string; task_id?: string; prompt?: string; agent?: string },
+  options: Record<string, unknown>
+) {
+  const agent = args.agent ?? 'system';
+  const target = await resolveTarget(kind, args.content_id, args.task_id, args.prompt);
+  
+  const pending = await createJob({
+    kind: `generate-${kind}`,
+    projectId: target.projectId,
+    target: { type: target.type, id: target.id },
+    request: { prompt: target.prompt, options },
+    requestedBy: agent,
+  });
+  // Running before n8n is called: a fast callback can then finish the job without being overwritten
+  const job = await markJobRunning(pending);
+  const callback = callbackUrl(job.id);
+  
+  let response: GenerationResponse;
+  try {
+    response = await callN8nWebhook<GenerationResponse>(`generate-${kind}`, {
+      kind,
+      prompt: target.prompt,
+      options,
+      target: { type: target.type, id: target.id },
+      project_id: target.projectId,
+      requested_by: agent,
+      job_id: job.id,
+      callback_url: callback,
+    }, { idempotencyKey: job.id });
+  } catch (error) {
+    await failJob(job, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+  
+  const current = await getJob(job.id);
+  if (current.status === 'completed' || current.status === 'failed') return current;
+  
+  const assetPath = response.path ?? response.url;
+  if (assetPath) {
+    const done = await completeJob(job, { ...response });
+    if (done.status === 'failed') throw new Error(`Failed to store generated ${kind}: ${done.error}`);
+    
+    await logActivity(agent, `ai_${kind}_generated`, { path: assetPath, prompt: target.prompt }, {
+      projectId: target.projectId,
+      relatedId: target.id,
+      relatedType: target.type,
+    });
+    return done;
+  }
+  
+  if (!callback) {
+    await failJob(job, `n8n generate-${kind} returned no asset path and CALLBACK_PORT is not set`);
+    throw new Error(`n8n generate-${kind} returned no asset path`);
+  }
+  
+  await logActivity(agent, `ai_${kind}_requested`, { job_id: job.id, prompt: target.prompt }, {
+    projectId: target.projectId,
+    relatedId: target.id,
+    relatedType: target.type,
+  });
+  return getJob(job.id);
+}
+
+// ============================================
+// AI SERVICE TOOLS
+// ============================================
+export function registerAiServiceTools(server: McpServer): void {
+  server.tool(
+    'ha_ai_generate_image',
+    'Generate an image via n8n and attach it to a content item or task; returns the job (poll ha_job_status while running)',
+    {
+      content_id: z.string().optional().describe('Content item; defaults the prompt to its image_prompt'),
+      task_id: z.string().optional().describe('Task to attach the image to as a deliverable'),
+      prompt: z.string().optional(),
+      aspect_ratio: z.string().optional().describe('e.g. 1:1, 16:9, 9:16'),
+      style: z.string().optional(),
+      agent: z.string().optional().describe('Agent requesting the image'),
+    },
+    async ({ content_id, task_id, prompt, aspect_ratio, style, agent }) => {
+      const data = await generate('image', { content_id, task_id, prompt, agent }, { aspect_ratio, style });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_ai_generate_video',
+    'Generate a video via n8n and attach it to a content item or task; returns the job (poll ha_job_status while running)',
+    {
+      content_id: z.string().optional().describe('Content item; defaults the prompt to its video_prompt'),
+      task_id: z.string().optional().describe('Task to attach the video to as a deliverable'),
+      prompt: z.string().optional(),
+      aspect_ratio: z.string().optional().describe('e.g. 16:9, 9:16'),
+      duration_seconds: z.number().optional(),
+      agent: z.string().optional().describe('Agent requesting the video'),
+    },
+    async ({ content_id, task_id, prompt, aspect_ratio, duration_seconds, agent }) => {
+      const data = await generate('video', { content_id, task_id, prompt, agent }, { aspect_ratio, duration_seconds });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,388 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getStorage, logActivity } from '../db/storage.js';
+import type { ContentCalendar, ContentStatus } from '../db/supabase.js';
+import { PLATFORM_RULES, validateContent } from '../lib/platforms.js';
+import { publishDueContent } from '../workers/content-publisher.js';
+
+const platformSchema = z.enum(['twitter', 'linkedin', 'instagram', 'tiktok', 'youtube', 'facebook', 'pinterest', 'threads']);
+const contentTypeSchema = z.enum(['post', 'thread', 'story', 'reel', 'video', 'article', 'newsletter']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getContent(contentId: string): Promise<ContentCalendar> {
+  const item = await getStorage().table('content_calendar').get(contentId);
+  if (!item) throw new Error(`Content not found: ${contentId}`);
+  return item;
+}
+
+async function updateContent(contentId: string, updateData: Record<string, unknown>): Promise<ContentCalendar> {
+  return getStorage().table('content_calendar').update(contentId, updateData);
+}
+
+function assertStatus(item: ContentCalendar, allowed: ContentStatus[], action: string): void {
+  if (!allowed.includes(item.status)) {
+    throw new Error(`Cannot ${action} content ${item.id}: status is ${item.status}`);
+  }
+}
+
+function assertSchedulable(item: ContentCalendar, scheduledFor: string): string {
+  const time = Date.parse(scheduledFor);
+  if (Number.isNaN(time)) throw new Error(`Invalid scheduled_for: ${scheduledFor}`);
+  if (time <= Date.now()) throw new Error('scheduled_for must be in the future');
+  
+  const hasMedia = Boolean(item.image_path || item.video_path || item.media_urls?.length);
+  if (PLATFORM_RULES[item.platform].requiresMedia && !hasMedia) {
+    throw new Error(`${item.platform} posts need an image or video before they can be scheduled`);
+  }
+  return new Date(time).toISOString();
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** Week rows (Monday first) covering the week or month around the anchor date */
+function calendarRange(view: 'week' | 'month', anchor: Date): { from: Date; to: Date } {
+  const day = startOfUtcDay(anchor);
+  const mondayOffset = (d: Date) => (d.getUTCDay() + 6) % 7;
+  
+  if (view === 'week') {
+    const from = new Date(day.getTime() - mondayOffset(day) * DAY_MS);
+    return { from, to: new Date(from.getTime() + 7 * DAY_MS) };
+  }
+  
+  const first = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  const next = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1));
+  const from = new Date(first.getTime() - mondayOffset(first) * DAY_MS);
+  const trailing = (7 - mondayOffset(next)) % 7;
+  return { from, to: new Date(next.getTime() + trailing * DAY_MS) };
+}
+
+// ============================================
+// CONTENT TOOLS
+// ============================================
+export function registerContentTools(server: McpServer): void {
+  server.tool(
+    'ha_content_draft',
+    'Draft a social media or marketing post',
+    {
+      project_id: z.string().describe('Project ID'),
+      platform: platformSchema,
+      content_type: contentTypeSchema,
+      content: z.string().describe('Post text (threads are split on publish)'),
+      title: z.string().optional(),
+      hashtags: z.array(z.string()).optional(),
+      mentions: z.array(z.string()).optional(),
+      campaign: z.string().optional(),
+      image_prompt: z.string().optional(),
+      video_prompt: z.string().optional(),
+      media_urls: z.array(z.string()).optional(),
+      created_by: z.string().optional().describe('Agent drafting the post'),
+    },
+    async ({ project_id, platform, content_type, content, title, hashtags, mentions, campaign, image_prompt, video_prompt, media_urls, created_by }) => {
+      validateContent({ platform, content_type, content, title, hashtags });
+      
+      const data = await getStorage().table('content_calendar').insert({
+        project_id,
+        platform,
+        content_type,
+        content,
+        title: title ?? null,
+        hashtags: hashtags ?? null,
+        mentions: mentions ?? null,
+        campaign: campaign ?? null,
+        image_prompt: image_prompt ?? null,
+        image_path: null,
+        video_prompt: video_prompt ?? null,
+        video_path: null,
+        media_urls: media_urls ?? null,
+        status: 'draft',
+        scheduled_for: null,
+        posted_at: null,
+        analytics: {},
+        created_by: created_by ?? 'system',
+        metadata: {},
+      });
+      
+      await logActivity(created_by ?? 'system', 'content_drafted', { platform, content_type, campaign }, {
+        projectId: project_id,
+        relatedId: data.id,
+        relatedType: 'content',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_update',
+    'Edit a draft or scheduled post',
+    {
+      content_id: z.string(),
+      content: z.string().optional(),
+      content_type: contentTypeSchema.optional(),
+      title: z.string().optional(),
+      hashtags: z.array(z.string()).optional(),
+      mentions: z.array(z.string()).optional(),
+      campaign: z.string().optional(),
+      image_prompt: z.string().optional(),
+      video_prompt: z.string().optional(),
+      media_urls: z.array(z.string()).optional(),
+      agent: z.string().optional(),
+    },
+    async ({ content_id, agent, ...updates }) => {
+      const item = await getContent(content_id);
+      assertStatus(item, ['draft', 'scheduled', 'failed'], 'edit');
+      
+      validateContent({
+        platform: item.platform,
+        content_type: updates.content_type ?? item.content_type,
+        content: updates.content ?? item.content,
+        title: updates.title ?? item.title,
+        hashtags: updates.hashtags ?? item.hashtags,
+      });
+      
+      const updateData: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(updates)) {
+        if (value !== undefined) updateData[key] = value;
+      }
+      
+      const data = await updateContent(content_id, updateData);
+      
+      await logActivity(agent ?? 'system', 'content_updated', { fields: Object.keys(updateData) }, {
+        projectId: item.project_id,
+        relatedId: content_id,
+        relatedType: 'content',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_schedule',
+    'Schedule a draft for publishing',
+    {
+      content_id: z.string(),
+      scheduled_for: z.string().describe('ISO timestamp in the future'),
+      agent: z.string().optional(),
+    },
+    async ({ content_id, scheduled_for, agent }) => {
+      const item = await getContent(content_id);
+      assertStatus(item, ['draft', 'failed'], 'schedule');
+      validateContent(item);
+      
+      // A failed item scheduled again starts over with a full set of attempts
+      const { publish: _publish, ...metadata } = item.metadata;
+      const data = await updateContent(content_id, {
+        status: 'scheduled',
+        scheduled_for: assertSchedulable(item, scheduled_for),
+        metadata,
+      });
+      
+      await logActivity(agent ?? 'system', 'content_scheduled', { platform: item.platform, scheduled_for: data.scheduled_for }, {
+        projectId: item.project_id,
+        relatedId: content_id,
+        relatedType: 'content',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_reschedule',
+    'Move a scheduled post to another time',
+    {
+      content_id: z.string(),
+      scheduled_for: z.string().describe('ISO timestamp in the future'),
+      agent: z.string().optional(),
+    },
+    async ({ content_id, scheduled_for, agent }) => {
+      const item = await getContent(content_id);
+      assertStatus(item, ['scheduled'], 'reschedule');
+      
+      const data = await updateContent(content_id, {
+        scheduled_for: assertSchedulable(item, scheduled_for),
+      });
+      
+      await logActivity(agent ?? 'system', 'content_rescheduled', {
+        from: item.scheduled_for,
+        to: data.scheduled_for,
+      }, {
+        projectId: item.project_id,
+        relatedId: content_id,
+        relatedType: 'content',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_cancel',
+    'Cancel a scheduled post; it goes back to draft',
+    {
+      content_id: z.string(),
+      reason: z.string().optional(),
+      agent: z.string().optional(),
+    },
+    async ({ content_id, reason, agent }) => {
+      const item = await getContent(content_id);
+      assertStatus(item, ['scheduled', 'failed'], 'cancel');
+      
+      const data = await updateContent(content_id, {
+        status: 'draft',
+        scheduled_for: null,
+        metadata: {
+          ...item.metadata,
+          cancelled: { at: new Date().toISOString(), by: agent ?? 'system', reason: reason ?? null, was_scheduled_for: item.scheduled_for },
+        },
+      });
+      
+      await logActivity(agent ?? 'system', 'content_cancelled', { reason }, {
+        projectId: item.project_id,
+        relatedId: content_id,
+        relatedType: 'content',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_get',
+    'Get a content calendar item',
+    {
+      content_id: z.string(),
+    },
+    async ({ content_id }) => {
+      const data = await getContent(content_id);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_list',
+    'List content calendar items by date range, platform and campaign',
+    {
+      project_id: z.string().optional(),
+      from: z.string().optional().describe('ISO timestamp, inclusive'),
+      to: z.string().optional().describe('ISO timestamp, exclusive'),
+      platform: platformSchema.optional(),
+      campaign: z.string().optional(),
+      status: z.enum(['draft', 'scheduled', 'posted', 'failed']).optional(),
+      limit: z.number().optional().describe('Max results (default 50)'),
+    },
+    async ({ project_id, from, to, platform, campaign, status, limit }) => {
+      const data = await getStorage().table('content_calendar').list({
+        where: {
+          project_id,
+          scheduled_for: from || to ? { gte: from, lt: to } : undefined,
+          platform,
+          campaign,
+          status,
+        },
+        orderBy: [{ column: 'scheduled_for' }],
+        limit: limit ?? 50,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_calendar',
+    'Week or month grid of scheduled and posted content',
+    {
+      project_id: z.string(),
+      view: z.enum(['week', 'month']).optional().describe('Default: week'),
+      date: z.string().optional().describe('Any date inside the period (default: today)'),
+      platform: platformSchema.optional(),
+      campaign: z.string().optional(),
+    },
+    async ({ project_id, view, date, platform, campaign }) => {
+      const anchor = date ? new Date(date) : new Date();
+      if (Number.isNaN(anchor.getTime())) throw new Error(`Invalid date: ${date}`);
+      
+      const { from, to } = calendarRange(view ?? 'week', anchor);
+      
+      const data = await getStorage().table('content_calendar').list({
+        where: {
+          project_id,
+          scheduled_for: { gte: from.toISOString(), lt: to.toISOString() },
+          platform,
+          campaign,
+        },
+        orderBy: [{ column: 'scheduled_for' }],
+      });
+      
+      const days = new Map<string, unknown[]>();
+      for (let t = from.getTime(); t < to.getTime(); t += DAY_MS) {
+        days.set(new Date(t).toISOString().slice(0, 10), []);
+      }
+      for (const item of data) {
+        if (!item.scheduled_for) continue;
+        days.get(item.scheduled_for.slice(0, 10))?.push({
+          id: item.id,
+          time: item.scheduled_for.slice(11, 16),
+          platform: item.platform,
+          content_type: item.content_type,
+          title: item.title ?? item.content.slice(0, 60),
+          status: item.status,
+          campaign: item.campaign,
+        });
+      }
+      
+      const dayList = [...days.entries()].map(([day, items]) => ({ date: day, items }));
+      const weeks: Array<typeof dayList> = [];
+      for (let i = 0; i < dayList.length; i += 7) weeks.push(dayList.slice(i, i + 7));
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            view: view ?? 'week',
+            from: from.toISOString().slice(0, 10),
+            to: new Date(to.getTime() - DAY_MS).toISOString().slice(0, 10),
+            total: data.length,
+            weeks,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_content_publish_due',
+    'Publish all scheduled content that is due now through the platform adapters',
+    {
+      project_id: z.string().optional(),
+      limit: z.number().optional().describe('Max items this pass (default 50)'),
+    },
+    async ({ project_id, limit }) => {
+      const outcomes = await publishDueContent({ projectId: project_id, limit });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(outcomes, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById } from '../db/storage.js';
+import { acknowledgeEscalation, checkAllEscalations, checkEscalations, listEscalations, resolveEscalation, slaRules } from '../lib/escalations.js';
+import { resolveAgentName } from '../lib/registry.js';
+
+// ============================================
+// ESCALATION TOOLS
+// ============================================
+export function registerEscalationTools(server: McpServer): void {
+  server.tool(
+    'ha_escalation_list',
+    'List escalations of tasks that broke their SLA, newest first',
+    {
+      project_id: z.string().optional(),
+      task_id: z.string().optional(),
+      agent: z.string().optional().describe('Only escalations sent to this agent'),
+      status: z.enum(['open', 'acknowledged', 'resolved', 'unresolved']).optional().describe('Default: unresolved (open or acknowledged)'),
+      limit: z.number().optional().describe('Max results (default 50)'),
+    },
+    async ({ project_id, task_id, agent, status, limit }) => {
+      const data = await listEscalations({
+        projectId: project_id,
+        taskId: task_id,
+        agent: agent ? await resolveAgentName(agent) : undefined,
+        status,
+        limit: limit ?? 50,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_escalation_acknowledge',
+    'Acknowledge an escalation; it stops climbing the hierarchy until resolved. Only its recipients or the level above them may',
+    {
+      escalation_id: z.string(),
+      agent: z.string().describe('Agent taking ownership'),
+      note: z.string().optional(),
+    },
+    async ({ escalation_id, agent, note }) => {
+      const data = await acknowledgeEscalation(escalation_id, await resolveAgentName(agent), note);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_escalation_resolve',
+    'Resolve an escalation with what was done about it. Only its recipients or the level above them may',
+    {
+      escalation_id: z.string(),
+      agent: z.string(),
+      resolution: z.string().describe('How the escalation was handled'),
+    },
+    async ({ escalation_id, agent, resolution }) => {
+      const data = await resolveEscalation(escalation_id, await resolveAgentName(agent), resolution);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_escalation_check',
+    'Apply the SLA rules now. Without project_id checks every active project',
+    {
+      project_id: z.string().optional(),
+      dry_run: z.boolean().optional().describe('Report what would be escalated without recording it'),
+    },
+    async ({ project_id, dry_run }) => {
+      let data;
+      if (project_id) {
+        const project = await findProjectById(project_id);
+        data = { rules: slaRules(project), ...await checkEscalations(project, { dryRun: dry_run }) };
+      } else {
+        if (dry_run) throw new Error('dry_run needs a project_id');
+        data = await checkAllEscalations();
+      }
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Deliverable } from '../db/supabase.js';
+import { unifiedDiff } from '../lib/diff.js';
+import {
+  describeFile,
+  isInternalPath,
+  isTextMime,
+  readSnapshot,
+  resolveWorkspacePath,
+  snapshotFile,
+} from '../lib/workspace.js';
+
+const MAX_WRITE_BYTES = 10 * 1024 * 1024;
+const MAX_READ_BYTES = 1024 * 1024;
+
+const encodingSchema = z.enum(['utf8', 'base64']);
+
+type ListEntry = { path: string; type: 'file' | 'directory'; size: number; modified_at: string };
+
+async function listDirectory(absolute: string, path: string, recursive: boolean, entries: ListEntry[]): Promise<void> {
+  for (const entry of await readdir(absolute, { withFileTypes: true })) {
+    const childPath = path ? `${path}/${entry.name}` : entry.name;
+    if (isInternalPath(childPath) || entry.isSymbolicLink()) continue;
+    
+    const childAbsolute = join(absolute, entry.name);
+    const info = await stat(childAbsolute);
+    entries.push({
+      path: childPath,
+      type: entry.isDirectory() ? 'directory' : 'file',
+      size: entry.isDirectory() ? 0 : info.size,
+      modified_at: info.mtime.toISOString(),
+    });
+    
+    if (recursive && entry.isDirectory()) await listDirectory(childAbsolute, childPath, recursive, entries);
+  }
+}
+
+/** Snapshots the file and appends a new deliverable version unless the content is unchanged */
+async function attachFile(taskId: string, path: string, agent: string, note: string | null) {
+  const task = await findTaskById(taskId);
+  const { absolute, path: normalized } = await resolveWorkspacePath(path);
+  
+  const info = await describeFile(absolute, normalized).catch(() => {
+    throw new Error(`File not found in workspace: ${normalized}`);
+  });
+  
+  const versions = task.deliverables.filter((d) => d.path === normalized);
+  const latest = versions[versions.length - 1];
+  if (latest && latest.sha256 === info.sha256) {
+    return { task, deliverable: latest, unchanged: true };
+  }
+  
+  await snapshotFile(absolute, info.sha256);
+  
+  const deliverable: Deliverable = {
+    path: normalized,
+    version: versions.length + 1,
+    sha256: info.sha256,
+    size: info.size,
+    mime_type: info.mime_type,
+    author: agent,
+    attached_at: new Date().toISOString(),
+    note,
+    source: 'workspace',
+  };
+  
+  const data = await getStorage().tasks.update(taskId, {
+    deliverables: [...task.deliverables, deliverable],
+    deliverable_path: normalized,
+    updated_by: agent,
+  });
+  
+  await logActivity(agent, 'deliverable_attached', { path: normalized, version: deliverable.version, sha256: info.sha256 }, {
+    projectId: task.project_id,
+    team: task.assigned_team ?? undefined,
+    relatedId: taskId,
+    relatedType: 'task',
+  });
+  
+  return { task: data, deliverable, unchanged: false };
+}
+
+// ============================================
+// WORKSPACE FILE & DELIVERABLE TOOLS
+// ============================================
+export function registerFileTools(server: McpServer): void {
+  server.tool(
+    'ha_file_write',
+    'Write a file in the shared workspace, optionally attaching it to a task as a deliverable',
+    {
+      path: z.string().describe('Path relative to the workspace root, e.g. "acme/landing/hero.md"'),
+      content: z.string(),
+      encoding: encodingSchema.optional().describe('Encoding of content (default utf8)'),
+      agent: z.string().describe('Agent writing the file'),
+      task_id: z.string().optional().describe('Attach the written file to this task'),
+      note: z.string().optional().describe('Note stored with the deliverable version'),
+    },
+    async ({ path, content, encoding, agent, task_id, note }) => {
+      const buffer = Buffer.from(content, encoding ?? 'utf8');
+      if (buffer.length > MAX_WRITE_BYTES) {
+        throw new Error(`File is too large (${buffer.length} bytes, max ${MAX_WRITE_BYTES})`);
+      }
+      
+      const { absolute, path: normalized } = await resolveWorkspacePath(path);
+      await mkdir(dirname(absolute), { recursive: true });
+      // Re-check now that parent directories exist, in case one of them is a symlink
+      await resolveWorkspacePath(normalized);
+      await writeFile(absolute, buffer);
+      
+      const info = await describeFile(absolute, normalized);
+      const attached = task_id ? await attachFile(task_id, normalized, agent.toLowerCase(), note ?? null) : null;
+      
+      if (!attached) {
+        await logActivity(agent.toLowerCase(), 'file_written', { path: normalized, size: info.size, sha256: info.sha256 });
+      }
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ...info, deliverable: attached?.deliverable ?? null }, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_file_read',
+    'Read a file from the shared workspace',
+    {
+      path: z.string().describe('Path relative to the workspace root'),
+      encoding: encodingSchema.optional().describe('Return encoding (default utf8 for text files, base64 otherwise)'),
+    },
+    async ({ path, encoding }) => {
+      const { absolute, path: normalized } = await resolveWorkspacePath(path);
+      const info = await describeFile(absolute, normalized).catch(() => {
+        throw new Error(`File not found in workspace: ${normalized}`);
+      });
+      if (info.size > MAX_READ_BYTES) {
+        throw new Error(`File is too large to read (${info.size} bytes, max ${MAX_READ_BYTES})`);
+      }
+      
+      const resolvedEncoding = encoding ?? (isTextMime(info.mime_type) ? 'utf8' : 'base64');
+      const content = (await readFile(absolute)).toString(resolvedEncoding);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ...info, encoding: resolvedEncoding, content }, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_file_list',
+    'List files and directories in the shared workspace',
+    {
+      path: z.string().optional().describe('Directory relative to the workspace root (default: root)'),
+      recursive: z.boolean().optional().describe('Include nested directories (default false)'),
+    },
+    async ({ path, recursive }) => {
+      const { absolute, path: normalized } = await resolveWorkspacePath(path ?? '.');
+      const info = await stat(absolute).catch(() => null);
+      if (!info?.isDirectory()) throw new Error(`Directory not found in workspace: ${normalized}`);
+      
+      const entries: ListEntry[] = [];
+      await listDirectory(absolute, normalized, recursive ?? false, entries);
+      entries.sort((a, b) => a.path.localeCompare(b.path));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(entries, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_file_attach',
+    'Attach a workspace file to a task as a new deliverable version',
+    {
+      task_id: z.string(),
+      path: z.string().describe('Path relative to the workspace root'),
+      agent: z.string().describe('Agent attaching the file'),
+      note: z.string().optional().describe('What changed in this version'),
+    },
+    async ({ task_id, path, agent, note }) => {
+      const { deliverable, unchanged } = await attachFile(task_id, path, agent.toLowerCase(), note ?? null);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ deliverable, unchanged }, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_deliverables',
+    'List the deliverable versions attached to a task, or diff two versions of one file',
+    {
+      task_id: z.string(),
+      path: z.string().optional().describe('Only this file; required for diff'),
+      diff: z.boolean().optional().describe('Return a unified diff between two versions of path'),
+      from_version: z.number().optional().describe('Older version (default: previous)'),
+      to_version: z.number().optional().describe('Newer version (default: latest)'),
+    },
+    async ({ task_id, path, diff, from_version, to_version }) => {
+      const task = await findTaskById(task_id);
+      const normalized = path ? (await resolveWorkspacePath(path)).path : undefined;
+      const deliverables = task.deliverables.filter((d) => !normalized || d.path === normalized);
+      
+      if (!diff) {
+        const files = new Map<string, Deliverable[]>();
+        for (const d of deliverables) files.set(d.path, [...(files.get(d.path) ?? []), d]);
+        
+        const result = [...files.entries()].map(([filePath, versions]) => ({
+          path: filePath,
+          latest_version: versions[versions.length - 1]!.version,
+          versions,
+        }));
+        
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ deliverable_path: task.deliverable_path, files: result }, null, 2) }],
+        };
+      }
+      
+      if (!normalized) throw new Error('path is required for diff');
+      if (deliverables.length === 0) throw new Error(`No deliverable versions for ${normalized}`);
+      
+      const latest = deliverables[deliverables.length - 1]!.version;
+      const toVersion = to_version ?? latest;
+      const fromVersion = from_version ?? toVersion - 1;
+      const from = deliverables.find((d) => d.version === fromVersion);
+      const to = deliverables.find((d) => d.version === toVersion);
+      if (!from || !to) throw new Error(`Versions ${fromVersion} and ${toVersion} must both exist (latest is ${latest})`);
+      if (!from.sha256 || !to.sha256) throw new Error('Only workspace deliverables can be diffed');
+      if (!isTextMime(to.mime_type ?? '')) throw new Error(`Cannot diff binary files (${to.mime_type})`);
+      
+      const [before, after] = await Promise.all([readSnapshot(from.sha256), readSnapshot(to.sha256)]);
+      const patch = unifiedDiff(before.toString('utf8'), after.toString('utf8'), [
+        `${normalized}@v${fromVersion}`,
+        `${normalized}@v${toVersion}`,
+      ]);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ path: normalized, from, to, diff: patch || '(no changes)' }, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { acceptHandoff, createHandoff, handoffChain, listHandoffs, rejectHandoff, replyToHandoff, requestHandoffInfo } from '../lib/handoffs.js';
+import { resolveAgentName } from '../lib/registry.js';
+
+// ============================================
+// HANDOFF TOOLS
+// ============================================
+export function registerHandoffTools(server: McpServer): void {
+  server.tool(
+    'ha_handoff_create',
+    'Hand a task to another agent with a summary of the work done, open questions, deliverables and related learnings. The assignment changes only when the target accepts',
+    {
+      task_id: z.string(),
+      from_agent: z.string().describe('Agent handing the task off (its current assignee)'),
+      to_agent: z.string().describe('Agent receiving the task'),
+      summary: z.string().describe('What was done so far and where it stands'),
+      open_questions: z.array(z.string()).optional(),
+      deliverables: z.array(z.string()).optional().describe('Deliverable paths to include (default: all attached)'),
+      learning_ids: z.array(z.string()).optional().describe('Learnings to include (default: linked to the task or sharing its tags)'),
+    },
+    async ({ task_id, from_agent, to_agent, summary, open_questions, deliverables, learning_ids }) => {
+      const data = await createHandoff({
+        taskId: task_id,
+        from: await resolveAgentName(from_agent),
+        to: await resolveAgentName(to_agent),
+        summary,
+        openQuestions: open_questions,
+        deliverables,
+        learningIds: learning_ids,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_accept',
+    'Accept a handoff addressed to you; the task is assigned to you',
+    {
+      handoff_id: z.string(),
+      agent: z.string().describe('Target agent of the handoff'),
+      note: z.string().optional(),
+    },
+    async ({ handoff_id, agent, note }) => {
+      const data = await acceptHandoff(handoff_id, await resolveAgentName(agent), note);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_reject',
+    'Reject a handoff addressed to you; the task stays with the sender',
+    {
+      handoff_id: z.string(),
+      agent: z.string().describe('Target agent of the handoff'),
+      reason: z.string(),
+    },
+    async ({ handoff_id, agent, reason }) => {
+      const data = await rejectHandoff(handoff_id, await resolveAgentName(agent), reason);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_request_info',
+    'Ask the sender of a handoff for more information before accepting or rejecting',
+    {
+      handoff_id: z.string(),
+      agent: z.string().describe('Target agent of the handoff'),
+      questions: z.string(),
+    },
+    async ({ handoff_id, agent, questions }) => {
+      const data = await requestHandoffInfo(handoff_id, await resolveAgentName(agent), questions);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_reply',
+    'Answer an information request on a handoff you sent',
+    {
+      handoff_id: z.string(),
+      agent: z.string().describe('Sender of the handoff'),
+      answer: z.string(),
+    },
+    async ({ handoff_id, agent, answer }) => {
+      const data = await replyToHandoff(handoff_id, await resolveAgentName(agent), answer);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_list',
+    'List handoffs sent to or by an agent',
+    {
+      agent: z.string().optional(),
+      direction: z.enum(['incoming', 'outgoing']).optional().describe('Default: incoming'),
+      status: z.enum(['open', 'pending', 'info_requested', 'accepted', 'rejected']).optional().describe('Default: open (pending or info_requested)'),
+      project_id: z.string().optional(),
+    },
+    async ({ agent, direction, status, project_id }) => {
+      const data = await listHandoffs({
+        agent: agent ? await resolveAgentName(agent) : undefined,
+        direction,
+        status,
+        projectId: project_id,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_handoff_chain',
+    'Full handoff chain of a task: every handoff in order and the agents that owned it',
+    {
+      task_id: z.string(),
+    },
+    async ({ task_id }) => {
+      const data = await handoffChain(task_id);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getStorage } from '../db/storage.js';
+import { getJob } from '../lib/jobs.js';
+
+// ============================================
+// JOB TOOLS
+// ============================================
+export function registerJobTools(server: McpServer): void {
+  server.tool(
+    'ha_job_status',
+    'Get the status and result of an asynchronous job',
+    {
+      job_id: z.string(),
+    },
+    async ({ job_id }) => {
+      const data = await getJob(job_id);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_job_list',
+    'List asynchronous jobs',
+    {
+      project_id: z.string().optional(),
+      status: z.enum(['pending', 'running', 'completed', 'failed']).optional(),
+      target_id: z.string().optional().describe('Task or content item the job writes to'),
+      limit: z.number().optional().describe('Max results (default 20)'),
+    },
+    async ({ project_id, status, target_id, limit }) => {
+      const data = await getStorage().table('jobs').list({
+        where: { project_id, status, target_id },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: limit ?? 20,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getStorage, logActivity } from '../db/storage.js';
+import { searchLearningsSemantic, syncLearningEmbeddings } from '../db/qdrant.js';
+import type { Learning } from '../db/supabase.js';
+
+const categorySchema = z.enum(['bug', 'architecture', 'performance', 'security', 'ux', 'process', 'other']);
+const severitySchema = z.enum(['critical', 'high', 'medium', 'low']);
+const codeSnippetSchema = z.object({
+  language: z.string().optional(),
+  code: z.string(),
+  description: z.string().optional(),
+});
+
+async function getLearning(learningId: string): Promise<Learning> {
+  const learning = await getStorage().table('learnings').get(learningId);
+  if (!learning) throw new Error(`Learning not found: ${learningId}`);
+  return learning;
+}
+
+// ============================================
+// LEARNING TOOLS
+// ============================================
+export function registerLearningTools(server: McpServer): void {
+  server.tool(
+    'ha_learning_create',
+    'Record a learning (problem → solution) in the knowledge base',
+    {
+      title: z.string().describe('Short title of the learning'),
+      problem: z.string().describe('What went wrong or what was unclear'),
+      solution: z.string().describe('How it was solved'),
+      context: z.string().optional().describe('Where and when this applies'),
+      category: categorySchema.optional().describe('Learning category (default: other)'),
+      severity: severitySchema.optional(),
+      tags: z.array(z.string()).optional(),
+      project_id: z.string().optional(),
+      team: z.string().optional(),
+      related_task_ids: z.array(z.string()).optional(),
+      related_files: z.array(z.string()).optional(),
+      code_snippets: z.array(codeSnippetSchema).optional(),
+      created_by: z.string().optional().describe('Agent recording the learning'),
+    },
+    async ({ title, problem, solution, context, category, severity, tags, project_id, team, related_task_ids, related_files, code_snippets, created_by }) => {
+      const data = await getStorage().table('learnings').insert({
+        title,
+        problem,
+        solution,
+        context: context ?? null,
+        category: category ?? 'other',
+        severity: severity ?? null,
+        tags: tags?.map((t) => t.toLowerCase()) ?? [],
+        project_id: project_id ?? null,
+        team: team?.toLowerCase() ?? null,
+        related_task_ids: related_task_ids ?? null,
+        related_files: related_files ?? null,
+        code_snippets: code_snippets ?? [],
+        created_by: created_by ?? 'system',
+      });
+      
+      await logActivity(created_by ?? 'system', 'learning_created', { title, category: data.category }, {
+        projectId: project_id,
+        team,
+        relatedId: data.id,
+        relatedType: 'learning',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_get',
+    'Get a learning by ID',
+    {
+      learning_id: z.string().describe('Learning ID'),
+    },
+    async ({ learning_id }) => {
+      const data = await getLearning(learning_id);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_update',
+    'Update a learning',
+    {
+      learning_id: z.string().describe('Learning ID'),
+      title: z.string().optional(),
+      problem: z.string().optional(),
+      solution: z.string().optional(),
+      context: z.string().optional(),
+      category: categorySchema.optional(),
+      severity: severitySchema.optional(),
+      tags: z.array(z.string()).optional(),
+      team: z.string().optional(),
+      related_task_ids: z.array(z.string()).optional(),
+      related_files: z.array(z.string()).optional(),
+      code_snippets: z.array(codeSnippetSchema).optional(),
+      updated_by: z.string().optional(),
+    },
+    async ({ learning_id, updated_by, ...updates }) => {
+      await getLearning(learning_id);
+      const updateData: Record<string, unknown> = {};
+      
+      if (updates.title) updateData.title = updates.title;
+      if (updates.problem) updateData.problem = updates.problem;
+      if (updates.solution) updateData.solution = updates.solution;
+      if (updates.context !== undefined) updateData.context = updates.context;
+      if (updates.category) updateData.category = updates.category;
+      if (updates.severity) updateData.severity = updates.severity;
+      if (updates.tags) updateData.tags = updates.tags.map((t) => t.toLowerCase());
+      if (updates.team) updateData.team = updates.team.toLowerCase();
+      if (updates.related_task_ids) updateData.related_task_ids = updates.related_task_ids;
+      if (updates.related_files) updateData.related_files = updates.related_files;
+      if (updates.code_snippets) updateData.code_snippets = updates.code_snippets;
+      
+      const data = await getStorage().table('learnings').update(learning_id, updateData);
+      
+      await logActivity(updated_by ?? 'system', 'learning_updated', { fields: Object.keys(updateData) }, {
+        projectId: data.project_id ?? undefined,
+        team: data.team ?? undefined,
+        relatedId: learning_id,
+        relatedType: 'learning',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_list',
+    'List learnings with filters',
+    {
+      category: categorySchema.optional(),
+      team: z.string().optional(),
+      tag: z.string().optional(),
+      project_id: z.string().optional(),
+      limit: z.number().optional().describe('Max results (default 20)'),
+    },
+    async ({ category, team, tag, project_id, limit }) => {
+      const data = await getStorage().table('learnings').list({
+        where: {
+          category,
+          team: team?.toLowerCase(),
+          tags: tag ? { contains: [tag.toLowerCase()] } : undefined,
+          project_id,
+        },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: limit ?? 20,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_search',
+    'Full-text search the knowledge base before tackling a problem',
+    {
+      query: z.string().describe('Search terms, e.g. "supabase rls insert"'),
+      category: categorySchema.optional(),
+      team: z.string().optional(),
+      tag: z.string().optional(),
+      project_id: z.string().optional(),
+      limit: z.number().optional().describe('Max results (default 10)'),
+    },
+    async ({ query: terms, category, team, tag, project_id, limit }) => {
+      const data = await getStorage().table('learnings').list({
+        where: {
+          category,
+          team: team?.toLowerCase(),
+          tags: tag ? { contains: [tag.toLowerCase()] } : undefined,
+          project_id,
+        },
+        search: { terms, column: 'search_vector', fields: ['title', 'problem', 'solution', 'context', 'tags'] },
+        limit: limit ?? 10,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_semantic_search',
+    'Semantic (vector) search over learnings, finds related problems even without matching keywords',
+    {
+      query: z.string().describe('Describe the problem in natural language'),
+      category: categorySchema.optional(),
+      team: z.string().optional(),
+      project_id: z.string().optional(),
+      limit: z.number().optional().describe('Max results (default 10)'),
+    },
+    async ({ query, category, team, project_id, limit }) => {
+      const results = await searchLearningsSemantic(query, {
+        limit,
+        category,
+        team: team?.toLowerCase(),
+        projectId: project_id,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_learning_sync_embeddings',
+    'Embed new or changed learnings into the vector store',
+    {
+      force: z.boolean().optional().describe('Re-embed every learning, even unchanged ones'),
+    },
+    async ({ force }) => {
+      const result = await syncLearningEmbeddings({ force });
+      
+      await logActivity('system', 'learning_embeddings_synced', { ...result });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
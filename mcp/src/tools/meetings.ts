@@ -0,0 +1,334 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { createTask, getStorage, logActivity } from '../db/storage.js';
+import type { Meeting, MeetingActionItem, MeetingDecision, MeetingStatus, TranscriptEntry } from '../db/supabase.js';
+import { deliverMentions } from '../lib/messages.js';
+import { resolveAgentName, resolveAssignee } from '../lib/registry.js';
+
+async function getMeeting(meetingId: string): Promise<Meeting> {
+  const meeting = await getStorage().table('meetings').get(meetingId);
+  if (!meeting) throw new Error(`Meeting not found: ${meetingId}`);
+  return meeting;
+}
+
+function assertStatus(meeting: Meeting, allowed: MeetingStatus[], action: string): void {
+  if (!allowed.includes(meeting.status)) {
+    throw new Error(`Cannot ${action} meeting "${meeting.title}": status is ${meeting.status}`);
+  }
+}
+
+async function updateMeeting(meetingId: string, updateData: Record<string, unknown>): Promise<Meeting> {
+  return getStorage().table('meetings').update(meetingId, updateData);
+}
+
+function listTurns(meetingId: string) {
+  return getStorage().table('meeting_turns').list({
+    where: { meeting_id: meetingId },
+    orderBy: [{ column: 'created_at' }],
+  });
+}
+
+/** The meeting with its transcript, built from the turn rows */
+async function withTranscript(meeting: Meeting): Promise<Meeting> {
+  const turns = await listTurns(meeting.id);
+  const transcript: TranscriptEntry[] = turns.map((t) => ({ speaker: t.speaker, message: t.message, timestamp: t.created_at }));
+  return { ...meeting, transcript };
+}
+
+// ============================================
+// MEETING TOOLS
+// ============================================
+export function registerMeetingTools(server: McpServer): void {
+  server.tool(
+    'ha_meeting_schedule',
+    'Schedule a meeting between agents',
+    {
+      title: z.string().describe('Meeting title'),
+      topic: z.string().describe('What the meeting should decide or clarify'),
+      participants: z.array(z.string()).min(1).describe('Participating agent names'),
+      project_id: z.string().optional(),
+      agenda: z.array(z.string()).optional().describe('Agenda points in order'),
+      scheduled_for: z.string().optional().describe('ISO timestamp'),
+      initiated_by: z.string().optional().describe('Agent scheduling the meeting'),
+    },
+    async ({ title, topic, participants, project_id, agenda, scheduled_for, initiated_by }) => {
+      const names = await Promise.all(participants.map(resolveAgentName));
+      
+      const data = await getStorage().table('meetings').insert({
+        title,
+        topic,
+        participants: [...new Set(names)],
+        project_id: project_id ?? null,
+        agenda: agenda ?? [],
+        scheduled_for: scheduled_for ?? null,
+        initiated_by: initiated_by ?? 'system',
+        status: 'scheduled',
+        started_at: null,
+        ended_at: null,
+        transcript: [],
+        summary: null,
+        decisions: [],
+        action_items: [],
+        metadata: {},
+      });
+      
+      await logActivity(initiated_by ?? 'system', 'meeting_scheduled', { title, participants: data.participants }, {
+        projectId: project_id,
+        relatedId: data.id,
+        relatedType: 'meeting',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_start',
+    'Start a scheduled meeting',
+    {
+      meeting_id: z.string(),
+      agent: z.string().optional().describe('Agent starting the meeting'),
+    },
+    async ({ meeting_id, agent }) => {
+      const meeting = await getMeeting(meeting_id);
+      assertStatus(meeting, ['scheduled'], 'start');
+      
+      const data = await updateMeeting(meeting_id, {
+        status: 'in_progress',
+        started_at: new Date().toISOString(),
+      });
+      
+      await logActivity(agent ?? 'system', 'meeting_started', { title: meeting.title }, {
+        projectId: meeting.project_id ?? undefined,
+        relatedId: meeting_id,
+        relatedType: 'meeting',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_say',
+    'Append a speaker turn to a running meeting transcript',
+    {
+      meeting_id: z.string(),
+      speaker: z.string().describe('Participant speaking'),
+      message: z.string(),
+    },
+    async ({ meeting_id, speaker, message }) => {
+      const meeting = await getMeeting(meeting_id);
+      assertStatus(meeting, ['in_progress'], 'record a turn in');
+      
+      const name = await resolveAgentName(speaker);
+      if (!meeting.participants.includes(name)) {
+        throw new Error(`${speaker} is not a participant of "${meeting.title}"`);
+      }
+      
+      const entry = await getStorage().table('meeting_turns').insert({ meeting_id, speaker: name, message });
+      const turns = await listTurns(meeting_id);
+      const turn = turns.findIndex((t) => t.id === entry.id) + 1;
+      
+      await logActivity(name, 'meeting_entry_added', { turn }, {
+        projectId: meeting.project_id ?? undefined,
+        relatedId: meeting_id,
+        relatedType: 'meeting',
+      });
+      await deliverMentions({
+        text: message,
+        sender: name,
+        source: 'meeting',
+        link: { type: 'meeting', id: meeting_id },
+        projectId: meeting.project_id,
+      });
+      
+      return {
+        content: [{ type: 'text', text: `Added turn ${turn} to "${meeting.title}"` }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_close',
+    'Close a meeting with summary, decisions and action items',
+    {
+      meeting_id: z.string(),
+      summary: z.string(),
+      decisions: z.array(z.object({
+        decision: z.string(),
+        rationale: z.string().optional(),
+        decided_by: z.string().optional(),
+      })).optional(),
+      action_items: z.array(z.object({
+        title: z.string(),
+        owner: z.string().describe('Participant responsible for the item'),
+        team: z.string().optional(),
+        priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+        due_date: z.string().optional(),
+      })).optional(),
+      create_tasks: z.boolean().optional().describe('Turn each action item into a task (requires a project)'),
+      agent: z.string().optional().describe('Agent closing the meeting'),
+    },
+    async ({ meeting_id, summary, decisions, action_items, create_tasks, agent }) => {
+      const meeting = await getMeeting(meeting_id);
+      assertStatus(meeting, ['in_progress'], 'close');
+      
+      if (create_tasks && !meeting.project_id) {
+        throw new Error(`Cannot create tasks: meeting "${meeting.title}" has no project`);
+      }
+      
+      const items: MeetingActionItem[] = [];
+      for (const item of action_items ?? []) {
+        const { team, agent: owner } = await resolveAssignee({ team: item.team, agent: item.owner });
+        if (!owner || !meeting.participants.includes(owner)) {
+          throw new Error(`Action item owner ${item.owner} is not a participant of "${meeting.title}"`);
+        }
+        items.push({
+          title: item.title,
+          owner,
+          team,
+          priority: item.priority ?? 'medium',
+          due_date: item.due_date ?? null,
+          task_id: null,
+        });
+      }
+      
+      const closedBy = agent ?? meeting.initiated_by ?? 'system';
+      
+      if (create_tasks && meeting.project_id) {
+        for (const item of items) {
+          const task = await createTask({
+            project_id: meeting.project_id,
+            title: item.title,
+            description: `Action item from meeting "${meeting.title}"`,
+            assigned_agent: item.owner,
+            assigned_team: item.team,
+            priority: item.priority,
+            due_date: item.due_date,
+            status: 'todo',
+            metadata: { meeting_id },
+            created_by: closedBy,
+          });
+          item.task_id = task.id;
+          
+          await logActivity(closedBy, 'task_created', { title: task.title, meeting_id }, {
+            projectId: meeting.project_id,
+            team: item.team ?? undefined,
+            relatedId: task.id,
+            relatedType: 'task',
+          });
+        }
+      }
+      
+      const meetingDecisions: MeetingDecision[] = (decisions ?? []).map((d) => ({
+        decision: d.decision,
+        rationale: d.rationale ?? null,
+        decided_by: d.decided_by?.toLowerCase() ?? null,
+      }));
+      
+      const data = await withTranscript(await updateMeeting(meeting_id, {
+        status: 'completed',
+        ended_at: new Date().toISOString(),
+        summary,
+        decisions: meetingDecisions,
+        action_items: items,
+      }));
+      
+      await logActivity(closedBy, 'meeting_closed', {
+        title: meeting.title,
+        decisions: meetingDecisions.length,
+        action_items: items.length,
+        tasks_created: items.filter((i) => i.task_id).length,
+      }, {
+        projectId: meeting.project_id ?? undefined,
+        relatedId: meeting_id,
+        relatedType: 'meeting',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_cancel',
+    'Cancel a scheduled or running meeting',
+    {
+      meeting_id: z.string(),
+      reason: z.string().optional(),
+      agent: z.string().optional(),
+    },
+    async ({ meeting_id, reason, agent }) => {
+      const meeting = await getMeeting(meeting_id);
+      assertStatus(meeting, ['scheduled', 'in_progress'], 'cancel');
+      
+      const data = await updateMeeting(meeting_id, {
+        status: 'cancelled',
+        ended_at: new Date().toISOString(),
+        metadata: { ...meeting.metadata, cancel_reason: reason ?? null },
+      });
+      
+      await logActivity(agent ?? 'system', 'meeting_cancelled', { title: meeting.title, reason }, {
+        projectId: meeting.project_id ?? undefined,
+        relatedId: meeting_id,
+        relatedType: 'meeting',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_get',
+    'Get a meeting with its transcript',
+    {
+      meeting_id: z.string(),
+    },
+    async ({ meeting_id }) => {
+      const data = await withTranscript(await getMeeting(meeting_id));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_meeting_list',
+    'List meetings with filters',
+    {
+      project_id: z.string().optional(),
+      status: z.enum(['scheduled', 'in_progress', 'completed', 'cancelled']).optional(),
+      participant: z.string().optional(),
+      limit: z.number().optional().describe('Max results (default 20)'),
+    },
+    async ({ project_id, status, participant, limit }) => {
+      const meetings = await getStorage().table('meetings').list({
+        where: {
+          project_id,
+          status,
+          participants: participant ? { contains: [participant.toLowerCase()] } : undefined,
+        },
+        orderBy: [{ column: 'created_at', ascending: false }],
+        limit: limit ?? 20,
+      });
+      
+      // Transcripts stay out of the listing; ha_meeting_get returns them
+      const data = meetings.map(({ id, project_id, title, topic, participants, status, scheduled_for, started_at, ended_at, summary }) => ({
+        id, project_id, title, topic, participants, status, scheduled_for, started_at, ended_at, summary,
+      }));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getInbox, getThread, markRead, sendMessage } from '../lib/messages.js';
+import { actingAgent } from '../lib/permissions.js';
+import { resolveAgentName, resolveTeamName } from '../lib/registry.js';
+
+// ============================================
+// MESSAGING TOOLS
+// ============================================
+export function registerMessageTools(server: McpServer): void {
+  server.tool(
+    'ha_message_send',
+    'Send a direct message to an agent, post to a team channel, or reply in a thread. @agent mentions reach the agent mentioned',
+    {
+      from: z.string().optional().describe('Sending agent (default: the authenticated agent)'),
+      to: z.string().optional().describe('Agent for a direct message'),
+      channel: z.string().optional().describe('Team channel, e.g. devforge'),
+      thread_id: z.string().optional().describe('Reply to the thread of this message'),
+      body: z.string(),
+      project_id: z.string().optional(),
+      link_type: z.enum(['task', 'meeting', 'project']).optional(),
+      link_id: z.string().optional().describe('Task, meeting or project the message is about'),
+    },
+    async ({ from, to, channel, thread_id, body, project_id, link_type, link_id }, extra) => {
+      if (!link_type !== !link_id) throw new Error('link_type and link_id go together');
+      
+      const data = await sendMessage({
+        from: await actingAgent(from, extra),
+        to: to ? await resolveAgentName(to) : undefined,
+        channel: channel ? await resolveTeamName(channel) : undefined,
+        threadId: thread_id,
+        body,
+        projectId: project_id,
+        link: link_type && link_id ? { type: link_type, id: link_id } : undefined,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_message_inbox',
+    "An agent's messages and mentions, newest first, with the unread count",
+    {
+      agent: z.string().optional().describe('Default: the authenticated agent'),
+      unread_only: z.boolean().optional().describe('Default true'),
+      limit: z.number().optional().describe('Max results (default 50)'),
+      mark_read: z.boolean().optional().describe('Mark the returned messages as read'),
+    },
+    async ({ agent, unread_only, limit, mark_read }, extra) => {
+      const name = await actingAgent(agent, extra);
+      const data = await getInbox(name, { unreadOnly: unread_only ?? true, limit });
+      if (mark_read && data.items.length > 0) {
+        data.unread -= await markRead(name, data.items.map((m) => m.id));
+      }
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_message_thread',
+    'A message thread from its root, oldest first, marked read for the reader. Only readable by agents it was sent to, or by members of its channel',
+    {
+      message_id: z.string().describe('Any message of the thread'),
+      agent: z.string().optional().describe('Reader (default: the authenticated agent)'),
+    },
+    async ({ message_id, agent }, extra) => {
+      const data = await getThread(message_id, await actingAgent(agent, extra));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_message_mark_read',
+    "Mark messages as read in an agent's inbox; without message_ids marks everything",
+    {
+      agent: z.string().optional().describe('Default: the authenticated agent'),
+      message_ids: z.array(z.string()).optional(),
+    },
+    async ({ agent, message_ids }, extra) => {
+      const marked = await markRead(await actingAgent(agent, extra), message_ids);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ marked }, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById, getStorage, logActivity } from '../db/storage.js';
+import { getOrchestratorState, orchestrateAll, orchestrateProject, orchestratorSettings } from '../lib/orchestrator.js';
+import { resolveAgentName } from '../lib/registry.js';
+import { claimWork, listOpenWork } from '../lib/work-queue.js';
+
+// ============================================
+// ORCHESTRATOR & WORK QUEUE TOOLS
+// ============================================
+export function registerOrchestratorTools(server: McpServer): void {
+  server.tool(
+    'ha_orchestrator_status',
+    'Orchestrator settings, budget usage, ready and stalled tasks and the open work queue of a project',
+    {
+      project_id: z.string(),
+    },
+    async ({ project_id }) => {
+      const project = await findProjectById(project_id);
+      const state = await getOrchestratorState(project);
+      const data = {
+        ...state,
+        ready: state.ready.map((t) => ({ id: t.id, title: t.title, priority: t.priority, team: t.assigned_team, agent: t.assigned_agent })),
+      };
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_orchestrator_configure',
+    'Turn autonomous orchestration on or off for a project and set its budgets. Stall limits are the SLA rules in settings.sla',
+    {
+      project_id: z.string(),
+      autonomous: z.boolean().optional(),
+      max_concurrent_tasks: z.number().int().positive().optional().describe('Tasks queued or in progress at once (default 3)'),
+      max_total_hours: z.number().positive().nullable().optional().describe('Hour budget for the project, null for none'),
+      default_estimate_hours: z.number().positive().optional().describe('Hours counted against the budget for unestimated tasks (default 4)'),
+      agent: z.string().optional().describe('Agent making the change'),
+    },
+    async ({ project_id, agent, ...changes }) => {
+      const project = await findProjectById(project_id);
+      const updates = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      
+      const data = await getStorage().projects.update(project_id, {
+        settings: { ...project.settings, ...updates },
+      });
+      const settings = orchestratorSettings(data);
+      
+      await logActivity(agent ?? 'system', 'orchestrator_configured', updates, {
+        projectId: project_id,
+        relatedId: project_id,
+        relatedType: 'project',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ project_id, settings }, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_orchestrator_run',
+    'Run one orchestration pass now: queue ready tasks, escalate tasks over their SLA. Without project_id runs every active autonomous project',
+    {
+      project_id: z.string().optional(),
+      dry_run: z.boolean().optional().describe('Report what would happen without changing anything'),
+      agent: z.string().optional().describe('Agent triggering the run'),
+    },
+    async ({ project_id, dry_run, agent }) => {
+      let data;
+      if (project_id) {
+        const project = await findProjectById(project_id);
+        if (!dry_run && project.status !== 'active') throw new Error(`Project "${project.name}" is ${project.status}; resume it first`);
+        data = [await orchestrateProject(project, { dryRun: dry_run })];
+      } else {
+        if (dry_run) throw new Error('dry_run needs a project_id');
+        data = await orchestrateAll();
+      }
+      
+      if (!dry_run) {
+        await logActivity(agent ?? 'system', 'orchestrator_run', {
+          projects: data.length,
+          dispatched: data.reduce((sum, r) => sum + r.dispatched.length, 0),
+          escalated: data.reduce((sum, r) => sum + r.escalations.opened.length + r.escalations.raised.length, 0),
+        }, { projectId: project_id });
+      }
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_work_next',
+    'Open work queued for an agent by the orchestrator, oldest first',
+    {
+      agent: z.string(),
+      project_id: z.string().optional(),
+    },
+    async ({ agent, project_id }) => {
+      const data = await listOpenWork({ agent: await resolveAgentName(agent), projectId: project_id });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_work_claim',
+    'Claim a queued work item; a task item moves its task to in_progress',
+    {
+      item_id: z.string(),
+      agent: z.string().describe('Agent the item is queued for'),
+    },
+    async ({ item_id, agent }) => {
+      const data = await claimWork(item_id, await resolveAgentName(agent));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
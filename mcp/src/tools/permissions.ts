@@ -0,0 +1,28 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { checkPermission } from '../lib/permissions.js';
+import { resolveAgentName } from '../lib/registry.js';
+
+// ============================================
+// PERMISSION TOOLS
+// ============================================
+export function registerPermissionTools(server: McpServer): void {
+  server.tool(
+    'ha_permissions_check',
+    'Check whether an agent may call a tool (and make a status transition) before acting',
+    {
+      agent: z.string().describe('Agent that wants to act'),
+      tool: z.string().describe('Tool name, e.g. ha_task_status'),
+      status: z.string().optional().describe('Target status for ha_task_status / ha_task_update / ha_project_update'),
+    },
+    async ({ agent, tool, status }) => {
+      const name = await resolveAgentName(agent).catch(() => agent.trim().toLowerCase());
+      const decision = await checkPermission(tool, status ? { status } : {}, name);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(decision, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
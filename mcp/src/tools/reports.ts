@@ -0,0 +1,70 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById } from '../db/storage.js';
+import { sendMessage } from '../lib/messages.js';
+import { actingAgent } from '../lib/permissions.js';
+import { resolveTeamName } from '../lib/registry.js';
+import { buildProjectReport, REPORT_SECTIONS, reportToCsv, reportToMarkdown } from '../lib/reports.js';
+import { standupDigest, standupToMarkdown } from '../lib/standup.js';
+
+// ============================================
+// REPORTING TOOLS
+// ============================================
+export function registerReportTools(server: McpServer): void {
+  server.tool(
+    'ha_report',
+    'Project report: burndown/burnup, weekly velocity per team, cycle and lead time, overdue and aging tasks, estimate accuracy. As Markdown, CSV (one section) or JSON',
+    {
+      project_id: z.string(),
+      format: z.enum(['markdown', 'csv', 'json']).optional().describe('Default: markdown'),
+      section: z.enum(REPORT_SECTIONS).optional().describe('Section for CSV output (default: burndown)'),
+      from: z.string().optional().describe('First day (YYYY-MM-DD, default: project start, at most two years before to)'),
+      to: z.string().optional().describe('Last day (YYYY-MM-DD, default: today)'),
+      team: z.string().optional().describe('Only tasks of this team'),
+    },
+    async ({ project_id, format, section, from, to, team }) => {
+      const project = await findProjectById(project_id);
+      const report = await buildProjectReport(project, {
+        from,
+        to,
+        team: team ? await resolveTeamName(team) : undefined,
+      });
+      
+      const text = format === 'json'
+        ? JSON.stringify(report, null, 2)
+        : format === 'csv'
+          ? reportToCsv(report, section ?? 'burndown')
+          : reportToMarkdown(report);
+      
+      return {
+        content: [{ type: 'text', text }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_standup',
+    "Daily standup digest for a team from the activity log: what each member did, is doing now, and the team's blockers",
+    {
+      team: z.string(),
+      date: z.string().optional().describe('UTC day to report (YYYY-MM-DD, default: the last 24 hours)'),
+      project_id: z.string().optional(),
+      format: z.enum(['markdown', 'json']).optional().describe('Default: markdown'),
+      post: z.boolean().optional().describe("Also post the digest to the team's message channel"),
+      agent: z.string().optional().describe('Calling agent, who posts the digest (required with post)'),
+    },
+    async ({ team, date, project_id, format, post, agent }, extra) => {
+      const digest = await standupDigest(await resolveTeamName(team), { date, projectId: project_id });
+      const markdown = standupToMarkdown(digest);
+      
+      if (post) {
+        await sendMessage({ from: await actingAgent(agent, extra), channel: digest.team, body: markdown, projectId: project_id });
+      }
+      
+      return {
+        content: [{ type: 'text', text: format === 'json' ? JSON.stringify(digest, null, 2) : markdown }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,457 @@
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById, getStorage, logActivity } from '../db/storage.js';
+import type { Milestone, Roadmap, Task } from '../db/supabase.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getRoadmap(roadmapId: string): Promise<Roadmap> {
+  const roadmap = await getStorage().table('roadmaps').get(roadmapId);
+  
+  if (!roadmap) throw new Error(`Roadmap not found: ${roadmapId}`);
+  return roadmap;
+}
+
+async function saveMilestones(roadmapId: string, milestones: Milestone[]): Promise<Roadmap> {
+  const sorted = [...milestones].sort((a, b) => a.target_date.localeCompare(b.target_date));
+  return getStorage().table('roadmaps').update(roadmapId, { milestones: sorted });
+}
+
+function assertDateRange(startDate: string | null | undefined, endDate: string | null | undefined): void {
+  if (startDate && endDate && endDate < startDate) {
+    throw new Error(`end_date ${endDate} is before start_date ${startDate}`);
+  }
+}
+
+function findMilestone(roadmap: Roadmap, milestoneId: string): Milestone {
+  const milestone = roadmap.milestones.find((m) => m.id === milestoneId);
+  if (!milestone) throw new Error(`Milestone ${milestoneId} not found on roadmap "${roadmap.name}"`);
+  return milestone;
+}
+
+// ============================================
+// PROGRESS
+// ============================================
+export type SlipRisk = 'none' | 'low' | 'medium' | 'high' | 'late';
+
+export interface MilestoneProgress {
+  milestone_id: string | null;
+  name: string;
+  target_date: string | null;
+  tasks: { total: number; done: number; in_progress: number; blocked: number };
+  hours: { estimated: number; completed: number; actual: number };
+  percent_complete: number;
+  expected_percent: number | null;
+  slip_risk: SlipRisk;
+}
+
+function rollUp(name: string, tasks: Task[]) {
+  // Tasks without an estimate weigh as much as the average estimated task
+  const estimates = tasks.map((t) => t.estimated_hours).filter((h): h is number => h !== null && h > 0);
+  const fallback = estimates.length > 0 ? estimates.reduce((a, b) => a + b, 0) / estimates.length : 1;
+  const weight = (t: Task) => (t.estimated_hours && t.estimated_hours > 0 ? t.estimated_hours : fallback);
+  
+  const done = tasks.filter((t) => t.status === 'done');
+  const totalWeight = tasks.reduce((sum, t) => sum + weight(t), 0);
+  const doneWeight = done.reduce((sum, t) => sum + weight(t), 0);
+  
+  return {
+    name,
+    tasks: {
+      total: tasks.length,
+      done: done.length,
+      in_progress: tasks.filter((t) => t.status === 'in_progress' || t.status === 'review').length,
+      blocked: tasks.filter((t) => t.status === 'blocked').length,
+    },
+    hours: {
+      estimated: estimates.reduce((a, b) => a + b, 0),
+      completed: done.reduce((sum, t) => sum + (t.estimated_hours ?? 0), 0),
+      actual: tasks.reduce((sum, t) => sum + (t.actual_hours ?? 0), 0),
+    },
+    percent_complete: totalWeight === 0 ? 0 : Math.round((doneWeight / totalWeight) * 100),
+  };
+}
+
+function slipRisk(percent: number, expected: number | null, targetDate: string | null, blocked: number, now: number): SlipRisk {
+  if (percent >= 100) return 'none';
+  if (targetDate && Date.parse(targetDate) + DAY_MS <= now) return 'late';
+  if (expected === null) return blocked > 0 ? 'medium' : 'low';
+  
+  const gap = expected - percent;
+  if (gap > 25) return 'high';
+  if (gap > 10 || blocked > 0) return 'medium';
+  return 'low';
+}
+
+/**
+ * Percent complete is weighted by estimated hours. Expected progress assumes
+ * linear work between the previous milestone (or roadmap start) and the
+ * target date; the gap between the two drives the slip risk.
+ */
+export function computeRoadmapProgress(roadmap: Roadmap, tasks: Task[], now = Date.now()) {
+  const milestones = [...roadmap.milestones].sort((a, b) => a.target_date.localeCompare(b.target_date));
+  let windowStart = Date.parse(roadmap.start_date ?? roadmap.created_at);
+  
+  const progress: MilestoneProgress[] = milestones.map((milestone) => {
+    const target = Date.parse(milestone.target_date);
+    const summary = rollUp(milestone.name, tasks.filter((t) => t.metadata.milestone_id === milestone.id));
+    
+    const span = target - windowStart;
+    const expected = span > 0
+      ? Math.round(Math.min(1, Math.max(0, (now - windowStart) / span)) * 100)
+      : null;
+    windowStart = target;
+    
+    return {
+      milestone_id: milestone.id,
+      target_date: milestone.target_date,
+      ...summary,
+      expected_percent: expected,
+      slip_risk: summary.tasks.total === 0
+        ? 'none'
+        : slipRisk(summary.percent_complete, expected, milestone.target_date, summary.tasks.blocked, now),
+    };
+  });
+  
+  const milestoneIds = new Set(milestones.map((m) => m.id));
+  const unscheduled = tasks.filter((t) => !milestoneIds.has(String(t.metadata.milestone_id)));
+  if (unscheduled.length > 0) {
+    const summary = rollUp('Unscheduled', unscheduled);
+    progress.push({
+      milestone_id: null,
+      target_date: roadmap.end_date,
+      ...summary,
+      expected_percent: null,
+      slip_risk: slipRisk(summary.percent_complete, null, roadmap.end_date, summary.tasks.blocked, now),
+    });
+  }
+  
+  const overall = rollUp(roadmap.name, tasks);
+  const risks: SlipRisk[] = ['none', 'low', 'medium', 'high', 'late'];
+  const worst = progress.reduce<SlipRisk>(
+    (acc, m) => (risks.indexOf(m.slip_risk) > risks.indexOf(acc) ? m.slip_risk : acc),
+    'none'
+  );
+  
+  return {
+    roadmap: { id: roadmap.id, name: roadmap.name, start_date: roadmap.start_date, end_date: roadmap.end_date },
+    overall: { ...overall, slip_risk: worst },
+    milestones: progress,
+  };
+}
+
+// ============================================
+// ROADMAP TOOLS
+// ============================================
+const isoDate = z.string().date().describe('ISO date (YYYY-MM-DD)');
+
+const milestoneInput = z.object({
+  name: z.string(),
+  target_date: isoDate,
+  description: z.string().optional(),
+});
+
+export function registerRoadmapTools(server: McpServer): void {
+  server.tool(
+    'ha_roadmap_create',
+    'Create a roadmap with optional milestones',
+    {
+      project_id: z.string().describe('Project ID'),
+      name: z.string(),
+      description: z.string().optional(),
+      start_date: isoDate.optional(),
+      end_date: isoDate.optional(),
+      milestones: z.array(milestoneInput).optional(),
+      agent: z.string().optional().describe('Agent creating the roadmap'),
+    },
+    async ({ project_id, name, description, start_date, end_date, milestones, agent }) => {
+      await findProjectById(project_id);
+      assertDateRange(start_date, end_date);
+      
+      const data = await getStorage().table('roadmaps').insert({
+        project_id,
+        name,
+        description: description ?? null,
+        start_date: start_date ?? null,
+        end_date: end_date ?? null,
+        status: 'planned',
+        milestones: (milestones ?? [])
+          .map((m) => ({ id: randomUUID(), name: m.name, description: m.description ?? null, target_date: m.target_date }))
+          .sort((a, b) => a.target_date.localeCompare(b.target_date)),
+      });
+      
+      await logActivity(agent ?? 'system', 'roadmap_created', { name, milestones: data.milestones.length }, {
+        projectId: project_id,
+        relatedId: data.id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_get',
+    'Get a roadmap with its milestones',
+    {
+      roadmap_id: z.string(),
+    },
+    async ({ roadmap_id }) => {
+      const data = await getRoadmap(roadmap_id);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_list',
+    'List roadmaps of a project',
+    {
+      project_id: z.string(),
+      status: z.string().optional().describe('planned, active, completed, ...'),
+    },
+    async ({ project_id, status }) => {
+      const data = await getStorage().table('roadmaps').list({
+        where: { project_id, status },
+        orderBy: [{ column: 'start_date' }],
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_update',
+    'Update a roadmap',
+    {
+      roadmap_id: z.string(),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      start_date: isoDate.optional(),
+      end_date: isoDate.optional(),
+      status: z.string().optional().describe('planned, active, completed, ...'),
+      agent: z.string().optional(),
+    },
+    async ({ roadmap_id, agent, ...updates }) => {
+      const updateData: Record<string, unknown> = {};
+      
+      if (updates.name) updateData.name = updates.name;
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.start_date !== undefined) updateData.start_date = updates.start_date;
+      if (updates.end_date !== undefined) updateData.end_date = updates.end_date;
+      if (updates.status) updateData.status = updates.status;
+      
+      const roadmap = await getRoadmap(roadmap_id);
+      assertDateRange(updates.start_date ?? roadmap.start_date, updates.end_date ?? roadmap.end_date);
+      
+      const data = await getStorage().table('roadmaps').update(roadmap_id, updateData);
+      
+      await logActivity(agent ?? 'system', 'roadmap_updated', updates, {
+        projectId: data.project_id,
+        relatedId: roadmap_id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_milestone_add',
+    'Add a milestone to a roadmap',
+    {
+      roadmap_id: z.string(),
+      ...milestoneInput.shape,
+      agent: z.string().optional(),
+    },
+    async ({ roadmap_id, name, target_date, description, agent }) => {
+      const roadmap = await getRoadmap(roadmap_id);
+      const milestone: Milestone = { id: randomUUID(), name, description: description ?? null, target_date };
+      const data = await saveMilestones(roadmap_id, [...roadmap.milestones, milestone]);
+      
+      await logActivity(agent ?? 'system', 'milestone_added', { name, target_date }, {
+        projectId: roadmap.project_id,
+        relatedId: roadmap_id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_milestone_update',
+    'Update a milestone, e.g. move its target date',
+    {
+      roadmap_id: z.string(),
+      milestone_id: z.string(),
+      name: z.string().optional(),
+      target_date: isoDate.optional(),
+      description: z.string().optional(),
+      agent: z.string().optional(),
+    },
+    async ({ roadmap_id, milestone_id, agent, ...updates }) => {
+      const roadmap = await getRoadmap(roadmap_id);
+      const milestone = findMilestone(roadmap, milestone_id);
+      
+      const updated: Milestone = {
+        ...milestone,
+        name: updates.name ?? milestone.name,
+        target_date: updates.target_date ?? milestone.target_date,
+        description: updates.description ?? milestone.description,
+      };
+      const data = await saveMilestones(
+        roadmap_id,
+        roadmap.milestones.map((m) => (m.id === milestone_id ? updated : m))
+      );
+      
+      await logActivity(agent ?? 'system', 'milestone_updated', {
+        milestone: milestone.name,
+        ...updates,
+        previous_target_date: milestone.target_date,
+      }, {
+        projectId: roadmap.project_id,
+        relatedId: roadmap_id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_milestone_remove',
+    'Remove a milestone; its tasks stay on the roadmap as unscheduled',
+    {
+      roadmap_id: z.string(),
+      milestone_id: z.string(),
+      agent: z.string().optional(),
+    },
+    async ({ roadmap_id, milestone_id, agent }) => {
+      const roadmap = await getRoadmap(roadmap_id);
+      const milestone = findMilestone(roadmap, milestone_id);
+      
+      const tasks = (await getStorage().tasks.list({ where: { roadmap_id } }))
+        .filter((t) => t.metadata.milestone_id === milestone_id);
+      
+      for (const task of tasks) {
+        const { milestone_id: _removed, ...metadata } = task.metadata;
+        await getStorage().tasks.update(task.id, { metadata });
+      }
+      
+      const data = await saveMilestones(roadmap_id, roadmap.milestones.filter((m) => m.id !== milestone_id));
+      
+      await logActivity(agent ?? 'system', 'milestone_removed', { milestone: milestone.name, tasks: tasks.length }, {
+        projectId: roadmap.project_id,
+        relatedId: roadmap_id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_attach_tasks',
+    'Attach tasks to a roadmap, optionally to one of its milestones',
+    {
+      roadmap_id: z.string(),
+      task_ids: z.array(z.string()).min(1),
+      milestone_id: z.string().optional(),
+      agent: z.string().optional(),
+    },
+    async ({ roadmap_id, task_ids, milestone_id, agent }) => {
+      const roadmap = await getRoadmap(roadmap_id);
+      if (milestone_id) findMilestone(roadmap, milestone_id);
+      
+      const tasks = await getStorage().tasks.list({ where: { id: { in: task_ids } } });
+      
+      const missing = task_ids.filter((id) => !tasks.some((t) => t.id === id));
+      if (missing.length > 0) throw new Error(`Tasks not found: ${missing.join(', ')}`);
+      
+      const foreign = tasks.filter((t) => t.project_id !== roadmap.project_id);
+      if (foreign.length > 0) {
+        throw new Error(`Tasks belong to another project: ${foreign.map((t) => t.title).join(', ')}`);
+      }
+      
+      const updated: Task[] = [];
+      for (const task of tasks) {
+        const { milestone_id: _previous, ...metadata } = task.metadata;
+        updated.push(await getStorage().tasks.update(task.id, {
+          roadmap_id,
+          metadata: milestone_id ? { ...metadata, milestone_id } : metadata,
+          updated_by: agent ?? 'system',
+        }));
+      }
+      
+      await logActivity(agent ?? 'system', 'roadmap_tasks_attached', { task_ids, milestone_id }, {
+        projectId: roadmap.project_id,
+        relatedId: roadmap_id,
+        relatedType: 'roadmap',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(updated, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_detach_tasks',
+    'Remove tasks from their roadmap and milestone',
+    {
+      task_ids: z.array(z.string()).min(1),
+      agent: z.string().optional(),
+    },
+    async ({ task_ids, agent }) => {
+      const tasks = await getStorage().tasks.list({ where: { id: { in: task_ids } } });
+      
+      for (const task of tasks) {
+        const { milestone_id: _removed, ...metadata } = task.metadata;
+        await getStorage().tasks.update(task.id, { roadmap_id: null, metadata, updated_by: agent ?? 'system' });
+        
+        await logActivity(agent ?? 'system', 'roadmap_task_detached', {}, {
+          projectId: task.project_id,
+          relatedId: task.id,
+          relatedType: 'task',
+        });
+      }
+      
+      return {
+        content: [{ type: 'text', text: `Detached ${tasks.length} task(s)` }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_roadmap_progress',
+    'Roadmap progress: percent complete and slip risk per milestone',
+    {
+      roadmap_id: z.string(),
+    },
+    async ({ roadmap_id }) => {
+      const roadmap = await getRoadmap(roadmap_id);
+      const tasks = await getStorage().tasks.list({ where: { roadmap_id } });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(computeRoadmapProgress(roadmap, tasks), null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,276 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById, findTaskById, getStorage, logActivity } from '../db/storage.js';
+import type { Task } from '../db/supabase.js';
+import { assignTask, loadAssignmentContext, PRIORITY_WEIGHT, rankCandidates, recordAssignment } from '../lib/assignment.js';
+import { addDependency, buildTaskGraph, removeDependency, unblockIfReady } from '../lib/dependencies.js';
+import { resolveTeamName } from '../lib/registry.js';
+import { getStatusHistory, timeInStatus } from '../lib/status-history.js';
+import { buildTaskTree, findDescendants } from '../lib/task-tree.js';
+
+// ============================================
+// TASK DEPENDENCY, HISTORY, TREE & ASSIGNMENT TOOLS
+// ============================================
+export function registerTaskTools(server: McpServer): void {
+  server.tool(
+    'ha_task_depend_add',
+    'Make a task wait for another task (blocker) to be done',
+    {
+      task_id: z.string().describe('Dependent task'),
+      blocked_by: z.string().describe('Task that has to be done first'),
+      agent: z.string().optional().describe('Agent making the change'),
+    },
+    async ({ task_id, blocked_by, agent }) => {
+      const data = await addDependency(task_id, blocked_by, agent ?? 'system');
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_depend_remove',
+    'Remove a dependency between two tasks',
+    {
+      task_id: z.string().describe('Dependent task'),
+      blocked_by: z.string().describe('Blocker to remove'),
+      agent: z.string().optional().describe('Agent making the change'),
+    },
+    async ({ task_id, blocked_by, agent }) => {
+      const data = await removeDependency(task_id, blocked_by, agent ?? 'system');
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_graph',
+    'Dependency graph of a project with execution order and critical path',
+    {
+      project_id: z.string(),
+      include_done: z.boolean().optional().describe('Include completed tasks (default true)'),
+    },
+    async ({ project_id, include_done }) => {
+      const data = await getStorage().tasks.list({
+        where: { project_id, status: include_done === false ? { neq: 'done' } : undefined },
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(buildTaskGraph(data), null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_history',
+    'Status history of a task with hours spent in each status',
+    {
+      task_id: z.string(),
+    },
+    async ({ task_id }) => {
+      const task = await findTaskById(task_id);
+      const history = await getStatusHistory(task_id);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            task_id,
+            title: task.title,
+            status: task.status,
+            started_at: task.started_at,
+            completed_at: task.completed_at,
+            hours_in_status: timeInStatus(task, history),
+            history,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_tree',
+    'A task with its nested subtasks and rolled-up hours and completion; or all task trees of a project. With the project setting auto_complete_parents, a parent moves to review (not done) once its last subtask is done',
+    {
+      task_id: z.string().optional().describe('Root task'),
+      project_id: z.string().optional().describe('All top-level tasks of this project'),
+    },
+    async ({ task_id, project_id }) => {
+      let roots: Task[];
+      
+      if (task_id) {
+        roots = [await findTaskById(task_id)];
+      } else if (project_id) {
+        roots = await getStorage().tasks.list({
+          where: { project_id, parent_id: null },
+          orderBy: [{ column: 'created_at' }],
+        });
+      } else {
+        throw new Error('Either task_id or project_id is required');
+      }
+      
+      const descendants = await findDescendants(roots.map((t) => t.id));
+      const tree = buildTaskTree(roots, descendants);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(task_id ? tree[0] : tree, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_move',
+    'Move a task and its subtasks under another parent and/or into another project',
+    {
+      task_id: z.string(),
+      parent_id: z.string().nullable().optional().describe('New parent; null makes it a top-level task'),
+      project_id: z.string().optional().describe('Target project (default: the new parent\'s project)'),
+      agent: z.string().optional().describe('Agent making the change'),
+    },
+    async ({ task_id, parent_id, project_id, agent }) => {
+      const tasks = getStorage().tasks;
+      const task = await findTaskById(task_id);
+      const descendants = await findDescendants([task_id]);
+      const subtree = new Set([task_id, ...descendants.map((t) => t.id)]);
+      
+      const parent = parent_id ? await findTaskById(parent_id) : null;
+      if (parent && subtree.has(parent.id)) {
+        throw new Error(`Cannot move "${task.title}" under its own subtask "${parent.title}"`);
+      }
+      // A done parent has no open subtasks (see assertChildrenDone)
+      if (parent?.status === 'done' && [task, ...descendants].some((t) => t.status !== 'done')) {
+        throw new Error(`Cannot move open work under done task "${parent.title}"; reopen it first`);
+      }
+      
+      const targetProject = project_id ?? parent?.project_id ?? task.project_id;
+      if (project_id) await findProjectById(project_id);
+      if (parent && parent.project_id !== targetProject) {
+        throw new Error(`Parent "${parent.title}" belongs to another project`);
+      }
+      
+      const projectChanged = targetProject !== task.project_id;
+      // Leaving the project without a new parent makes the task top-level there
+      const newParentId = parent_id !== undefined ? parent_id : projectChanged ? null : task.parent_id;
+      
+      await tasks.update(task_id, { parent_id: newParentId, updated_by: agent ?? 'system' });
+      
+      if (projectChanged) {
+        // Roadmaps, milestones and dependencies do not cross projects
+        for (const moved of [task, ...descendants]) {
+          const { milestone_id: _milestone, ...metadata } = moved.metadata;
+          const blockedBy = (moved.blocked_by ?? []).filter((id) => subtree.has(id));
+          await tasks.update(moved.id, {
+            project_id: targetProject,
+            roadmap_id: null,
+            metadata,
+            blocked_by: blockedBy.length > 0 ? blockedBy : null,
+            updated_by: agent ?? 'system',
+          });
+        }
+        
+        const dependents = await tasks.list({
+          where: { project_id: task.project_id, blocked_by: { overlaps: [...subtree] } },
+        });
+        
+        for (const dependent of dependents) {
+          const blockedBy = (dependent.blocked_by ?? []).filter((id) => !subtree.has(id));
+          await tasks.update(dependent.id, { blocked_by: blockedBy.length > 0 ? blockedBy : null });
+        }
+        
+        // Tasks on either side may have lost their last open blocker
+        for (const id of [...subtree, ...dependents.map((t) => t.id)]) {
+          await unblockIfReady(await findTaskById(id), agent ?? 'system');
+        }
+      }
+      
+      await logActivity(agent ?? 'system', 'task_moved', {
+        from_parent: task.parent_id,
+        to_parent: newParentId,
+        from_project: task.project_id,
+        to_project: targetProject,
+        subtasks: descendants.length,
+      }, {
+        projectId: targetProject,
+        team: task.assigned_team ?? undefined,
+        relatedId: task_id,
+        relatedType: 'task',
+      });
+      
+      const moved = await findTaskById(task_id);
+      const tree = buildTaskTree([moved], await findDescendants([task_id]));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(tree[0], null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_task_auto_assign',
+    'Pick the best agent in a team for a task (load, seniority, skills, cycle time), or spread a team backlog in batch',
+    {
+      task_id: z.string().optional().describe('Task to assign (single mode)'),
+      team: z.string().optional().describe('Team to pick from (default: the task\'s team); required for batch'),
+      batch: z.boolean().optional().describe('Assign every unassigned backlog/todo task of the team'),
+      project_id: z.string().optional().describe('Batch: only tasks of this project'),
+      limit: z.number().optional().describe('Batch: max tasks (default 50)'),
+      dry_run: z.boolean().optional().describe('Only return the picks, do not assign'),
+      agent: z.string().optional().describe('Agent requesting the assignment'),
+    },
+    async ({ task_id, team, batch, project_id, limit, dry_run, agent }) => {
+      const by = agent?.toLowerCase() ?? 'system';
+      
+      if (!batch) {
+        if (!task_id) throw new Error('task_id is required unless batch is set');
+        const task = await findTaskById(task_id);
+        const teamName = team ? await resolveTeamName(team) : task.assigned_team;
+        if (!teamName) throw new Error('team is required for a task without a team');
+        
+        const candidates = rankCandidates(task, await loadAssignmentContext(teamName));
+        const pick = candidates[0]!;
+        const data = dry_run ? task : await assignTask(task, { team: teamName, agent: pick.agent }, by);
+        
+        return {
+          content: [{ type: 'text', text: JSON.stringify({
+            task: data,
+            assigned_to: pick.agent,
+            dry_run: dry_run ?? false,
+            explanation: pick.explanation,
+            candidates: candidates.slice(0, 5),
+          }, null, 2) }],
+        };
+      }
+      
+      if (!team) throw new Error('team is required for batch assignment');
+      const teamName = await resolveTeamName(team);
+      
+      const tasks = await getStorage().tasks.list({
+        where: { assigned_team: teamName, assigned_agent: null, status: { in: ['backlog', 'todo'] }, project_id },
+      });
+      
+      // Most important work first so it gets the best fits; the running load keeps it fair
+      const queue = tasks
+        .sort((a, b) => PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority] || a.created_at.localeCompare(b.created_at))
+        .slice(0, limit ?? 50);
+      
+      const context = await loadAssignmentContext(teamName);
+      const assignments: Array<{ task_id: string; title: string; priority: Task['priority']; agent: string; score: number; explanation: string }> = [];
+      for (const task of queue) {
+        const pick = rankCandidates(task, context)[0]!;
+        if (!dry_run) await assignTask(task, { team: teamName, agent: pick.agent }, by);
+        recordAssignment(context, pick.agent, task.priority);
+        assignments.push({ task_id: task.id, title: task.title, priority: task.priority, agent: pick.agent, score: pick.score, explanation: pick.explanation });
+      }
+      
+      const perAgent = Object.fromEntries(context.members.map((m) => [m.name, assignments.filter((a) => a.agent === m.name).length]));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ team: teamName, dry_run: dry_run ?? false, assigned: assignments.length, per_agent: perAgent, assignments }, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
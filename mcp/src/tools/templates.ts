@@ -0,0 +1,97 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { findProjectById, logActivity } from '../db/storage.js';
+import { generateSlug } from '../db/supabase.js';
+import { findTemplate, listTemplates, renderTemplate, saveTemplate, templateFromProject } from '../lib/templates.js';
+import type { TemplateTask } from '../lib/templates.js';
+
+// ============================================
+// PROJECT TEMPLATE TOOLS
+// ============================================
+export function registerTemplateTools(server: McpServer): void {
+  server.tool(
+    'ha_template_list',
+    'List project templates with their variables and size',
+    {},
+    async () => {
+      const templates = await listTemplates();
+      const data = templates.map(({ template, file, guide, error }) => template
+        ? {
+          name: template.name,
+          description: template.description,
+          variables: template.variables,
+          tech_stack: template.tech_stack,
+          milestones: template.roadmap?.milestones.length ?? 0,
+          tasks: countTasks(template.tasks),
+          file,
+          guide,
+        }
+        : { file, error });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_template_preview',
+    'Show the roadmap, milestones and tasks a template would create, without creating anything',
+    {
+      template: z.string().describe('Template name, e.g. saas'),
+      project_name: z.string().optional().describe('Name used for {{project.name}} (default: "New Project")'),
+      description: z.string().optional(),
+      tech_stack: z.record(z.string()).optional().describe('Overrides the template tech stack'),
+      variables: z.record(z.string()).optional().describe('Values for the template variables'),
+      start_date: z.string().optional().describe('ISO date (YYYY-MM-DD) milestones are scheduled from'),
+    },
+    async ({ template: name, project_name, description, tech_stack, variables, start_date }) => {
+      const template = await findTemplate(name);
+      if (!template) throw new Error(`Template not found: ${name}`);
+      
+      const projectName = project_name ?? 'New Project';
+      const data = await renderTemplate(template, {
+        project: { name: projectName, slug: generateSlug(projectName), description: description ?? null },
+        tech_stack,
+        variables,
+        start_date,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_template_save',
+    "Save an existing project's roadmap, milestones and task tree as a new template",
+    {
+      project_id: z.string(),
+      name: z.string().describe('Template name (lowercase, dashes)'),
+      description: z.string().optional(),
+      overwrite: z.boolean().optional().describe('Replace an existing template of that name'),
+      agent: z.string().optional().describe('Agent saving the template'),
+    },
+    async ({ project_id, name, description, overwrite, agent }) => {
+      const project = await findProjectById(project_id);
+      const template = await templateFromProject(project, name, description);
+      const file = await saveTemplate(template, overwrite ?? false);
+      
+      await logActivity(agent ?? 'system', 'template_saved', { template: name, file }, {
+        projectId: project_id,
+        relatedId: project_id,
+        relatedType: 'project',
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ file, template }, null, 2) }],
+      };
+    }
+  );
+}
+
+function countTasks(tasks: TemplateTask[]): number {
+  return tasks.reduce((sum, t) => sum + 1 + countTasks(t.subtasks ?? []), 0);
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { resolveAgentName, resolveTeamName } from '../lib/registry.js';
+import { findOpenTimer, logTime, startTimer, stopTimer, timesheet } from '../lib/time-tracking.js';
+
+// ============================================
+// TIME TRACKING TOOLS
+// ============================================
+export function registerTimeTrackingTools(server: McpServer): void {
+  server.tool(
+    'ha_time_start',
+    'Start a work timer on an in_progress task. One timer per agent; it stops when the task leaves in_progress',
+    {
+      task_id: z.string(),
+      agent: z.string(),
+      note: z.string().optional(),
+      switch: z.boolean().optional().describe('Stop the timer already running for this agent first'),
+    },
+    async ({ task_id, agent, note, switch: switchTask }) => {
+      const data = await startTimer({ taskId: task_id, agent: await resolveAgentName(agent), note, switchTask });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_time_stop',
+    "Stop the agent's running timer and add the session to the task's actual hours",
+    {
+      agent: z.string(),
+      note: z.string().optional().describe('What was done in this session'),
+    },
+    async ({ agent, note }) => {
+      const data = await stopTimer(await resolveAgentName(agent), note);
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_time_log',
+    'Record time worked on a task without a timer',
+    {
+      task_id: z.string(),
+      agent: z.string(),
+      hours: z.number().positive().max(24),
+      started_at: z.string().optional().describe('ISO start of the work (default: hours ago)'),
+      note: z.string().optional(),
+    },
+    async ({ task_id, agent, hours, started_at, note }) => {
+      const data = await logTime({ taskId: task_id, agent: await resolveAgentName(agent), hours, startedAt: started_at, note });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_time_current',
+    'The timer an agent has running, if any',
+    {
+      agent: z.string(),
+    },
+    async ({ agent }) => {
+      const data = await findOpenTimer(await resolveAgentName(agent));
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+  
+  server.tool(
+    'ha_timesheet',
+    'Hours worked by an agent or a team over a date range, per day, task and agent',
+    {
+      agent: z.string().optional(),
+      team: z.string().optional(),
+      from: z.string().describe('First day (YYYY-MM-DD)'),
+      to: z.string().describe('Last day, inclusive (YYYY-MM-DD)'),
+      project_id: z.string().optional(),
+    },
+    async ({ agent, team, from, to, project_id }) => {
+      if (!agent === !team) throw new Error('Pass either agent or team');
+      
+      const data = await timesheet({
+        agent: agent ? await resolveAgentName(agent) : undefined,
+        team: team ? await resolveTeamName(team) : undefined,
+        from,
+        to,
+        projectId: project_id,
+      });
+      
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+}
\ No newline at end of file
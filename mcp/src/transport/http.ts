@@ -0,0 +1,242 @@
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { onChange } from '../db/changes.js';
+import type { ChangeEvent } from '../db/changes.js';
+import { resolveAgentName } from '../lib/registry.js';
+import { PayloadTooLargeError, readBody, reply } from '../webhooks/callbacks.js';
+
+/** Tool calls carry whole files (ha_file_write allows 10 MB, base64-encoded) */
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// ============================================
+// ENVIRONMENT VALIDATION
+// ============================================
+const envSchema = z.object({
+  HA_HTTP_PORT: z.coerce.number().int().min(1).max(65535),
+  HA_HTTP_HOST: z.string().min(1),
+  HA_HTTP_TOKENS: z.string().min(1, 'HA_HTTP_TOKENS is required for the HTTP transport'),
+});
+
+function getEnv() {
+  const result = envSchema.safeParse({
+    HA_HTTP_PORT: process.env.HA_HTTP_PORT || 3333,
+    HA_HTTP_HOST: process.env.HA_HTTP_HOST || '127.0.0.1',
+    HA_HTTP_TOKENS: process.env.HA_HTTP_TOKENS,
+  });
+  
+  if (!result.success) {
+    throw new Error(`Invalid HTTP transport configuration: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+// ============================================
+// AUTHENTICATION
+// ============================================
+type Credential = { agent: string; digest: Buffer };
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/** `agent:token` pairs separated by commas; every agent must be in the roster */
+async function parseTokens(raw: string): Promise<Credential[]> {
+  const credentials: Credential[] = [];
+  
+  for (const entry of raw.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator < 1) throw new Error(`Invalid HA_HTTP_TOKENS entry, expected agent:token: ${entry.slice(0, 20)}`);
+    
+    const agent = await resolveAgentName(entry.slice(0, separator));
+    const token = entry.slice(separator + 1).trim();
+    if (token.length < 16) throw new Error(`Token for ${agent} is shorter than 16 characters`);
+    credentials.push({ agent, digest: digest(token) });
+  }
+  
+  if (credentials.length === 0) throw new Error('HA_HTTP_TOKENS has no agent:token entries');
+  return credentials;
+}
+
+/** Agent behind the bearer token, or null; digests keep the comparison constant-time */
+function authenticate(req: IncomingMessage, credentials: Credential[]): { agent: string; token: string } | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (!match?.[1]) return null;
+  
+  const presented = digest(match[1]);
+  const credential = credentials.find((c) => timingSafeEqual(c.digest, presented));
+  return credential ? { agent: credential.agent, token: match[1] } : null;
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+type Session = {
+  id: string | null;
+  agent: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Set once initialize succeeds; a failed handshake never subscribes */
+  unsubscribe: (() => void) | null;
+};
+
+/** Messages are private: a session only sees the receipts addressed to its agent */
+export function visibleTo(event: ChangeEvent, agent: string): boolean {
+  if (event.table === 'messages') return false;
+  if (event.table === 'message_receipts') return (event.row ?? event.previous)?.agent === agent;
+  return true;
+}
+
+export type HttpTransport = {
+  server: Server;
+  sessions: () => number;
+  close: () => Promise<void>;
+};
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Each session gets its own server
+ * from `createMcpServer`, bound to the agent of its bearer token: that agent
+ * is the caller for permission checks, and calls naming another caller are refused.
+ * Writes made by any session are pushed to the sessions allowed to see them
+ * (see visibleTo) as log notifications.
+ */
+export async function startHttpTransport(createMcpServer: () => McpServer): Promise<HttpTransport> {
+  const env = getEnv();
+  const credentials = await parseTokens(env.HA_HTTP_TOKENS);
+  const sessions = new Map<string, Session>();
+  
+  async function openSession(agent: string): Promise<Session> {
+    const server = createMcpServer();
+    const session: Session = {
+      id: null,
+      agent,
+      server,
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          session.id = id;
+          sessions.set(id, session);
+          // Live changes made through any session (or a worker) on this instance
+          session.unsubscribe = onChange((event) => {
+            if (!server.isConnected() || !visibleTo(event, agent)) return;
+            server.server
+              .sendLoggingMessage({ level: 'info', logger: event.table, data: event })
+              .catch((error) => console.error(`Failed to notify session ${id}:`, error));
+          });
+          console.error(`HTTP session ${id} opened for ${agent}`);
+        },
+      }),
+      unsubscribe: null,
+    };
+    
+    session.transport.onclose = () => {
+      session.unsubscribe?.();
+      if (session.id && sessions.delete(session.id)) {
+        console.error(`HTTP session ${session.id} closed`);
+      }
+    };
+    
+    await server.connect(session.transport);
+    return session;
+  }
+  
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method === 'GET' && path === '/health') {
+      reply(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+    if (path !== '/mcp') {
+      reply(res, 404, { error: 'Not found' });
+      return;
+    }
+    
+    const identity = authenticate(req, credentials);
+    if (!identity) {
+      res.setHeader('www-authenticate', 'Bearer');
+      reply(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+    
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = JSON.parse(await readBody(req, MAX_BODY_BYTES));
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          reply(res, 413, { error: error.message });
+          return;
+        }
+        reply(res, 400, {
+          jsonrpc: '2.0',
+          error: { code: -32700, message: `Parse error: ${error instanceof Error ? error.message : String(error)}` },
+          id: null,
+        });
+        return;
+      }
+    }
+    
+    const sessionId = req.headers[SESSION_HEADER];
+    let session: Session;
+    if (typeof sessionId === 'string') {
+      const existing = sessions.get(sessionId);
+      if (!existing) {
+        reply(res, 404, { error: `Unknown session: ${sessionId}` });
+        return;
+      }
+      if (existing.agent !== identity.agent) {
+        reply(res, 403, { error: `Session ${sessionId} belongs to another agent` });
+        return;
+      }
+      session = existing;
+    } else if (req.method === 'POST' && isInitializeRequest(body)) {
+      session = await openSession(identity.agent);
+    } else {
+      reply(res, 400, { error: 'No session; send an initialize request first' });
+      return;
+    }
+    
+    const authed = req as IncomingMessage & { auth?: { token: string; clientId: string; scopes: string[] } };
+    authed.auth = { token: identity.token, clientId: identity.agent, scopes: [] };
+    await session.transport.handleRequest(authed, res, body);
+  }
+  
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) reply(res, 500, { error: 'Internal error' });
+    });
+  });
+  
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(env.HA_HTTP_PORT, env.HA_HTTP_HOST, () => {
+      console.error(`MCP HTTP transport on http://${env.HA_HTTP_HOST}:${env.HA_HTTP_PORT}/mcp`);
+      resolve();
+    });
+  });
+  
+  return {
+    server,
+    sessions: () => sessions.size,
+    
+    /** Stops accepting connections, then closes every open session */
+    async close() {
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      await Promise.allSettled([...sessions.values()].map(async (session) => {
+        await session.transport.close();
+        await session.server.close();
+      }));
+      // Idle keep-alive sockets would otherwise hold the listener open
+      server.closeAllConnections();
+      await closed;
+    },
+  };
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { z } from 'zod';
+
+import { completeJob, failJob, getJob } from '../lib/jobs.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload, verifySignature } from './n8n.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const callbackSchema = z.object({
+  status: z.enum(['running', 'completed', 'failed']),
+  result: z.record(z.unknown()).optional(),
+  error: z.string().optional(),
+});
+
+export class PayloadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Payload too large (max ${maxBytes} bytes)`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/** Callbacks sign "<job_id>.<body>" so a captured result cannot be replayed against another job */
+export function signCallback(secret: string, timestamp: string, jobId: string, body: string): string {
+  return signPayload(secret, timestamp, `${jobId}.${body}`);
+}
+
+export function readBody(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      if (size > maxBytes) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining instead of destroying the socket so the 413 still reaches the client
+        chunks.length = 0;
+        reject(new PayloadTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export function reply(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handleCallback(req: IncomingMessage, res: ServerResponse, secret: string): Promise<void> {
+  const match = /^\/callbacks\/([0-9a-f-]{36})\/?$/i.exec(req.url ?? '');
+  if (req.method !== 'POST' || !match?.[1]) {
+    reply(res, 404, { error: 'Not found' });
+    return;
+  }
+  
+  const jobId = match[1];
+  let body: string;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    if (!(error instanceof PayloadTooLargeError)) throw error;
+    reply(res, 413, { error: error.message });
+    return;
+  }
+  
+  const timestamp = req.headers[TIMESTAMP_HEADER];
+  const signature = req.headers[SIGNATURE_HEADER];
+  if (!verifySignature(secret, String(timestamp ?? ''), `${jobId}.${body}`, String(signature ?? ''))) {
+    reply(res, 401, { error: 'Invalid signature' });
+    return;
+  }
+  
+  let payload: z.infer<typeof callbackSchema>;
+  try {
+    payload = callbackSchema.parse(JSON.parse(body));
+  } catch (error) {
+    reply(res, 400, { error: `Invalid callback payload: ${error instanceof Error ? error.message : String(error)}` });
+    return;
+  }
+  
+  let job;
+  try {
+    job = await getJob(jobId);
+  } catch {
+    reply(res, 404, { error: 'Unknown job' });
+    return;
+  }
+  
+  // Delivery may be retried by n8n; a finished job is not touched again
+  if (job.status === 'completed' || job.status === 'failed') {
+    reply(res, 200, { job_id: job.id, status: job.status, duplicate: true });
+    return;
+  }
+  
+  if (payload.status === 'running') {
+    reply(res, 202, { job_id: job.id, status: job.status });
+    return;
+  }
+  
+  const updated = payload.status === 'completed'
+    ? await completeJob(job, payload.result ?? {})
+    : await failJob(job, payload.error ?? 'Job failed', payload.result ?? null);
+  
+  reply(res, 200, { job_id: updated.id, status: updated.status });
+}
+
+/**
+ * Local HTTP listener for n8n job results: POST /callbacks/<job_id>,
+ * signed like outgoing webhooks but over "<job_id>.<body>" (see signCallback).
+ */
+export function startCallbackServer(port: number, host = '127.0.0.1'): Promise<Server> {
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+  if (!secret) throw new Error('N8N_WEBHOOK_SECRET is required for the callback listener');
+  
+  const server = createServer((req, res) => {
+    handleCallback(req, res, secret).catch((error) => {
+      console.error('Callback failed:', error);
+      if (!res.headersSent) reply(res, 500, { error: 'Internal error' });
+    });
+  });
+  
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      console.error(`Callback listener on http://${host}:${port}/callbacks`);
+      resolve(server);
+    });
+  });
+}
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+
+// ============================================
+// ENVIRONMENT VALIDATION
+// ============================================
+const envSchema = z.object({
+  N8N_WEBHOOK_URL: z.string().url(),
+  N8N_WEBHOOK_SECRET: z.string().min(1),
+  N8N_TIMEOUT_MS: z.coerce.number().int().positive(),
+  N8N_MAX_RETRIES: z.coerce.number().int().min(0),
+});
+
+function getEnv() {
+  const result = envSchema.safeParse({
+    N8N_WEBHOOK_URL: process.env.N8N_WEBHOOK_URL,
+    N8N_WEBHOOK_SECRET: process.env.N8N_WEBHOOK_SECRET,
+    N8N_TIMEOUT_MS: process.env.N8N_TIMEOUT_MS || 30000,
+    N8N_MAX_RETRIES: process.env.N8N_MAX_RETRIES || 3,
+  });
+  
+  if (!result.success) {
+    throw new Error(`Missing n8n configuration: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+// ============================================
+// SIGNING
+// ============================================
+export const SIGNATURE_HEADER = 'x-ha-signature';
+export const TIMESTAMP_HEADER = 'x-ha-timestamp';
+
+/** HMAC-SHA256 over "<timestamp>.<body>", hex encoded and prefixed with sha256= */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a signature made by signPayload. Timestamps older or newer than
+ * toleranceSeconds are rejected so captured requests cannot be replayed.
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  toleranceSeconds = 300
+): boolean {
+  if (!timestamp || !signature) return false;
+  
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) return false;
+  
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// WEBHOOK CLIENT
+// ============================================
+export interface WebhookOptions {
+  /** Sent as Idempotency-Key and reused for every retry (default: random) */
+  idempotencyKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, 60000);
+  return Math.min(500 * 2 ** attempt, 10000) + Math.floor(Math.random() * 250);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * POSTs a signed JSON payload to <N8N_WEBHOOK_URL>/<workflow>.
+ * Network errors, timeouts, 408/429 and 5xx are retried with exponential
+ * backoff; other 4xx fail immediately.
+ */
+export async function callN8nWebhook<T = unknown>(
+  workflow: string,
+  payload: Record<string, unknown>,
+  options: WebhookOptions = {}
+): Promise<T> {
+  const env = getEnv();
+  const url = `${env.N8N_WEBHOOK_URL.replace(/\/+$/, '')}/${workflow.replace(/^\/+/, '')}`;
+  const idempotencyKey = options.idempotencyKey ?? randomUUID();
+  const retries = options.retries ?? env.N8N_MAX_RETRIES;
+  const body = JSON.stringify(payload);
+  
+  let lastError: Error | null = null;
+  
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let response: Response;
+    let text: string;
+    
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'idempotency-key': idempotencyKey,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(env.N8N_WEBHOOK_SECRET, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? env.N8N_TIMEOUT_MS),
+      });
+      text = await response.text();
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : String(error);
+      lastError = new Error(`n8n webhook ${workflow} failed: ${reason}`);
+      if (attempt < retries) await sleep(backoffMs(attempt, null));
+      continue;
+    }
+    
+    if (response.ok) {
+      try {
+        return (text ? JSON.parse(text) : {}) as T;
+      } catch {
+        throw new Error(`n8n webhook ${workflow} returned invalid JSON: ${text.slice(0, 200)}`);
+      }
+    }
+    
+    lastError = new Error(`n8n webhook ${workflow} returned ${response.status}: ${text.slice(0, 500)}`);
+    if (!RETRYABLE_STATUS.has(response.status)) throw lastError;
+    if (attempt < retries) await sleep(backoffMs(attempt, response.headers.get('retry-after')));
+  }
+  
+  throw lastError ?? new Error(`n8n webhook ${workflow} failed`);
+}
\ No newline at end of file
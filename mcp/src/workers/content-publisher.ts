@@ -0,0 +1,230 @@
+import { getStorage, logActivity } from '../db/storage.js';
+import type { ContentCalendar } from '../db/supabase.js';
+import { PLATFORM_RULES, composePostText, splitThread } from '../lib/platforms.js';
+import { getPublishAdapter } from '../publishers/adapters.js';
+import type { PublishAdapter } from '../publishers/adapters.js';
+
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const CLAIM_MS = 5 * 60 * 1000;
+
+/** Publishing bookkeeping kept in content_calendar.metadata.publish */
+export interface PublishState {
+  attempts: number;
+  adapter?: string;
+  last_attempt_at?: string;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  claimed_until?: string | null;
+  external_ids?: string[];
+  url?: string | null;
+  /** scheduled_for of the last dry run, so a preview is produced once per schedule */
+  dry_run_for?: string | null;
+  dry_run_at?: string | null;
+}
+
+export interface PublishOutcome {
+  content_id: string;
+  platform: string;
+  result: 'posted' | 'dry-run' | 'retry' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+function maxAttempts(): number {
+  return Number(process.env.CONTENT_PUBLISHER_MAX_ATTEMPTS || 5);
+}
+
+function publishState(item: ContentCalendar): PublishState {
+  const state = item.metadata.publish as PublishState | undefined;
+  return state ?? { attempts: 0 };
+}
+
+export function contentSegments(item: ContentCalendar): string[] {
+  const rules = PLATFORM_RULES[item.platform];
+  const text = composePostText(item);
+  
+  if (item.content_type === 'thread' && rules.maxThreadSegments) {
+    return splitThread(text, rules.maxLengthByType?.thread ?? rules.maxLength);
+  }
+  return [text];
+}
+
+async function saveState(item: ContentCalendar, state: PublishState, updates: Record<string, unknown> = {}) {
+  return getStorage().table('content_calendar').update(item.id, { ...updates, metadata: { ...item.metadata, publish: state } });
+}
+
+/**
+ * Marks the item as being published so a second server instance skips it.
+ * The update only matches while updated_at is unchanged.
+ */
+async function claim(item: ContentCalendar, now: number): Promise<ContentCalendar | null> {
+  const state: PublishState = { ...publishState(item), claimed_until: new Date(now + CLAIM_MS).toISOString() };
+  
+  return getStorage().table('content_calendar').updateIf(
+    item.id,
+    { status: 'scheduled', updated_at: item.updated_at },
+    { metadata: { ...item.metadata, publish: state } }
+  );
+}
+
+/** A dry run only previews the post; the item stays scheduled and is not previewed again */
+async function recordDryRun(item: ContentCalendar, adapter: PublishAdapter, previous: PublishState): Promise<PublishOutcome> {
+  const result = await adapter.publish({ item, segments: contentSegments(item) });
+  
+  await saveState(item, {
+    ...previous,
+    adapter: adapter.name,
+    claimed_until: null,
+    external_ids: result.external_ids,
+    url: result.url ?? null,
+    dry_run_for: item.scheduled_for,
+    dry_run_at: new Date().toISOString(),
+  });
+  
+  await logActivity('publisher', 'content_dry_run', {
+    platform: item.platform,
+    adapter: adapter.name,
+    posts: result.external_ids.length,
+  }, { projectId: item.project_id, relatedId: item.id, relatedType: 'content' });
+  
+  return { content_id: item.id, platform: item.platform, result: 'dry-run', attempts: previous.attempts };
+}
+
+async function publishItem(item: ContentCalendar, adapter: PublishAdapter, now: number): Promise<PublishOutcome> {
+  const claimed = await claim(item, now);
+  if (!claimed) {
+    return { content_id: item.id, platform: item.platform, result: 'skipped', attempts: publishState(item).attempts };
+  }
+  
+  const previous = publishState(claimed);
+  const attempts = previous.attempts + 1;
+  const attemptedAt = new Date().toISOString();
+  
+  try {
+    if (adapter.dryRun) return await recordDryRun(claimed, adapter, previous);
+    
+    const result = await adapter.publish({ item: claimed, segments: contentSegments(claimed) });
+    
+    await saveState(claimed, {
+      ...previous,
+      attempts,
+      adapter: adapter.name,
+      last_attempt_at: attemptedAt,
+      last_error: null,
+      next_attempt_at: null,
+      claimed_until: null,
+      external_ids: result.external_ids,
+      url: result.url ?? null,
+    }, { status: 'posted', posted_at: new Date().toISOString() });
+    
+    await logActivity('publisher', 'content_posted', {
+      platform: claimed.platform,
+      adapter: adapter.name,
+      posts: result.external_ids.length,
+      attempts,
+    }, { projectId: claimed.project_id, relatedId: claimed.id, relatedType: 'content' });
+    
+    return { content_id: claimed.id, platform: claimed.platform, result: 'posted', attempts };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= maxAttempts();
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+    
+    await saveState(claimed, {
+      ...previous,
+      attempts,
+      adapter: adapter.name,
+      last_attempt_at: attemptedAt,
+      last_error: message,
+      next_attempt_at: exhausted ? null : new Date(Date.now() + delay).toISOString(),
+      claimed_until: null,
+    }, exhausted ? { status: 'failed' } : {});
+    
+    await logActivity('publisher', exhausted ? 'content_failed' : 'content_publish_retry', {
+      platform: claimed.platform,
+      adapter: adapter.name,
+      attempts,
+      error: message,
+    }, { projectId: claimed.project_id, relatedId: claimed.id, relatedType: 'content' });
+    
+    return {
+      content_id: claimed.id,
+      platform: claimed.platform,
+      result: exhausted ? 'failed' : 'retry',
+      attempts,
+      error: message,
+    };
+  }
+}
+
+/** One publishing pass over all scheduled items that are due */
+export async function publishDueContent(options: { projectId?: string; limit?: number } = {}): Promise<PublishOutcome[]> {
+  const now = Date.now();
+  
+  const scheduled = await getStorage().table('content_calendar').list({
+    where: {
+      status: 'scheduled',
+      scheduled_for: { lte: new Date(now).toISOString() },
+      project_id: options.projectId,
+    },
+    orderBy: [{ column: 'scheduled_for' }],
+    limit: options.limit ?? 50,
+  });
+  
+  const due = scheduled.filter((item) => {
+    const state = publishState(item);
+    const waitUntil = Math.max(
+      Date.parse(state.next_attempt_at ?? '') || 0,
+      Date.parse(state.claimed_until ?? '') || 0
+    );
+    return waitUntil <= now;
+  });
+  
+  const outcomes: PublishOutcome[] = [];
+  for (const item of due) {
+    // Resolve the adapter before claiming so bad configuration never leaves an item claimed
+    let adapter: PublishAdapter;
+    try {
+      adapter = getPublishAdapter(item.platform);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcomes.push({ content_id: item.id, platform: item.platform, result: 'skipped', attempts: publishState(item).attempts, error: message });
+      continue;
+    }
+    
+    if (adapter.dryRun && publishState(item).dry_run_for === item.scheduled_for) continue;
+    outcomes.push(await publishItem(item, adapter, now));
+  }
+  return outcomes;
+}
+
+/**
+ * Publishes due content every intervalMs.
+ * Returns a function that stops the worker.
+ */
+export function startContentPublisher(intervalMs: number): () => void {
+  let running = false;
+  
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const outcomes = await publishDueContent();
+      const posted = outcomes.filter((o) => o.result === 'posted').length;
+      if (outcomes.length > 0) {
+        console.error(`Content publisher: ${posted}/${outcomes.length} posted`);
+      }
+    } catch (error) {
+      console.error('Content publisher failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  
+  return () => clearInterval(timer);
+}
\ No newline at end of file
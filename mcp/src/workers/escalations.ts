@@ -0,0 +1,32 @@
+import { checkAllEscalations } from '../lib/escalations.js';
+
+/**
+ * Periodically applies the SLA rules to active projects.
+ * Returns a function that stops the worker.
+ */
+export function startEscalationWorker(intervalMs: number): () => void {
+  let running = false;
+  
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const results = await checkAllEscalations();
+      const opened = results.reduce((sum, r) => sum + r.opened.length, 0);
+      const raised = results.reduce((sum, r) => sum + r.raised.length, 0);
+      if (opened > 0 || raised > 0) {
+        console.error(`Escalations: opened ${opened}, raised ${raised}`);
+      }
+    } catch (error) {
+      console.error('Escalation check failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  
+  return () => clearInterval(timer);
+}
\ No newline at end of file
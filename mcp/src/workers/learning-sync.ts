@@ -0,0 +1,30 @@
+import { syncLearningEmbeddings } from '../db/qdrant.js';
+
+/**
+ * Periodically embeds new or changed learnings into the vector store.
+ * Returns a function that stops the worker.
+ */
+export function startLearningSyncWorker(intervalMs: number): () => void {
+  let running = false;
+  
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await syncLearningEmbeddings();
+      if (result.embedded > 0) {
+        console.error(`Learning sync: embedded ${result.embedded}, skipped ${result.skipped} (${result.model})`);
+      }
+    } catch (error) {
+      console.error('Learning sync failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  
+  return () => clearInterval(timer);
+}
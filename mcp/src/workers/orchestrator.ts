@@ -0,0 +1,32 @@
+import { orchestrateAll } from '../lib/orchestrator.js';
+
+/**
+ * Periodically runs the orchestrator over active autonomous projects.
+ * Returns a function that stops the worker.
+ */
+export function startOrchestrator(intervalMs: number): () => void {
+  let running = false;
+  
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const results = await orchestrateAll();
+      const dispatched = results.reduce((sum, r) => sum + r.dispatched.length, 0);
+      const escalated = results.reduce((sum, r) => sum + r.escalations.opened.length + r.escalations.raised.length, 0);
+      if (dispatched > 0 || escalated > 0) {
+        console.error(`Orchestrator: dispatched ${dispatched}, escalated ${escalated} across ${results.length} projects`);
+      }
+    } catch (error) {
+      console.error('Orchestrator failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  
+  return () => clearInterval(timer);
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import type { ContentCalendar, ContentPlatform } from '../src/db/supabase.js';
+import { createFileSinkAdapter, registerPublishAdapter } from '../src/publishers/adapters.js';
+import { registerContentTools } from '../src/tools/content.js';
+import { publishDueContent } from '../src/workers/content-publisher.js';
+import { collectTools, createProject, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerContentTools);
+
+async function scheduledItem(platform: ContentPlatform): Promise<ContentCalendar> {
+  const project = await createProject();
+  return getStorage().table('content_calendar').insert({
+    project_id: project.id,
+    platform,
+    content_type: 'post',
+    title: null,
+    content: 'Launch day',
+    hashtags: null,
+    mentions: null,
+    image_prompt: null,
+    image_path: null,
+    video_prompt: null,
+    video_path: null,
+    media_urls: null,
+    status: 'scheduled',
+    scheduled_for: new Date(Date.now() - 60_000).toISOString(),
+    posted_at: null,
+    analytics: {},
+    campaign: null,
+    created_by: 'zara',
+    metadata: {},
+  });
+}
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+afterAll(() => {
+  delete process.env.CONTENT_PUBLISHER_ADAPTER;
+});
+
+// The adapter registry caches its configuration, so these run in order
+describe('content publisher', () => {
+  it('keeps failing on a bad platform route instead of falling back', async () => {
+    process.env.CONTENT_PUBLISHER_PLATFORMS = 'twiter=n8n';
+    await scheduledItem('twitter');
+    
+    for (let run = 0; run < 2; run++) {
+      const [outcome] = await publishDueContent();
+      expect(outcome).toMatchObject({ result: 'skipped', error: expect.stringContaining('Unknown platform in CONTENT_PUBLISHER_PLATFORMS: twiter') });
+    }
+    delete process.env.CONTENT_PUBLISHER_PLATFORMS;
+  });
+  
+  it('does not claim items when the adapter is misconfigured', async () => {
+    process.env.CONTENT_PUBLISHER_ADAPTER = 'bogus';
+    const item = await scheduledItem('twitter');
+    
+    const [outcome] = await publishDueContent();
+    expect(outcome).toMatchObject({ result: 'skipped', error: expect.stringContaining('bogus') });
+    
+    const stored = await getStorage().table('content_calendar').get(item.id);
+    expect(stored?.status).toBe('scheduled');
+    expect(stored?.metadata.publish).toBeUndefined();
+  });
+  
+  it('previews in dry-run mode without marking the item posted', async () => {
+    process.env.CONTENT_PUBLISHER_ADAPTER = 'dry-run';
+    const item = await scheduledItem('twitter');
+    
+    expect((await publishDueContent()).map((o) => o.result)).toEqual(['dry-run']);
+    const stored = await getStorage().table('content_calendar').get(item.id);
+    expect(stored).toMatchObject({ status: 'scheduled', posted_at: null });
+    expect(stored?.metadata.publish).toMatchObject({ attempts: 0, dry_run_for: item.scheduled_for, claimed_until: null });
+    
+    expect(await publishDueContent()).toEqual([]);
+  });
+  
+  it('posts through a registered platform adapter', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ha-published-'));
+    registerPublishAdapter('linkedin', createFileSinkAdapter(dir));
+    const item = await scheduledItem('linkedin');
+    
+    expect((await publishDueContent()).map((o) => o.result)).toEqual(['posted']);
+    const stored = await getStorage().table('content_calendar').get(item.id);
+    expect(stored?.status).toBe('posted');
+    expect(stored?.posted_at).not.toBeNull();
+    expect(await readFile(join(dir, 'linkedin.jsonl'), 'utf8')).toContain('Launch day');
+  });
+});
+
+describe('content scheduling', () => {
+  it('gives a failed item its attempts back when scheduled again', async () => {
+    const item = await scheduledItem('linkedin');
+    await getStorage().table('content_calendar').update(item.id, {
+      status: 'failed',
+      metadata: { campaign_note: 'launch', publish: { attempts: 5, last_error: 'timeout' } },
+    });
+    
+    const scheduled = await tools.json<ContentCalendar>('ha_content_schedule', {
+      content_id: item.id,
+      scheduled_for: new Date(Date.now() + 3_600_000).toISOString(),
+    });
+    expect(scheduled.status).toBe('scheduled');
+    expect(scheduled.metadata).toEqual({ campaign_note: 'launch' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { findTaskById, getStorage } from '../src/db/storage.js';
+import { addDependency, removeDependency } from '../src/lib/dependencies.js';
+import { transitionTask } from '../src/lib/task-status.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('task dependencies', () => {
+  it('rejects self-blocks, cycles and cross-project edges', async () => {
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema' });
+    const api = await newTask(project, { title: 'API' });
+    const other = await newTask(await createProject(), { title: 'Elsewhere' });
+    
+    await expect(addDependency(api.id, api.id, 'marcus')).rejects.toThrow('cannot block itself');
+    await addDependency(api.id, schema.id, 'marcus');
+    await expect(addDependency(schema.id, api.id, 'marcus')).rejects.toThrow('would create a cycle');
+    await expect(addDependency(api.id, other.id, 'marcus')).rejects.toThrow('within one project');
+  });
+  
+  it('blocks a ready task and releases it when the blocker is done', async () => {
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema', status: 'review', assigned_agent: 'leon' });
+    const api = await newTask(project, { title: 'API', status: 'todo' });
+    
+    const blocked = await addDependency(api.id, schema.id, 'marcus');
+    expect(blocked.status).toBe('blocked');
+    await expect(transitionTask(blocked, 'in_progress', { agent: 'mira' })).rejects.toThrow('blocked by open tasks');
+    
+    await transitionTask(schema, 'done', { agent: 'marcus', reviewer: 'marcus' });
+    expect((await findTaskById(api.id)).status).toBe('todo');
+    
+    const history = await getStorage().taskStatusHistory.list({ where: { task_id: api.id } });
+    expect(history.map((h) => [h.to_status, h.reason])).toEqual([['blocked', 'Waiting on "Schema"'], ['todo', 'all blockers done']]);
+  });
+  
+  it('leaves manually blocked tasks alone', async () => {
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema' });
+    const api = await newTask(project, { title: 'API', status: 'blocked', blocker_reason: 'Waiting on legal' });
+    
+    await addDependency(api.id, schema.id, 'marcus');
+    const data = await removeDependency(api.id, schema.id, 'marcus');
+    expect(data).toMatchObject({ status: 'blocked', blocked_by: null });
+  });
+  
+  it('keeps a later manual block once a dependency block was lifted by hand', async () => {
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema', status: 'review', assigned_agent: 'leon' });
+    const api = await newTask(project, { title: 'API', status: 'todo' });
+    
+    const blocked = await addDependency(api.id, schema.id, 'marcus');
+    const history = await getStorage().taskStatusHistory.list({ where: { task_id: api.id } });
+    expect(history.map((h) => h.to_status)).toEqual(['blocked']);
+    
+    const unblocked = await transitionTask(blocked, 'todo', { agent: 'marcus' });
+    expect(unblocked.metadata).not.toHaveProperty('blocked_by_dependencies');
+    await transitionTask(unblocked, 'blocked', { agent: 'marcus', reason: 'Waiting on legal' });
+    
+    await transitionTask(schema, 'done', { agent: 'marcus', reviewer: 'marcus' });
+    expect(await findTaskById(api.id)).toMatchObject({ status: 'blocked', blocker_reason: 'Waiting on legal' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import { acknowledgeEscalation, checkEscalations, escalationTargets, listEscalations, resolveEscalation } from '../src/lib/escalations.js';
+import { orchestrateProject } from '../src/lib/orchestrator.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+/** A low priority task in progress for eight days: one SLA period over, so it goes to the assignee */
+async function stalledTask(agent: string, tags: string[] = []) {
+  const project = await createProject();
+  const task = await newTask(project, {
+    title: 'Payments API',
+    assigned_team: 'devforge',
+    assigned_agent: agent,
+    priority: 'low',
+    status: 'in_progress',
+    started_at: new Date(Date.now() - 8 * DAY_MS).toISOString(),
+    tags,
+  });
+  return { project, task };
+}
+
+describe('escalation targets', () => {
+  it('picks the tech lead matching the assignee\'s specialty', async () => {
+    expect(await escalationTargets((await stalledTask('leon')).task, 1)).toEqual({ level: 'tech_lead', agents: ['marcus'] });
+    expect(await escalationTargets((await stalledTask('jonas')).task, 1)).toEqual({ level: 'tech_lead', agents: ['elena'] });
+    expect(await escalationTargets((await stalledTask('sophia', ['backend'])).task, 1)).toEqual({ level: 'tech_lead', agents: ['marcus'] });
+  });
+});
+
+describe('escalation handling', () => {
+  it('lets only the recipients or the level above handle an escalation', async () => {
+    const { project } = await stalledTask('leon');
+    const { opened } = await checkEscalations(project);
+    expect(opened).toEqual([expect.objectContaining({ level: 'assignee', escalated_to: ['leon'] })]);
+    const [escalation] = await listEscalations({ projectId: project.id });
+    
+    await expect(acknowledgeEscalation(escalation!.id, 'leon')).rejects.toThrow('leon is the assignee');
+    await expect(resolveEscalation(escalation!.id, 'kai', 'done')).rejects.toThrow('is for marcus, not kai');
+    expect((await acknowledgeEscalation(escalation!.id, 'marcus')).status).toBe('acknowledged');
+  });
+});
+
+describe('escalation checks', () => {
+  it('treats an escalation opened by an overlapping check as already open', async () => {
+    const { project, task } = await stalledTask('leon');
+    const escalations = getStorage().table('escalations');
+    const insert = escalations.insert;
+    vi.spyOn(escalations, 'insert').mockImplementationOnce(async (row) => {
+      await insert(row);
+      throw new Error('duplicate key value violates unique constraint "escalations_active_task_idx"');
+    });
+    
+    expect((await checkEscalations(project)).opened).toEqual([]);
+    expect(await listEscalations({ taskId: task.id })).toHaveLength(1);
+  });
+});
+
+describe('orchestrator escalations', () => {
+  it('records stalled tasks as escalations instead of queue items', async () => {
+    const { project, task } = await stalledTask('leon');
+    
+    const result = await orchestrateProject(project);
+    expect(result.escalations.opened).toEqual([expect.objectContaining({ task_id: task.id, level: 'assignee' })]);
+    expect(await listEscalations({ projectId: project.id })).toHaveLength(1);
+    
+    expect((await orchestrateProject(project)).escalations.opened).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { mkdir, mkdtemp, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { resolveWorkspacePath } from '../src/lib/workspace.js';
+import { registerFileTools } from '../src/tools/files.js';
+import { collectTools, createProject, newTask, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerFileTools);
+let root: string;
+
+beforeEach(async () => {
+  await useTempStorage();
+  root = await mkdtemp(join(tmpdir(), 'ha-workspace-'));
+  process.env.HA_WORKSPACE_ROOT = root;
+});
+
+afterAll(() => {
+  delete process.env.HA_WORKSPACE_ROOT;
+});
+
+describe('workspace sandbox', () => {
+  it('rejects absolute paths, escapes and the reserved directory', async () => {
+    await expect(resolveWorkspacePath('/etc/passwd')).rejects.toThrow('must be relative');
+    await expect(resolveWorkspacePath('../outside.txt')).rejects.toThrow('escapes the workspace');
+    await expect(resolveWorkspacePath('acme/../../outside.txt')).rejects.toThrow('escapes the workspace');
+    await expect(resolveWorkspacePath('.ha/versions/abc')).rejects.toThrow('reserved');
+    await expect(resolveWorkspacePath('acme/../.ha')).rejects.toThrow('reserved');
+    
+    expect((await resolveWorkspacePath('acme/./landing/hero.md')).path).toBe('acme/landing/hero.md');
+  });
+  
+  it('rejects symlinks that point outside the root', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'ha-outside-'));
+    await symlink(outside, join(root, 'link'));
+    
+    await expect(tools.call('ha_file_write', { path: 'link/secret.txt', content: 'x', agent: 'jonas' }))
+      .rejects.toThrow('through a symlink');
+    expect(await tools.json<unknown[]>('ha_file_list', {})).toEqual([]);
+  });
+  
+  it('enforces the write and read size limits', async () => {
+    await expect(tools.call('ha_file_write', { path: 'big.txt', content: 'x'.repeat(10 * 1024 * 1024 + 1), agent: 'jonas' }))
+      .rejects.toThrow('File is too large');
+    
+    await writeFile(join(root, 'huge.txt'), Buffer.alloc(1024 * 1024 + 1));
+    await expect(tools.call('ha_file_read', { path: 'huge.txt' })).rejects.toThrow('too large to read');
+  });
+});
+
+describe('deliverables', () => {
+  it('versions changed content and diffs two versions', async () => {
+    const task = await newTask(await createProject(), { title: 'Landing copy' });
+    await mkdir(join(root, 'acme'));
+    
+    const first = await tools.json<{ deliverable: { version: number } }>('ha_file_write', { path: 'acme/hero.md', content: 'Fast\n', agent: 'jonas', task_id: task.id });
+    const again = await tools.json<{ deliverable: { version: number } }>('ha_file_attach', { path: 'acme/hero.md', agent: 'jonas', task_id: task.id });
+    const second = await tools.json<{ deliverable: { version: number } }>('ha_file_write', { path: 'acme/hero.md', content: 'Faster\n', agent: 'jonas', task_id: task.id });
+    expect([first.deliverable.version, again.deliverable.version, second.deliverable.version]).toEqual([1, 1, 2]);
+    
+    const { diff } = await tools.json<{ diff: string }>('ha_task_deliverables', { task_id: task.id, path: 'acme/hero.md', diff: true });
+    expect(diff).toContain('-Fast');
+    expect(diff).toContain('+Faster');
+  });
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { findTaskById } from '../src/db/storage.js';
+import type { Handoff, Task } from '../src/db/supabase.js';
+import { registerHandoffTools } from '../src/tools/handoffs.js';
+import { collectTools, createProject, newTask, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerHandoffTools);
+
+type Created = { handoff: Handoff; task: Task };
+type Chain = { owners: string[]; open: Handoff | null; handoffs: Handoff[] };
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+async function leonsTask() {
+  const project = await createProject();
+  return newTask(project, { title: 'Payments API', assigned_team: 'devforge', assigned_agent: 'leon', status: 'in_progress' });
+}
+
+function handOff(task: Task, from: string, to: string) {
+  return tools.json<Created>('ha_handoff_create', { task_id: task.id, from_agent: from, to_agent: to, summary: 'Endpoints done, tests missing' });
+}
+
+describe('handoffs', () => {
+  it('moves the task to the target only when the handoff is accepted', async () => {
+    const task = await leonsTask();
+    const { handoff } = await handOff(task, 'leon', 'Jonas');
+    expect(handoff).toMatchObject({ from_agent: 'leon', to_agent: 'jonas', status: 'pending' });
+    expect((await findTaskById(task.id)).assigned_agent).toBe('leon');
+    
+    await expect(tools.call('ha_handoff_accept', { handoff_id: handoff.id, agent: 'lena' })).rejects.toThrow('addressed to jonas, not lena');
+    
+    const accepted = await tools.json<Created>('ha_handoff_accept', { handoff_id: handoff.id, agent: 'jonas', note: 'On it' });
+    expect(accepted.handoff).toMatchObject({ status: 'accepted', response: 'On it' });
+    expect((await findTaskById(task.id)).assigned_agent).toBe('jonas');
+    await expect(tools.call('ha_handoff_reject', { handoff_id: handoff.id, agent: 'jonas', reason: 'Too late' })).rejects.toThrow('already accepted');
+  });
+  
+  it('leaves the task with the sender when the handoff is rejected', async () => {
+    const task = await leonsTask();
+    const { handoff } = await handOff(task, 'leon', 'jonas');
+    
+    const rejected = await tools.json<Handoff>('ha_handoff_reject', { handoff_id: handoff.id, agent: 'jonas', reason: 'No capacity' });
+    expect(rejected).toMatchObject({ status: 'rejected', response: 'No capacity' });
+    expect((await findTaskById(task.id)).assigned_agent).toBe('leon');
+    
+    expect((await handOff(task, 'leon', 'lena')).handoff.status).toBe('pending');
+  });
+  
+  it('allows one open handoff per task, sent by its assignee', async () => {
+    const task = await leonsTask();
+    
+    await expect(handOff(task, 'jonas', 'lena')).rejects.toThrow('only the assignee can hand it off');
+    await expect(handOff(task, 'leon', 'leon')).rejects.toThrow('Cannot hand a task off to yourself');
+    
+    const { handoff } = await handOff(task, 'leon', 'jonas');
+    await expect(handOff(task, 'leon', 'lena')).rejects.toThrow(`already has an open handoff to jonas (${handoff.id})`);
+  });
+  
+  it('lets the target ask for information and the sender answer', async () => {
+    const task = await leonsTask();
+    const { handoff } = await handOff(task, 'leon', 'jonas');
+    
+    await expect(tools.call('ha_handoff_reply', { handoff_id: handoff.id, agent: 'leon', answer: 'Sure' })).rejects.toThrow('no information was requested');
+    
+    const asked = await tools.json<Handoff>('ha_handoff_request_info', { handoff_id: handoff.id, agent: 'jonas', questions: 'Which tests are missing?' });
+    expect(asked.status).toBe('info_requested');
+    expect(await tools.json<Handoff[]>('ha_handoff_list', { agent: 'leon', direction: 'outgoing', status: 'info_requested' })).toHaveLength(1);
+    
+    await expect(tools.call('ha_handoff_reply', { handoff_id: handoff.id, agent: 'jonas', answer: 'None' })).rejects.toThrow('Only leon can answer');
+    const answered = await tools.json<Handoff>('ha_handoff_reply', { handoff_id: handoff.id, agent: 'leon', answer: 'Refund edge cases' });
+    expect(answered.status).toBe('pending');
+    expect(answered.messages.map((m) => [m.agent, m.kind])).toEqual([['jonas', 'info_request'], ['leon', 'info_reply']]);
+    expect((await findTaskById(task.id)).assigned_agent).toBe('leon');
+  });
+  
+  it('traces every owner of a task through its handoffs', async () => {
+    const task = await leonsTask();
+    const first = await handOff(task, 'leon', 'jonas');
+    await tools.call('ha_handoff_accept', { handoff_id: first.handoff.id, agent: 'jonas' });
+    const second = await handOff(task, 'jonas', 'lena');
+    await tools.call('ha_handoff_accept', { handoff_id: second.handoff.id, agent: 'lena' });
+    await handOff(task, 'lena', 'mira');
+    
+    const chain = await tools.json<Chain>('ha_handoff_chain', { task_id: task.id });
+    expect(chain.owners).toEqual(['leon', 'jonas', 'lena']);
+    expect(chain.handoffs).toHaveLength(3);
+    expect(chain.open).toMatchObject({ from_agent: 'lena', to_agent: 'mira', status: 'pending' });
+  });
+});
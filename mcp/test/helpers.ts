@@ -0,0 +1,58 @@
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { createLocalStorage } from '../src/db/local.js';
+import { createTask, getStorage, setStorage } from '../src/db/storage.js';
+import type { NewTask } from '../src/db/storage.js';
+import type { Project } from '../src/db/supabase.js';
+
+type ToolHandler = (args: Record<string, unknown>, extra: Record<string, unknown>) => Promise<{ content: Array<{ text: string }> }>;
+
+/** Points the storage singleton at an empty local data directory */
+export async function useTempStorage(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'ha-test-'));
+  setStorage(createLocalStorage(dir));
+  return dir;
+}
+
+export async function createProject(settings: Record<string, unknown> = {}): Promise<Project> {
+  return getStorage().projects.insert({
+    name: 'Test project',
+    slug: `test-${Math.random().toString(36).slice(2, 8)}`,
+    description: null,
+    template: null,
+    status: 'active',
+    settings,
+    tech_stack: {},
+    metadata: {},
+  });
+}
+
+export function newTask(project: Project, task: Omit<NewTask, 'project_id'>) {
+  return createTask({ project_id: project.id, ...task });
+}
+
+/**
+ * Collects the handlers a register function adds, so tools can be called
+ * directly: `await tools.call('ha_task_get', { task_id })`.
+ */
+export function collectTools(...register: Array<(server: McpServer) => void>) {
+  const handlers = new Map<string, ToolHandler>();
+  const server = {
+    tool: (name: string, ...rest: unknown[]) => handlers.set(name, rest[rest.length - 1] as ToolHandler),
+  } as unknown as McpServer;
+  for (const fn of register) fn(server);
+  
+  return {
+    async call(name: string, args: Record<string, unknown> = {}, extra: Record<string, unknown> = {}): Promise<string> {
+      const handler = handlers.get(name);
+      if (!handler) throw new Error(`Tool not registered: ${name}`);
+      return (await handler(args, extra)).content[0]!.text;
+    },
+    async json<T = unknown>(name: string, args: Record<string, unknown> = {}, extra: Record<string, unknown> = {}): Promise<T> {
+      return JSON.parse(await this.call(name, args, extra)) as T;
+    },
+  };
+}
\ No newline at end of file
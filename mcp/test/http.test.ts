@@ -0,0 +1,104 @@
+import { createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { enforcePermissions } from '../src/lib/permissions.js';
+import { inboxUri, registerResources } from '../src/resources/resources.js';
+import { registerHandoffTools } from '../src/tools/handoffs.js';
+import { registerTimeTrackingTools } from '../src/tools/time-tracking.js';
+import { startHttpTransport } from '../src/transport/http.js';
+import type { HttpTransport } from '../src/transport/http.js';
+import { useTempStorage } from './helpers.js';
+
+const TOKENS = { marcus: 'marcus-token-0123456789', jonas: 'jonas-token-0123456789' };
+
+let transport: HttpTransport;
+let url: URL;
+const clients: Client[] = [];
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+    probe.once('error', reject);
+  });
+}
+
+function createMcpServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { logging: {} } });
+  enforcePermissions(server);
+  registerResources(server);
+  registerHandoffTools(server);
+  registerTimeTrackingTools(server);
+  return server;
+}
+
+async function connect(agent: keyof typeof TOKENS): Promise<Client> {
+  const client = new Client({ name: `${agent}-test`, version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(url, {
+    requestInit: { headers: { authorization: `Bearer ${TOKENS[agent]}` } },
+  }));
+  clients.push(client);
+  return client;
+}
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  return (result.content as Array<{ text: string }>)[0]!.text;
+}
+
+beforeAll(async () => {
+  process.env.HA_HTTP_PORT = String(await freePort());
+  process.env.HA_HTTP_TOKENS = Object.entries(TOKENS).map(([agent, token]) => `${agent}:${token}`).join(',');
+  transport = await startHttpTransport(createMcpServer);
+  url = new URL(`http://127.0.0.1:${process.env.HA_HTTP_PORT}/mcp`);
+});
+
+afterAll(async () => {
+  await transport.close();
+  delete process.env.HA_HTTP_PORT;
+  delete process.env.HA_HTTP_TOKENS;
+});
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((c) => c.close()));
+});
+
+describe('HTTP sessions', () => {
+  it('let an agent list a teammate\'s work', async () => {
+    const marcus = await connect('marcus');
+    
+    const timesheet = await marcus.callTool({ name: 'ha_timesheet', arguments: { agent: 'jonas', from: '2026-10-01', to: '2026-10-07' } });
+    expect(timesheet.isError).toBeFalsy();
+    expect(JSON.parse(textOf(timesheet))).toMatchObject({ agent: 'jonas' });
+    
+    const handoffs = await marcus.callTool({ name: 'ha_handoff_list', arguments: { agent: 'jonas' } });
+    expect(handoffs.isError).toBeFalsy();
+  });
+  
+  it('still refuse acting as another agent', async () => {
+    const marcus = await connect('marcus');
+    
+    const started = await marcus.callTool({ name: 'ha_time_start', arguments: { agent: 'jonas', task_id: 'x' } });
+    expect(started.isError).toBe(true);
+    expect(textOf(started)).toContain('Authenticated as marcus; cannot act as jonas');
+  });
+  
+  it('keep an agent\'s inbox to that agent', async () => {
+    const jonas = await connect('jonas');
+    
+    const own = await jonas.readResource({ uri: inboxUri('jonas') });
+    expect(JSON.parse((own.contents[0] as { text: string }).text)).toMatchObject({ agent: 'jonas', messages: { unread: 0 } });
+    
+    await expect(jonas.readResource({ uri: inboxUri('marcus') })).rejects.toThrow('cannot act as marcus');
+    await expect(jonas.subscribeResource({ uri: inboxUri('marcus') })).rejects.toThrow('cannot act as marcus');
+  });
+});
@@ -0,0 +1,88 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Job } from '../src/db/supabase.js';
+import { completeJob, createJob, getJob, markJobRunning } from '../src/lib/jobs.js';
+import { registerAiServiceTools } from '../src/tools/ai-services.js';
+import { signCallback, startCallbackServer } from '../src/webhooks/callbacks.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, callN8nWebhook } from '../src/webhooks/n8n.js';
+import { collectTools, createProject, newTask, useTempStorage } from './helpers.js';
+
+vi.mock('../src/webhooks/n8n.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/webhooks/n8n.js')>()),
+  callN8nWebhook: vi.fn(),
+}));
+
+const SECRET = 'test-secret';
+const tools = collectTools(registerAiServiceTools);
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  process.env.N8N_WEBHOOK_SECRET = SECRET;
+  process.env.CALLBACK_PORT = '1';
+  server = await startCallbackServer(0);
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.N8N_WEBHOOK_SECRET;
+  delete process.env.CALLBACK_PORT;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+function postCallback(jobId: string, body: string, signedFor = jobId) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return fetch(`${base}/callbacks/${jobId}`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signCallback(SECRET, timestamp, signedFor, body),
+    },
+    body,
+  });
+}
+
+describe('async jobs', () => {
+  it('keeps a result that arrives before the webhook returns', async () => {
+    const project = await createProject();
+    const task = await newTask(project, { title: 'Hero image' });
+    vi.mocked(callN8nWebhook).mockImplementationOnce(async (_workflow, payload) => {
+      await completeJob(await getJob(String(payload.job_id)), { path: 'assets/hero.png' });
+      return {};
+    });
+    
+    const job = await tools.json<Job>('ha_ai_generate_image', { task_id: task.id, prompt: 'A hero' });
+    expect(job.status).toBe('completed');
+    expect((await getJob(job.id)).status).toBe('completed');
+  });
+  
+  it('only moves pending jobs to running', async () => {
+    const job = await createJob({ kind: 'generate-image', request: {} });
+    const done = await completeJob(job, {});
+    expect(done.status).toBe('completed');
+    expect((await markJobRunning(job)).status).toBe('completed');
+  });
+  
+  it('rejects a callback signed for another job', async () => {
+    const job = await markJobRunning(await createJob({ kind: 'generate-image', request: {} }));
+    const other = await createJob({ kind: 'generate-image', request: {} });
+    const body = JSON.stringify({ status: 'failed', error: 'nope' });
+    
+    expect((await postCallback(job.id, body, other.id)).status).toBe(401);
+    expect((await postCallback(job.id, body)).status).toBe(200);
+    expect((await getJob(job.id)).status).toBe('failed');
+  });
+  
+  it('answers 413 for an oversized callback body', async () => {
+    const job = await createJob({ kind: 'generate-image', request: {} });
+    const response = await postCallback(job.id, JSON.stringify({ status: 'completed', padding: 'x'.repeat(1024 * 1024) }));
+    expect(response.status).toBe(413);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+import type { QdrantClient } from '@qdrant/js-client-rest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createLocalEmbeddingProvider,
+  createMemoryVectorStore,
+  createQdrantVectorStore,
+  searchLearningsSemantic,
+  setEmbeddingProvider,
+  setVectorStore,
+  syncLearningEmbeddings,
+} from '../src/db/qdrant.js';
+import { getStorage } from '../src/db/storage.js';
+import { useTempStorage } from './helpers.js';
+
+async function addLearning(title: string, problem: string) {
+  return getStorage().table('learnings').insert({
+    title, problem, solution: 'fixed', context: null, category: 'bug', tags: [], severity: null, project_id: null,
+    related_task_ids: null, related_files: null, code_snippets: [], team: null, created_by: 'system',
+  });
+}
+
+beforeEach(async () => {
+  await useTempStorage();
+  setEmbeddingProvider(createLocalEmbeddingProvider(64));
+  setVectorStore(createMemoryVectorStore());
+});
+
+describe('learning embeddings', () => {
+  it('skips unchanged learnings while the store keeps its points', async () => {
+    await addLearning('Token refresh loop', 'The auth token refresh retried forever');
+    
+    expect(await syncLearningEmbeddings()).toMatchObject({ scanned: 1, embedded: 1 });
+    expect(await syncLearningEmbeddings()).toMatchObject({ scanned: 1, embedded: 0, skipped: 1 });
+  });
+  
+  it('rebuilds a memory store after a restart even though the hashes are stored', async () => {
+    const learning = await addLearning('Token refresh loop', 'The auth token refresh retried forever');
+    await syncLearningEmbeddings();
+    
+    setVectorStore(createMemoryVectorStore());
+    expect(await syncLearningEmbeddings()).toMatchObject({ embedded: 1, skipped: 0 });
+    expect((await searchLearningsSemantic('auth token refresh')).map((l) => l.id)).toEqual([learning.id]);
+  });
+  
+  it('fills an empty store before the first search', async () => {
+    const learning = await addLearning('Token refresh loop', 'The auth token refresh retried forever');
+    await syncLearningEmbeddings();
+    setVectorStore(createMemoryVectorStore());
+    
+    expect((await searchLearningsSemantic('token refresh')).map((l) => l.id)).toEqual([learning.id]);
+  });
+  
+  it('re-embeds everything when the embedding dimensions change', async () => {
+    await addLearning('Token refresh loop', 'The auth token refresh retried forever');
+    await syncLearningEmbeddings();
+    
+    setEmbeddingProvider(createLocalEmbeddingProvider(32));
+    expect(await syncLearningEmbeddings()).toMatchObject({ embedded: 1, model: 'local-hash-32' });
+  });
+  
+  it('recreates a Qdrant collection whose vector size no longer matches', async () => {
+    const client = {
+      collectionExists: vi.fn().mockResolvedValue({ exists: true }),
+      getCollection: vi.fn().mockResolvedValue({ config: { params: { vectors: { size: 1536, distance: 'Cosine' } } } }),
+      deleteCollection: vi.fn().mockResolvedValue(true),
+      createCollection: vi.fn().mockResolvedValue(true),
+    };
+    const store = createQdrantVectorStore(client as unknown as QdrantClient, 'learnings');
+    
+    expect(await store.ensureCollection(1536)).toBe(false);
+    expect(client.deleteCollection).not.toHaveBeenCalled();
+    
+    expect(await store.ensureCollection(384)).toBe(true);
+    expect(client.deleteCollection).toHaveBeenCalledWith('learnings');
+    expect(client.createCollection).toHaveBeenCalledWith('learnings', { vectors: { size: 384, distance: 'Cosine' } });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createLocalStorage } from '../src/db/local.js';
+import type { Storage } from '../src/db/repository.js';
+
+let storage: Storage;
+
+beforeEach(async () => {
+  storage = createLocalStorage(await mkdtemp(join(tmpdir(), 'ha-local-')));
+});
+
+async function seedTasks() {
+  const project = await storage.projects.insert({
+    name: 'P', slug: 'p', description: null, template: null, status: 'active', settings: {}, tech_stack: {}, metadata: {},
+  });
+  const base = {
+    project_id: project.id, description: null, assigned_team: null, assigned_agent: null, parent_id: null,
+    estimated_hours: null, actual_hours: null, status: 'todo' as const, roadmap_id: null, blocked_by: null,
+    blocker_reason: null, deliverable_path: null, deliverables: [], metadata: {}, created_by: 'system',
+    updated_by: null, due_date: null, started_at: null, completed_at: null,
+  };
+  for (const [title, priority, tags] of [['a', 'low', ['ui']], ['b', 'critical', ['api', 'ui']], ['c', 'medium', []], ['d', 'high', ['api']]] as const) {
+    await storage.tasks.insert({ ...base, title, priority, tags: [...tags] });
+  }
+}
+
+describe('local storage', () => {
+  it('sorts priority in enum order, not alphabetically', async () => {
+    await seedTasks();
+    const tasks = await storage.tasks.list({ orderBy: [{ column: 'priority' }] });
+    expect(tasks.map((t) => t.priority)).toEqual(['critical', 'high', 'medium', 'low']);
+    
+    const descending = await storage.tasks.list({ orderBy: [{ column: 'priority', ascending: false }] });
+    expect(descending.map((t) => t.title)).toEqual(['a', 'c', 'd', 'b']);
+  });
+  
+  it('combines operators, null filters and array operators', async () => {
+    await seedTasks();
+    const ui = await storage.tasks.list({ where: { tags: { contains: ['ui'] }, priority: { neq: 'low' } } });
+    expect(ui.map((t) => t.title)).toEqual(['b']);
+    
+    const some = await storage.tasks.list({ where: { tags: { overlaps: ['api'] }, assigned_agent: null, due_date: undefined } });
+    expect(some.map((t) => t.title).sort()).toEqual(['b', 'd']);
+  });
+  
+  it('full-text search matches words and phrases and honours exclusions', async () => {
+    const learnings = storage.table('learnings');
+    const base = {
+      project_id: null, context: null, category: 'bug' as const, severity: null, related_task_ids: null,
+      related_files: null, code_snippets: [], team: null, created_by: 'system', search_vector: null,
+    };
+    await learnings.insert({ ...base, title: 'RLS blocks insert', problem: 'Row level security denied the insert', solution: 'Add a policy', tags: ['supabase'] });
+    await learnings.insert({ ...base, title: 'Slow query', problem: 'Missing index on tasks', solution: 'Add an index', tags: ['postgres'] });
+    
+    const search = (terms: string) => learnings.list({ search: { terms, column: 'search_vector', fields: ['title', 'problem', 'solution', 'tags'] } });
+    expect((await search('insert policy')).map((l) => l.title)).toEqual(['RLS blocks insert']);
+    expect((await search('"level security"')).map((l) => l.title)).toEqual(['RLS blocks insert']);
+    expect((await search('add -supabase')).map((l) => l.title)).toEqual(['Slow query']);
+    expect(await search('missing policy')).toEqual([]);
+  });
+  
+  it('updateIf only writes while the row still matches', async () => {
+    await seedTasks();
+    const [task] = await storage.tasks.list({ where: { title: 'a' } });
+    
+    const claimed = await storage.tasks.updateIf(task!.id, { status: 'todo', updated_at: task!.updated_at }, { status: 'in_progress' });
+    expect(claimed?.status).toBe('in_progress');
+    
+    const again = await storage.tasks.updateIf(task!.id, { status: 'todo' }, { status: 'done' });
+    expect(again).toBeNull();
+    expect((await storage.tasks.get(task!.id))?.status).toBe('in_progress');
+  });
+  
+  it('lets only one of two concurrent claims win', async () => {
+    await seedTasks();
+    const [task] = await storage.tasks.list({ where: { title: 'b' } });
+    const results = await Promise.all([1, 2].map((n) => storage.tasks.updateIf(task!.id, { updated_by: null }, { updated_by: `worker-${n}` })));
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+});
\ No newline at end of file
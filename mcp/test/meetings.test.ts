@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { Meeting } from '../src/db/supabase.js';
+import { registerMeetingTools } from '../src/tools/meetings.js';
+import { collectTools, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerMeetingTools);
+
+async function runningMeeting(participants = ['marcus', 'sophia', 'viktor']) {
+  const meeting = await tools.json<Meeting>('ha_meeting_schedule', { title: 'Sync', topic: 'API', participants });
+  await tools.call('ha_meeting_start', { meeting_id: meeting.id });
+  return meeting.id;
+}
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('meeting transcripts', () => {
+  it('accepts a speaker by full agent handle', async () => {
+    const id = await runningMeeting();
+    
+    expect(await tools.call('ha_meeting_say', { meeting_id: id, speaker: 'marcus-tech-lead-backend', message: 'Hi' })).toContain('turn 1');
+    expect((await tools.json<Meeting>('ha_meeting_get', { meeting_id: id })).transcript[0]!.speaker).toBe('marcus');
+  });
+  
+  it('rejects speakers who are not participants', async () => {
+    const id = await runningMeeting();
+    await expect(tools.call('ha_meeting_say', { meeting_id: id, speaker: 'kai', message: 'Hi' })).rejects.toThrow(/not a participant/);
+  });
+  
+  it('keeps every turn when participants speak at the same time', async () => {
+    const id = await runningMeeting();
+    const speakers = ['marcus', 'sophia', 'viktor'];
+    
+    await Promise.all(Array.from({ length: 12 }, (_, i) => tools.call('ha_meeting_say', {
+      meeting_id: id,
+      speaker: speakers[i % 3],
+      message: `point ${i}`,
+    })));
+    
+    const { transcript } = await tools.json<Meeting>('ha_meeting_get', { meeting_id: id });
+    expect(transcript.map((t) => t.message).sort()).toEqual(Array.from({ length: 12 }, (_, i) => `point ${i}`).sort());
+  });
+});
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { ChangeEvent } from '../src/db/changes.js';
+import type { Message } from '../src/db/supabase.js';
+import { readInbox } from '../src/resources/resources.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { visibleTo } from '../src/transport/http.js';
+import { collectTools, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerMessageTools);
+const asJonas = { authInfo: { clientId: 'jonas' } };
+
+type Sent = { message: Message; delivered_to: string[] };
+type Thread = { root: Message; replies: Message[] };
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+function change(table: ChangeEvent['table'], row: Record<string, unknown>): ChangeEvent {
+  return { table, action: 'insert', id: 'x', row, previous: null, at: new Date().toISOString() };
+}
+
+describe('messages on an authenticated connection', () => {
+  it('sends as the authenticated agent and refuses other senders', async () => {
+    const sent = await tools.json('ha_message_send', { to: 'lena', body: 'Standup moved' }, asJonas);
+    expect(sent).toMatchObject({ message: { sender: 'jonas' }, delivered_to: ['lena'] });
+    
+    await expect(tools.call('ha_message_send', { from: 'marcus', to: 'lena', body: 'Ship it' }, asJonas))
+      .rejects.toThrow('Authenticated as jonas; cannot act as marcus');
+  });
+  
+  it('only opens the authenticated agent\'s inbox', async () => {
+    await tools.call('ha_message_send', { from: 'lena', to: 'jonas', body: 'Review please' });
+    
+    expect((await tools.json<{ unread: number }>('ha_message_inbox', {}, asJonas)).unread).toBe(1);
+    await expect(tools.call('ha_message_inbox', { agent: 'lena' }, asJonas)).rejects.toThrow('cannot act as lena');
+  });
+  
+  it('leaves messages out of another agent\'s work summary', async () => {
+    await tools.call('ha_message_send', { from: 'jonas', to: 'lena', body: 'Review please' });
+    
+    expect(await readInbox('lena', asJonas)).not.toHaveProperty('messages');
+    expect((await readInbox('lena', { authInfo: { clientId: 'lena' } })).messages?.unread).toBe(1);
+  });
+  
+  it('only shows a thread to agents it reached', async () => {
+    const { message } = await tools.json<Sent>('ha_message_send', { from: 'lena', to: 'marcus', body: 'Salary talk' });
+    await tools.call('ha_message_send', { from: 'marcus', thread_id: message.id, body: 'Tomorrow' });
+    
+    expect((await tools.json<Thread>('ha_message_thread', { message_id: message.id, agent: 'marcus' })).replies).toHaveLength(1);
+    await expect(tools.call('ha_message_thread', { message_id: message.id }, asJonas)).rejects.toThrow('Message not found');
+    await expect(tools.call('ha_message_send', { thread_id: message.id, body: 'Me too?' }, asJonas)).rejects.toThrow('Message not found');
+    
+    const { message: post } = await tools.json<Sent>('ha_message_send', { from: 'lena', channel: 'devforge', body: 'Deploy at 5' });
+    expect((await tools.json<Thread>('ha_message_thread', { message_id: post.id }, asJonas)).root.id).toBe(post.id);
+  });
+});
+
+describe('change feed', () => {
+  it('pushes message receipts only to their agent', () => {
+    expect(visibleTo(change('messages', { sender: 'lena' }), 'jonas')).toBe(false);
+    expect(visibleTo(change('message_receipts', { agent: 'jonas' }), 'jonas')).toBe(true);
+    expect(visibleTo(change('message_receipts', { agent: 'jonas' }), 'lena')).toBe(false);
+    expect(visibleTo(change('tasks', { title: 'Login' }), 'lena')).toBe(true);
+  });
+});
\ No newline at end of file
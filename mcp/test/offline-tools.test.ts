@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import type { ContentCalendar, Learning, Meeting } from '../src/db/supabase.js';
+import { registerContentTools } from '../src/tools/content.js';
+import { registerJobTools } from '../src/tools/jobs.js';
+import { registerLearningTools } from '../src/tools/learnings.js';
+import { registerMeetingTools } from '../src/tools/meetings.js';
+import { collectTools, createProject, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerLearningTools, registerMeetingTools, registerContentTools, registerJobTools);
+
+beforeEach(async () => {
+  delete process.env.SUPABASE_URL;
+  await useTempStorage();
+});
+
+describe('tools on the local backend', () => {
+  it('records and searches learnings without Supabase', async () => {
+    const created = await tools.json<Learning>('ha_learning_create', {
+      title: 'RLS blocks insert',
+      problem: 'Row level security denied the insert',
+      solution: 'Add an insert policy',
+      tags: ['Supabase'],
+    });
+    expect(created.tags).toEqual(['supabase']);
+    
+    expect((await tools.json<Learning[]>('ha_learning_search', { query: 'insert policy' })).map((l) => l.id)).toEqual([created.id]);
+    expect(await tools.json('ha_learning_list', { tag: 'supabase' })).toHaveLength(1);
+    expect((await tools.json<Learning>('ha_learning_update', { learning_id: created.id, context: 'Edge functions' })).context).toBe('Edge functions');
+  });
+  
+  it('runs a meeting and turns its action items into tasks on one backend', async () => {
+    const project = await createProject();
+    const meeting = await tools.json<Meeting>('ha_meeting_schedule', {
+      title: 'API review',
+      topic: 'Endpoints',
+      participants: ['marcus', 'sophia'],
+      project_id: project.id,
+    });
+    await tools.call('ha_meeting_start', { meeting_id: meeting.id });
+    await tools.call('ha_meeting_say', { meeting_id: meeting.id, speaker: 'marcus', message: 'Ship v1 first' });
+    
+    const closed = await tools.json<Meeting>('ha_meeting_close', {
+      meeting_id: meeting.id,
+      summary: 'Agreed on v1',
+      action_items: [{ title: 'Write OpenAPI spec', owner: 'sophia' }],
+      create_tasks: true,
+    });
+    
+    expect(closed.status).toBe('completed');
+    const task = await getStorage().tasks.get(closed.action_items[0]!.task_id!);
+    expect(task?.assigned_agent).toBe('sophia');
+    expect(await tools.json('ha_meeting_list', { participant: 'marcus' })).toHaveLength(1);
+  });
+  
+  it('drafts and lists content and jobs', async () => {
+    const project = await createProject();
+    const draft = await tools.json<ContentCalendar>('ha_content_draft', { project_id: project.id, platform: 'linkedin', content_type: 'post', content: 'Hello' });
+    
+    expect((await tools.json<ContentCalendar[]>('ha_content_list', { project_id: project.id })).map((c) => c.id)).toEqual([draft.id]);
+    expect(await tools.json('ha_job_list', { project_id: project.id })).toEqual([]);
+  });
+});
\ No newline at end of file
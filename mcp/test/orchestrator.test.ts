@@ -0,0 +1,21 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { orchestrateProject } from '../src/lib/orchestrator.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('orchestrator', () => {
+  it('counts unestimated tasks against the hour budget', async () => {
+    const project = await createProject({ autonomous: true, max_total_hours: 6, default_estimate_hours: 4 });
+    await newTask(project, { title: 'Header', assigned_team: 'devforge', assigned_agent: 'lena', status: 'todo' });
+    await newTask(project, { title: 'Footer', assigned_team: 'devforge', assigned_agent: 'jonas', status: 'todo' });
+    
+    const result = await orchestrateProject(project, { dryRun: true });
+    expect(result.dispatched.map((d) => d.title)).toEqual(['Header']);
+    expect(result.skipped).toEqual([expect.objectContaining({ title: 'Footer', reason: 'would exceed 6h budget (4h committed)' })]);
+    expect(result.budget_exhausted).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { callerOf, checkPermission, enforcePermissions } from '../src/lib/permissions.js';
+import { registerPermissionTools } from '../src/tools/permissions.js';
+import { registerTaskTools } from '../src/tools/tasks.js';
+import { collectTools, createProject, newTask, useTempStorage } from './helpers.js';
+
+describe('permissions', () => {
+  it('takes the caller from the tool\'s own argument, not the assignee', async () => {
+    expect(callerOf('ha_task_update', { agent: 'jonas', updated_by: 'marcus' })).toBe('marcus');
+    expect(callerOf('ha_task_assign', { agent: 'jonas' })).toBe('anonymous');
+    expect(callerOf('ha_task_status', { agent: 'jonas' })).toBe('jonas');
+    
+    const decision = await checkPermission('ha_task_update', { agent: 'marcus', updated_by: 'jonas', status: 'done' });
+    expect(decision).toMatchObject({ allowed: false, agent: 'jonas' });
+  });
+  
+  it('gives anonymous calls the least privileged role', async () => {
+    const decision = await checkPermission('ha_task_move', {});
+    expect(decision).toMatchObject({ allowed: false, agent: 'anonymous', roles: ['junior'] });
+    expect(await checkPermission('ha_escalation_check', {})).toMatchObject({ allowed: false, roles: ['junior'] });
+  });
+  
+  it('checks an agent named by its full roster name', async () => {
+    const tools = collectTools(registerPermissionTools);
+    
+    const decision = await tools.json<{ allowed: boolean; agent: string; roles: string[] }>('ha_permissions_check', { agent: 'Jonas-Junior-Frontend', tool: 'ha_task_move' });
+    expect(decision).toMatchObject({ allowed: false, agent: 'jonas', roles: ['junior'] });
+  });
+  
+  it('refuses to register a tool without a declared caller argument', () => {
+    expect(() => collectTools((server) => {
+      enforcePermissions(server);
+      server.tool('ha_unlisted', 'Not in the caller map', async () => ({ content: [] }));
+    })).toThrow('No caller argument declared for tool ha_unlisted');
+  });
+  
+  it('refuses arguments naming someone other than the authenticated agent', async () => {
+    expect(await checkPermission('ha_task_status', { agent: 'marcus', status: 'done' }, 'jonas'))
+      .toMatchObject({ allowed: false, reason: 'Authenticated as jonas; cannot act as marcus' });
+    expect(await checkPermission('ha_task_status', { agent: 'jonas-junior-frontend', status: 'todo' }, 'jonas'))
+      .toMatchObject({ allowed: true, agent: 'jonas' });
+  });
+  
+  it('records the authenticated agent when the caller argument is left out', async () => {
+    await useTempStorage();
+    const tools = collectTools((server) => {
+      enforcePermissions(server);
+      registerTaskTools(server);
+    });
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema' });
+    const api = await newTask(project, { title: 'API' });
+    
+    const data = await tools.json<{ updated_by: string }>('ha_task_depend_add', { task_id: api.id, blocked_by: schema.id }, { authInfo: { clientId: 'marcus' } });
+    expect(data.updated_by).toBe('marcus');
+  });
+  
+  it('treats a filter argument as no caller', async () => {
+    expect(callerOf('ha_task_list', { agent: 'jonas' })).toBe('anonymous');
+    expect(await checkPermission('ha_task_list', { agent: 'jonas' }, 'marcus'))
+      .toMatchObject({ allowed: true, agent: 'marcus' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { loadRegistry, resolveAgentName, resolveTeamName } from '../src/lib/registry.js';
+
+afterEach(async () => {
+  delete process.env.HA_AGENTS_DIR;
+  await loadRegistry();
+});
+
+describe('registry', () => {
+  it('fails when HA_AGENTS_DIR has no profiles', async () => {
+    process.env.HA_AGENTS_DIR = await mkdtemp(join(tmpdir(), 'ha-agents-'));
+    await expect(loadRegistry()).rejects.toThrow('HA_AGENTS_DIR has no agent profiles');
+  });
+  
+  it('resolves names and file stems and rejects unknown ones', async () => {
+    expect(await resolveAgentName('Marcus-Tech-Lead-Backend')).toBe('marcus');
+    await expect(resolveAgentName('marcos')).rejects.toThrow('Did you mean: marcus');
+    await expect(resolveTeamName('devforce')).rejects.toThrow('Did you mean: devforge');
+  });
+});
\ No newline at end of file
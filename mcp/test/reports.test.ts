@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import { buildProjectReport } from '../src/lib/reports.js';
+import { registerReportTools } from '../src/tools/reports.js';
+import { collectTools, createProject, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerReportTools);
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('report range', () => {
+  it('refuses ranges over two years', async () => {
+    const project = await createProject();
+    await expect(buildProjectReport(project, { from: '2020-01-01', to: '2026-01-01' })).rejects.toThrow('at most 731 days');
+  });
+  
+  it('starts the default range at most two years back', async () => {
+    const project = { ...await createProject(), created_at: '2015-03-01T00:00:00.000Z' };
+    
+    const report = await buildProjectReport(project, { to: '2026-01-01' });
+    expect(report.from).toBe('2024-01-01');
+    expect(report.burndown).toHaveLength(732);
+  });
+});
+
+describe('standup', () => {
+  it('posts the digest as the calling agent', async () => {
+    await tools.call('ha_standup', { team: 'devforge', post: true }, { authInfo: { clientId: 'nina' } });
+    await tools.call('ha_standup', { team: 'devforge', post: true, agent: 'Marcus' });
+    await expect(tools.call('ha_standup', { team: 'devforge', post: true })).rejects.toThrow('agent is required');
+    
+    const posted = await getStorage().table('messages').list({ where: { channel: 'devforge' } });
+    expect(posted.map((m) => m.sender).sort()).toEqual(['marcus', 'nina']);
+  });
+});
\ No newline at end of file
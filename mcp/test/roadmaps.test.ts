@@ -0,0 +1,23 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { registerRoadmapTools } from '../src/tools/roadmaps.js';
+import { collectTools, createProject, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerRoadmapTools);
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('roadmaps', () => {
+  it('needs an existing project and an end after the start', async () => {
+    const project = await createProject();
+    
+    await expect(tools.call('ha_roadmap_create', { project_id: 'missing', name: 'Q4' })).rejects.toThrow('Project not found');
+    await expect(tools.call('ha_roadmap_create', { project_id: project.id, name: 'Q4', start_date: '2026-12-01', end_date: '2026-10-01' }))
+      .rejects.toThrow('end_date 2026-10-01 is before start_date 2026-12-01');
+    
+    const roadmap = await tools.json<{ id: string }>('ha_roadmap_create', { project_id: project.id, name: 'Q4', start_date: '2026-10-01' });
+    await expect(tools.call('ha_roadmap_update', { roadmap_id: roadmap.id, end_date: '2026-09-30' })).rejects.toThrow('is before start_date');
+  });
+});
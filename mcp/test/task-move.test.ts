@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { findTaskById } from '../src/db/storage.js';
+import { addDependency } from '../src/lib/dependencies.js';
+import { transitionTask } from '../src/lib/task-status.js';
+import { registerTaskTools } from '../src/tools/tasks.js';
+import { collectTools, createProject, newTask, useTempStorage } from './helpers.js';
+
+const tools = collectTools(registerTaskTools);
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('ha_task_move', () => {
+  it('rejects an unknown target project', async () => {
+    const task = await newTask(await createProject(), { title: 'Schema' });
+    await expect(tools.call('ha_task_move', { task_id: task.id, project_id: 'missing' })).rejects.toThrow('Project not found: missing');
+  });
+  
+  it('rejects moving open work under a done parent', async () => {
+    const project = await createProject();
+    const checkout = await newTask(project, { title: 'Checkout', status: 'done' });
+    const form = await newTask(project, { title: 'Payment form', status: 'todo' });
+    
+    await expect(tools.call('ha_task_move', { task_id: form.id, parent_id: checkout.id })).rejects.toThrow('under done task "Checkout"');
+  });
+  
+  it('releases dependents whose blocker left the project', async () => {
+    const project = await createProject();
+    const schema = await newTask(project, { title: 'Schema' });
+    const api = await newTask(project, { title: 'API', status: 'todo' });
+    await addDependency(api.id, schema.id, 'marcus');
+    
+    const target = await createProject();
+    await tools.call('ha_task_move', { task_id: schema.id, project_id: target.id, agent: 'marcus' });
+    
+    expect(await findTaskById(api.id)).toMatchObject({ status: 'todo', blocked_by: null });
+    expect((await findTaskById(schema.id)).project_id).toBe(target.id);
+  });
+});
+
+describe('auto_complete_parents', () => {
+  it('sends the parent to review instead of completing it', async () => {
+    const project = await createProject({ auto_complete_parents: true });
+    const parent = await newTask(project, { title: 'Checkout', status: 'in_progress', assigned_agent: 'marcus' });
+    const child = await newTask(project, { title: 'Payment form', status: 'review', assigned_agent: 'jonas', parent_id: parent.id });
+    
+    await transitionTask(child, 'done', { agent: 'elena', reviewer: 'elena' });
+    const submitted = await findTaskById(parent.id);
+    expect(submitted.status).toBe('review');
+    
+    await expect(transitionTask(submitted, 'done', { agent: 'marcus', reviewer: 'marcus' })).rejects.toThrow('cannot review their own task');
+  });
+});
\ No newline at end of file
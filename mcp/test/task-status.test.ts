@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import { transitionTask } from '../src/lib/task-status.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+async function taskInReview() {
+  const project = await createProject();
+  return newTask(project, { title: 'Login form', assigned_team: 'devforge', assigned_agent: 'jonas', status: 'review' });
+}
+
+describe('transitionTask', () => {
+  it('rejects edges outside the transition model', async () => {
+    const project = await createProject();
+    const task = await newTask(project, { title: 'Spec' });
+    await expect(transitionTask(task, 'done', { agent: 'marcus' })).rejects.toThrow('Cannot move "Spec" from backlog to done');
+  });
+  
+  it('needs a reason to block', async () => {
+    const project = await createProject();
+    const task = await newTask(project, { title: 'Spec', status: 'todo' });
+    await expect(transitionTask(task, 'blocked', { agent: 'marcus' })).rejects.toThrow('needs a reason');
+  });
+  
+  it('needs a reviewer to complete a reviewed task', async () => {
+    const task = await taskInReview();
+    await expect(transitionTask(task, 'done', { agent: 'jonas' })).rejects.toThrow('needs a reviewer');
+  });
+  
+  it('catches the assignee reviewing under their full handle', async () => {
+    const task = await taskInReview();
+    await expect(transitionTask(task, 'done', { agent: 'jonas', reviewer: 'jonas-junior-frontend' }))
+      .rejects.toThrow('jonas cannot review their own task');
+  });
+  
+  it('checks the reviewer against an assignee set in the same update', async () => {
+    const task = await taskInReview();
+    await expect(transitionTask(task, 'done', { agent: 'elena', reviewer: 'elena', extra: { assigned_agent: 'elena' } }))
+      .rejects.toThrow('elena cannot review their own task');
+  });
+  
+  it('does not let the assignee complete their task by naming a reviewer', async () => {
+    const task = await taskInReview();
+    await expect(transitionTask(task, 'done', { agent: 'jonas-junior-frontend', reviewer: 'elena' }))
+      .rejects.toThrow('jonas cannot complete their own task');
+  });
+  
+  it('rejects unknown reviewers', async () => {
+    const task = await taskInReview();
+    await expect(transitionTask(task, 'done', { agent: 'jonas', reviewer: 'nobody' })).rejects.toThrow('nobody');
+  });
+  
+  it('records the canonical reviewer on completion', async () => {
+    const task = await taskInReview();
+    const done = await transitionTask(task, 'done', { agent: 'elena', reviewer: 'Elena-Tech-Lead-Frontend' });
+    expect(done.status).toBe('done');
+    
+    const history = await getStorage().taskStatusHistory.list({ where: { task_id: task.id } });
+    expect(history.map((h) => h.reviewer)).toEqual(['elena']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import { applyTemplate, findTemplate, projectSettings, renderTemplate, templateFromProject } from '../src/lib/templates.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+const project = { name: 'Shop', slug: 'shop', description: null };
+
+beforeAll(async () => {
+  process.env.HA_TEMPLATES_DIR = await mkdtemp(join(tmpdir(), 'ha-templates-'));
+  await writeFile(join(process.env.HA_TEMPLATES_DIR, 'auto.json'), JSON.stringify({
+    name: 'auto',
+    variables: { framework: { default: 'nextjs' } },
+    settings: { autonomous: true },
+    tasks: [
+      { key: 'schema', title: 'Schema for {{project.name}}', team: 'devforge', estimated_hours: 4 },
+      {
+        key: 'ui',
+        title: 'UI in {{framework}}',
+        team: 'devforge',
+        depends_on: ['schema'],
+        subtasks: [{ key: 'cart', title: 'Cart', team: 'devforge' }],
+      },
+    ],
+  }));
+});
+
+afterAll(() => {
+  delete process.env.HA_TEMPLATES_DIR;
+});
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+describe('templates', () => {
+  it('returns null for unknown templates', async () => {
+    expect(await findTemplate('missing')).toBeNull();
+  });
+  
+  it('lets template settings enable autonomy unless the caller overrides them', async () => {
+    const plan = await renderTemplate((await findTemplate('auto'))!, { project });
+    
+    expect(projectSettings(plan, {})).toEqual({ autonomous: true, auto_complete_parents: false });
+    expect(projectSettings(plan, { autonomous: false })).toMatchObject({ autonomous: false });
+    expect(projectSettings(null, { auto_complete_parents: true })).toEqual({ autonomous: false, auto_complete_parents: true });
+  });
+  
+  it('creates the task tree with its dependencies', async () => {
+    const plan = await renderTemplate((await findTemplate('auto'))!, { project, variables: { framework: 'remix' } });
+    const target = await createProject();
+    expect(await applyTemplate(target, plan, 'marcus')).toMatchObject({ tasks: 3, dependencies: 1 });
+    
+    const tasks = await getStorage().tasks.list({ where: { project_id: target.id } });
+    const byTitle = new Map(tasks.map((t) => [t.title, t]));
+    expect([...byTitle.keys()].sort()).toEqual(['Cart', 'Schema for Shop', 'UI in remix']);
+    expect(byTitle.get('UI in remix')!.blocked_by).toEqual([byTitle.get('Schema for Shop')!.id]);
+    expect(byTitle.get('Cart')!.parent_id).toBe(byTitle.get('UI in remix')!.id);
+  });
+  
+  it('generalizes the project name when saving a project as a template', async () => {
+    const source = await createProject();
+    await newTask(source, { title: `Launch ${source.name}` });
+    
+    const template = await templateFromProject(source, 'launch');
+    expect(template.tasks.map((t) => t.title)).toEqual(['Launch {{project.name}}']);
+  });
+  
+  it('refuses to save text that would read as a template variable', async () => {
+    const source = await createProject();
+    await newTask(source, { title: 'Render {{user.name}} in the header' });
+    
+    await expect(templateFromProject(source, 'header')).rejects.toThrow('{{user.name}} would be read as a template variable');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { getStorage } from '../src/db/storage.js';
+import type { Task } from '../src/db/supabase.js';
+import { acceptHandoff, createHandoff } from '../src/lib/handoffs.js';
+import { transitionTask } from '../src/lib/task-status.js';
+import { setActualHours } from '../src/lib/time-tracking.js';
+import { createProject, newTask, useTempStorage } from './helpers.js';
+
+beforeEach(async () => {
+  await useTempStorage();
+});
+
+/** A running timer started two hours ago */
+function runningTimer(task: Task, agent: string) {
+  return getStorage().table('time_entries').insert({
+    project_id: task.project_id,
+    task_id: task.id,
+    agent,
+    team: 'devforge',
+    source: 'timer',
+    started_at: new Date(Date.now() - 2 * 3600000).toISOString(),
+    ended_at: null,
+    hours: null,
+    note: null,
+    closed_reason: null,
+  });
+}
+
+async function taskInProgress() {
+  const project = await createProject();
+  return newTask(project, { title: 'Payments API', assigned_team: 'devforge', assigned_agent: 'leon', status: 'in_progress' });
+}
+
+describe('timers on status changes', () => {
+  it('returns the task with the hours of the timers it closed', async () => {
+    const task = await taskInProgress();
+    await runningTimer(task, 'leon');
+    
+    const data = await transitionTask(task, 'review', { agent: 'leon' });
+    expect(data.status).toBe('review');
+    expect(data.actual_hours).toBe(2);
+  });
+});
+
+describe('hours set by hand', () => {
+  it('keeps them when a session is recorded later', async () => {
+    const task = await taskInProgress();
+    expect((await setActualHours(task.id, 3, 'leon')).actual_hours).toBe(3);
+    expect(await getStorage().table('time_entries').list({ where: { task_id: task.id } })).toEqual([
+      expect.objectContaining({ agent: 'leon', source: 'manual', hours: 3 }),
+    ]);
+    
+    await runningTimer(task, 'leon');
+    expect((await transitionTask(task, 'review', { agent: 'leon' })).actual_hours).toBe(5);
+    
+    expect((await setActualHours(task.id, 6, 'leon')).actual_hours).toBe(6);
+    await expect(setActualHours(task.id, 4, 'leon')).rejects.toThrow('below the 6h recorded in time sessions');
+  });
+});
+
+describe('timers on handoffs', () => {
+  it('stops the sender\'s timer when the handoff is accepted', async () => {
+    const task = await taskInProgress();
+    const timer = await runningTimer(task, 'leon');
+    const { handoff } = await createHandoff({ taskId: task.id, from: 'leon', to: 'mira', summary: 'Webhooks left' });
+    
+    const accepted = await acceptHandoff(handoff.id, 'mira');
+    expect(accepted.task).toMatchObject({ assigned_agent: 'mira', actual_hours: 2 });
+    expect(await getStorage().table('time_entries').get(timer.id)).toMatchObject({ closed_reason: 'handed off to mira', hours: 2 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- ============================================
+-- MEETING TURNS: transcript entries, one row per turn
+-- ============================================
+-- Participants speak concurrently; inserting a row per turn cannot lose a
+-- turn the way rewriting a shared transcript array can.
+create table if not exists meeting_turns (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references meetings(id) on delete cascade,
+  speaker text not null,
+  message text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists meeting_turns_meeting_idx on meeting_turns (meeting_id, created_at);
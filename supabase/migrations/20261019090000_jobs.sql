@@ -0,0 +1,34 @@
+-- ============================================
+-- JOBS: asynchronous work (n8n generation, publishing) tracked until its callback arrives
+-- ============================================
+create or replace function ha_set_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  status text not null default 'pending' check (status in ('pending', 'running', 'completed', 'failed')),
+  project_id uuid references projects(id) on delete cascade,
+  target_type text,
+  target_id uuid,
+  request jsonb not null default '{}'::jsonb,
+  result jsonb,
+  error text,
+  requested_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists jobs_status_idx on jobs (status);
+create index if not exists jobs_target_idx on jobs (target_type, target_id);
+
+drop trigger if exists jobs_updated_at on jobs;
+create trigger jobs_updated_at
+  before update on jobs
+  for each row execute function ha_set_updated_at();
@@ -0,0 +1,17 @@
+-- ============================================
+-- TASK STATUS HISTORY: one row per status transition, for time-in-state metrics
+-- ============================================
+create table if not exists task_status_history (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  project_id uuid not null references projects(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  changed_by text not null,
+  reason text,
+  reviewer text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_status_history_task_idx on task_status_history (task_id, created_at);
+create index if not exists task_status_history_project_idx on task_status_history (project_id, created_at);
@@ -0,0 +1,28 @@
+-- ============================================
+-- WORK QUEUE: tasks handed to agents by the orchestrator
+-- ============================================
+create table if not exists work_queue (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  task_id uuid not null references tasks(id) on delete cascade,
+  kind text not null default 'task' check (kind in ('task')),
+  agent text not null,
+  team text,
+  status text not null default 'queued' check (status in ('queued', 'claimed', 'done', 'cancelled')),
+  priority text not null default 'medium',
+  reason text,
+  details jsonb not null default '{}'::jsonb,
+  created_by text not null,
+  claimed_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists work_queue_agent_idx on work_queue (agent, status);
+create index if not exists work_queue_project_idx on work_queue (project_id, status);
+
+drop trigger if exists work_queue_updated_at on work_queue;
+create trigger work_queue_updated_at
+  before update on work_queue
+  for each row execute function ha_set_updated_at();
@@ -0,0 +1,35 @@
+-- ============================================
+-- ESCALATIONS: tasks that broke an SLA rule, raised up the hierarchy
+-- ============================================
+create table if not exists escalations (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  task_id uuid not null references tasks(id) on delete cascade,
+  team text,
+  level text not null default 'assignee' check (level in ('assignee', 'tech_lead', 'leadership')),
+  escalated_to text[] not null default '{}',
+  status text not null default 'open' check (status in ('open', 'acknowledged', 'resolved')),
+  task_status text not null,
+  priority text not null default 'medium',
+  sla_hours numeric not null,
+  hours_in_status numeric not null,
+  reason text not null,
+  acknowledged_by text,
+  acknowledged_at timestamptz,
+  resolved_by text,
+  resolved_at timestamptz,
+  resolution text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists escalations_project_idx on escalations (project_id, status);
+create index if not exists escalations_task_idx on escalations (task_id);
+-- One active escalation per task, so overlapping checks cannot open a second
+create unique index if not exists escalations_active_task_idx on escalations (task_id) where status in ('open', 'acknowledged');
+create index if not exists escalations_escalated_to_idx on escalations using gin (escalated_to);
+
+drop trigger if exists escalations_updated_at on escalations;
+create trigger escalations_updated_at
+  before update on escalations
+  for each row execute function ha_set_updated_at();
@@ -0,0 +1,30 @@
+-- ============================================
+-- HANDOFFS: tasks passed between agents with summary, questions and context
+-- ============================================
+create table if not exists handoffs (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  task_id uuid not null references tasks(id) on delete cascade,
+  from_agent text not null,
+  to_agent text not null,
+  to_team text,
+  status text not null default 'pending' check (status in ('pending', 'info_requested', 'accepted', 'rejected')),
+  summary text not null,
+  open_questions text[] not null default '{}',
+  deliverables jsonb not null default '[]'::jsonb,
+  learning_ids uuid[] not null default '{}',
+  messages jsonb not null default '[]'::jsonb,
+  response text,
+  responded_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists handoffs_task_idx on handoffs (task_id, created_at);
+create index if not exists handoffs_to_agent_idx on handoffs (to_agent, status);
+create index if not exists handoffs_from_agent_idx on handoffs (from_agent, status);
+
+drop trigger if exists handoffs_updated_at on handoffs;
+create trigger handoffs_updated_at
+  before update on handoffs
+  for each row execute function ha_set_updated_at();
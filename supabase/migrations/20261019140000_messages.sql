@@ -0,0 +1,36 @@
+-- ============================================
+-- MESSAGES: direct and team channel messages, threads and mentions
+-- ============================================
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references projects(id) on delete cascade,
+  thread_id uuid references messages(id) on delete cascade,
+  sender text not null,
+  recipient text,
+  channel text,
+  body text not null,
+  mentions text[] not null default '{}',
+  link_type text check (link_type in ('task', 'meeting', 'project')),
+  link_id uuid,
+  source text not null default 'message' check (source in ('message', 'task', 'meeting')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_thread_idx on messages (thread_id, created_at);
+create index if not exists messages_channel_idx on messages (channel, created_at);
+create index if not exists messages_link_idx on messages (link_type, link_id);
+
+-- ============================================
+-- MESSAGE RECEIPTS: per-agent inbox with read state
+-- ============================================
+create table if not exists message_receipts (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references messages(id) on delete cascade,
+  agent text not null,
+  reason text not null check (reason in ('direct', 'channel', 'thread', 'mention')),
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (message_id, agent)
+);
+
+create index if not exists message_receipts_inbox_idx on message_receipts (agent, read_at, created_at desc);
@@ -0,0 +1,29 @@
+-- ============================================
+-- TIME ENTRIES: work sessions per agent and task, summed into tasks.actual_hours
+-- ============================================
+create table if not exists time_entries (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  task_id uuid not null references tasks(id) on delete cascade,
+  agent text not null,
+  team text,
+  source text not null default 'timer' check (source in ('timer', 'manual')),
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  hours numeric,
+  note text,
+  closed_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One running timer per agent
+create unique index if not exists time_entries_open_timer_idx on time_entries (agent) where ended_at is null;
+create index if not exists time_entries_task_idx on time_entries (task_id);
+create index if not exists time_entries_agent_idx on time_entries (agent, started_at);
+create index if not exists time_entries_team_idx on time_entries (team, started_at);
+
+drop trigger if exists time_entries_updated_at on time_entries;
+create trigger time_entries_updated_at
+  before update on time_entries
+  for each row execute function ha_set_updated_at();